@@ -0,0 +1,100 @@
+import type { Recipe } from '@/types/recipe';
+import { INGREDIENT_MATCH_CORPUS } from '@/data/ingredientMatchCorpus';
+import { DIET_CORPUS } from '@/data/dietCorpus';
+import { ALLERGEN_CORPUS } from '@/data/allergenCorpus';
+import { PANTRY_CORPUS, PantryCase, SCAN_CORPUS } from '@/data/pantryCorpus';
+import { SUBSTITUTION_CORPUS } from '@/data/substitutionCorpus';
+import { ingredientsMatch } from '@/utils/ingredientMatcher';
+import { checkDietCompliance } from '@/utils/dietCompliance';
+import { containsAllergen } from '@/utils/allergens';
+import { calculatePantryUsage, createLeftoverItem, mergePantryItems, toScannedPantryItems } from '@/utils/pantry';
+import { estimateExpiryDate } from '@/utils/expiry';
+import { findAvailableSubstitute } from '@/utils/substitutions';
+
+// Runs every case in the ingredient match, diet, allergen, pantry, scan and
+// substitution corpora and exits non-zero if any comes out wrong. Run with `npm run check:corpus`.
+
+/**
+ * Report a corpus's failures and return how many there were
+ */
+function report<T>(label: string, cases: T[], isCorrect: (testCase: T) => boolean, describe: (testCase: T) => string): number {
+  const failures = cases.filter(testCase => !isCorrect(testCase));
+  for (const testCase of failures) {
+    console.error(`❌ ${describe(testCase)}`);
+  }
+  console.log(`${failures.length === 0 ? '✅' : '❌'} ${label}: ${cases.length - failures.length}/${cases.length} cases correct`);
+  return failures.length;
+}
+
+/**
+ * Cook a pantry case's recipe the way "I cooked this" does and list what's
+ * left in the pantry
+ */
+function cookFromPantry({ pantry, recipe, leftoverPortions }: PantryCase): string {
+  const { items } = mergePantryItems([], pantry);
+  const usage = calculatePantryUsage(recipe as Recipe, items);
+  const remaining = items.flatMap(item => {
+    const used = usage.find(entry => entry.itemId === item.id);
+    if (!used) return [item];
+    return used.remaining > 0 ? [{ ...item, quantity: used.remaining }] : [];
+  });
+  const after = leftoverPortions > 0
+    ? mergePantryItems(remaining, [createLeftoverItem(recipe.title, leftoverPortions, null)]).items
+    : remaining;
+  return JSON.stringify(after.map(({ name, quantity, unit }) => ({ name, quantity, unit })));
+}
+
+const matchFailures = report(
+  'Ingredient matching',
+  INGREDIENT_MATCH_CORPUS,
+  ({ recipeIngredient, userIngredient, shouldMatch }) => ingredientsMatch(recipeIngredient, userIngredient) === shouldMatch,
+  ({ recipeIngredient, userIngredient, shouldMatch }) =>
+    `"${recipeIngredient}" / "${userIngredient}": expected ${shouldMatch ? 'a match' : 'no match'}`
+);
+
+const dietFailures = report(
+  'Diet rules',
+  DIET_CORPUS,
+  ({ ingredient, diet, suits }) => {
+    const compliance = checkDietCompliance({ ingredients: [ingredient] } as Recipe, diet);
+    return (compliance.compliant && compliance.unknownIngredients.length === 0) === suits;
+  },
+  ({ ingredient, diet, suits }) => `"${ingredient}": expected ${suits ? 'to suit' : 'not to suit'} ${diet}`
+);
+
+const allergenFailures = report(
+  'Allergens',
+  ALLERGEN_CORPUS,
+  ({ ingredient, allergen, contains }) => containsAllergen(ingredient, allergen) === contains,
+  ({ ingredient, allergen, contains }) => `"${ingredient}": expected ${contains ? 'to contain' : 'not to contain'} ${allergen}`
+);
+
+const pantryFailures = report(
+  'Pantry',
+  PANTRY_CORPUS,
+  testCase => cookFromPantry(testCase) === JSON.stringify(testCase.expected),
+  testCase => `${testCase.description}: got ${cookFromPantry(testCase)}`
+);
+
+const scanFailures = report(
+  'Scanned expiry',
+  SCAN_CORPUS,
+  ({ ingredient, scannedOn, expiresOn }) => {
+    const [item] = mergePantryItems([], toScannedPantryItems([ingredient], scannedOn)).items;
+    return estimateExpiryDate(item.name, item) === expiresOn;
+  },
+  ({ ingredient, scannedOn, expiresOn }) => `"${ingredient.name}" scanned ${scannedOn}: expected to expire ${expiresOn ?? 'never'}`
+);
+
+const substitutionFailures = report(
+  'Substitutions',
+  SUBSTITUTION_CORPUS,
+  ({ ingredient, userIngredients, context, diets, substitute }) =>
+    (findAvailableSubstitute(ingredient, userIngredients, [], context, diets)?.substitute ?? null) === substitute,
+  ({ ingredient, diets, substitute }) =>
+    `"${ingredient}" for ${diets.join(', ') || 'no diet'}: expected ${substitute ? `"${substitute}"` : 'no swap'}`
+);
+
+if (matchFailures + dietFailures + allergenFailures + pantryFailures + scanFailures + substitutionFailures > 0) {
+  process.exit(1);
+}
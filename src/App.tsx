@@ -14,6 +14,7 @@ import EmailLinkAuthPage from '@/pages/EmailLinkAuthPage';
 import UserPortalPage from '@/pages/UserPortalPage';
 import PaymentSuccessPage from '@/pages/PaymentSuccessPage';
 import PaymentCanceledPage from '@/pages/PaymentCanceledPage';
+import ShoppingListPage from '@/pages/ShoppingListPage';
 import { initializeUsageService } from '@/services/usageService';
 import { initializeRetryProcessor, attemptPaymentRecovery } from '@/services/stripeService';
 import { useAuthStore } from '@/services/firebaseService';
@@ -67,6 +68,7 @@ const App = () => {
               <Route path="/upgrade" element={<UpgradePage />} />
               <Route path="/auth/email-link" element={<EmailLinkAuthPage />} />
               <Route path="/portal" element={<UserPortalPage />} />
+              <Route path="/shopping-list" element={<ShoppingListPage />} />
               <Route path="/payment-success" element={<PaymentSuccessPage />} />
               <Route path="/payment-canceled" element={<PaymentCanceledPage />} />
               <Route path="*" element={<NotFound />} />
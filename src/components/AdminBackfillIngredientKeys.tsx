@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { backfillRecipeIngredientKeys } from '@/services/firebaseService';
+import { useToast } from '@/components/ui/use-toast';
+
+/**
+ * Admin component for indexing existing recipes by ingredient
+ * This should only be accessible to administrators in a real application
+ */
+const AdminBackfillIngredientKeys: React.FC = () => {
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleBackfill = async () => {
+    if (isBackfilling) return;
+
+    try {
+      setIsBackfilling(true);
+      setResult(null);
+
+      const updated = await backfillRecipeIngredientKeys();
+
+      setResult(`Indexed ${updated} recipes.`);
+      toast({
+        title: 'Success',
+        description: `Indexed ${updated} recipes.`,
+      });
+    } catch (error) {
+      console.error('Error backfilling ingredient keys:', error);
+      setResult(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      toast({
+        title: 'Error',
+        description: 'Failed to index recipes. See console for details.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBackfilling(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Admin: Index Recipe Ingredients</CardTitle>
+        <CardDescription>
+          Add ingredient search keys to recipes saved before ingredient search was indexed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <p className="mb-4 text-sm text-muted-foreground">
+          Recipes without ingredient keys don't show up in ingredient searches.
+          This is safe to run more than once.
+        </p>
+        {result && (
+          <div className={`p-3 rounded-md mb-4 ${result.startsWith('Error') ? 'bg-destructive/10 text-destructive' : 'bg-green-100 text-green-800'}`}>
+            {result}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={handleBackfill}
+          disabled={isBackfilling}
+          className="w-full"
+        >
+          {isBackfilling ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Indexing Recipes...
+            </>
+          ) : (
+            'Index Recipes'
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AdminBackfillIngredientKeys;
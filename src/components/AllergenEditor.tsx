@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { usePreferencesStore } from '@/services/userPreferencesService';
+import { ALLERGENS } from '@/data/allergens';
+import type { Allergen } from '@/types/diet';
+
+const AllergenEditor = () => {
+  const [newAllergen, setNewAllergen] = useState('');
+  const { allergens, customAllergens, toggleAllergen, addCustomAllergen, removeCustomAllergen } = usePreferencesStore();
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newAllergen.trim()) return;
+    addCustomAllergen(newAllergen);
+    setNewAllergen('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Recipes containing these, or anything made from them, are never recommended.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {(Object.keys(ALLERGENS) as Allergen[]).map(allergen => (
+          <div key={allergen} className="flex items-center gap-2">
+            <Checkbox
+              id={`allergen-${allergen}`}
+              checked={allergens.includes(allergen)}
+              onCheckedChange={() => toggleAllergen(allergen)}
+            />
+            <Label htmlFor={`allergen-${allergen}`} className="font-normal">
+              {ALLERGENS[allergen].label}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      {customAllergens.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {customAllergens.map(item => (
+            <Badge key={item} variant="secondary" className="gap-1 pr-1">
+              {item}
+              <button
+                type="button"
+                onClick={() => removeCustomAllergen(item)}
+                className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                aria-label={`Remove ${item}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={newAllergen}
+          onChange={(e) => setNewAllergen(e.target.value)}
+          placeholder="Add another, e.g. kiwi"
+        />
+        <Button type="submit" variant="outline" className="gap-1">
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default AllergenEditor;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import type { Recipe } from '@/types/recipe';
+import { usePantryStore } from '@/services/pantryService';
+import { completeCooking } from '@/services/cookingHistoryService';
+import { calculatePantryUsage } from '@/utils/pantry';
+import { roundAmount } from '@/utils/unitConversion';
+import { toDateString } from '@/utils/expiry';
+import { LEFTOVER_SHELF_LIFE_DAYS } from '@/data/shelfLife';
+
+interface CookedRecipeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  recipe: Recipe;
+  /** Servings cooked */
+  servings: number;
+  /** Servings cooked divided by the recipe's servings */
+  scale: number;
+}
+
+const getDefaultUseBy = (): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + LEFTOVER_SHELF_LIFE_DAYS);
+  return toDateString(date);
+};
+
+/**
+ * Confirms cooking a recipe: previews what comes out of the pantry and lets
+ * the user keep leftover portions with a use-by date
+ */
+const CookedRecipeDialog = ({ isOpen, onClose, recipe, servings, scale }: CookedRecipeDialogProps) => {
+  const { toast } = useToast();
+  const pantryItems = usePantryStore(state => state.items);
+  const [leftoverPortions, setLeftoverPortions] = useState('0');
+  const [leftoverUseBy, setLeftoverUseBy] = useState(getDefaultUseBy);
+  const [saving, setSaving] = useState(false);
+
+  const usage = calculatePantryUsage(recipe, pantryItems, scale);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const portions = Math.max(0, parseInt(leftoverPortions) || 0);
+      await completeCooking(recipe, {
+        servings,
+        scale,
+        leftoverPortions: portions,
+        leftoverUseBy: portions > 0 ? leftoverUseBy || null : null
+      });
+
+      toast({
+        title: "Enjoy your meal!",
+        description: usage.length > 0
+          ? `Updated ${usage.length} pantry item${usage.length === 1 ? '' : 's'}`
+          : "Recorded in your cooking history",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error recording cooked recipe:', error);
+      toast({
+        title: "Something went wrong",
+        description: "Couldn't update your pantry. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>I cooked this</DialogTitle>
+          <DialogDescription>
+            {servings} serving{servings === 1 ? '' : 's'} of {recipe.title}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-sm font-medium mb-2">Taken from your pantry</h4>
+            {usage.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                None of your pantry items have amounts this recipe uses.
+              </p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {usage.map(entry => {
+                  const used = roundAmount({ quantity: entry.used, unit: entry.unit });
+                  return (
+                    <li key={entry.itemId} className="flex justify-between gap-2">
+                      <span>{used.quantity} {used.unit} {entry.name}</span>
+                      <span className="text-muted-foreground">
+                        {entry.remaining > 0
+                          ? `${roundAmount({ quantity: entry.remaining, unit: entry.unit }).quantity} left`
+                          : 'used up'}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="leftover-portions">Leftover portions</Label>
+              <Input
+                id="leftover-portions"
+                type="number"
+                min="0"
+                value={leftoverPortions}
+                onChange={(e) => setLeftoverPortions(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="leftover-use-by">Use by</Label>
+              <Input
+                id="leftover-use-by"
+                type="date"
+                value={leftoverUseBy}
+                onChange={(e) => setLeftoverUseBy(e.target.value)}
+                disabled={!(parseInt(leftoverPortions) > 0)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Update Pantry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CookedRecipeDialog;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { usePreferencesStore } from '@/services/userPreferencesService';
+import { ALL_EQUIPMENT, EQUIPMENT, KITCHEN_PRESETS } from '@/data/equipment';
+import type { Equipment } from '@/types/equipment';
+
+const EquipmentEditor = () => {
+  const { equipment, toggleEquipment, setEquipment } = usePreferencesStore();
+
+  const isPresetSelected = (presetEquipment: Equipment[]) =>
+    presetEquipment.length === equipment.length && presetEquipment.every(item => equipment.includes(item));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Recipes that need anything you don't have are left out or flagged.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {KITCHEN_PRESETS.map(preset => (
+          <Button
+            key={preset.label}
+            type="button"
+            size="sm"
+            variant={isPresetSelected(preset.equipment) ? 'default' : 'outline'}
+            onClick={() => setEquipment(preset.equipment)}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {ALL_EQUIPMENT.map(item => (
+          <div key={item} className="flex items-center gap-2">
+            <Checkbox
+              id={`equipment-${item}`}
+              checked={equipment.includes(item)}
+              onCheckedChange={() => toggleEquipment(item)}
+            />
+            <Label htmlFor={`equipment-${item}`} className="font-normal">
+              {EQUIPMENT[item].label}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EquipmentEditor;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { ExpiryUrgency } from '@/types/ingredient';
+import { formatExpiry, getExpiryUrgency } from '@/utils/expiry';
+
+interface ExpiryBadgeProps {
+  expiresOn: string | null;
+  className?: string;
+}
+
+const URGENCY_STYLES: Record<ExpiryUrgency, string> = {
+  expired: 'border-transparent bg-destructive text-destructive-foreground',
+  today: 'border-transparent bg-orange-500 text-white',
+  soon: 'border-transparent bg-amber-100 text-amber-800',
+  fresh: 'text-muted-foreground',
+  unknown: ''
+};
+
+/**
+ * Shows how soon an ingredient needs using, coloured by urgency
+ */
+const ExpiryBadge: React.FC<ExpiryBadgeProps> = ({ expiresOn, className }) => {
+  const urgency = getExpiryUrgency(expiresOn);
+  if (urgency === 'unknown') return null;
+
+  return (
+    <Badge variant="outline" className={cn('whitespace-nowrap', URGENCY_STYLES[urgency], className)}>
+      {formatExpiry(expiresOn)}
+    </Badge>
+  );
+};
+
+export default ExpiryBadge;
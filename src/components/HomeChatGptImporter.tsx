@@ -50,34 +50,38 @@ const HomeChatGptImporter: React.FC = () => {
         console.log('Recipe data extracted, attempting to parse');
         
         // Try to parse the JSON
+        let recipeData;
         try {
-          const recipeData = JSON.parse(jsonContent);
+          recipeData = JSON.parse(jsonContent);
           console.log('JSON successfully parsed:', recipeData);
-          
-          // Check if we received an error response
-          if (recipeData.error) {
-            throw new Error(recipeData.error);
-          }
-          
-          // Import the recipe
-          console.log('Importing recipe to database');
-          await processAndImportJsonRecipe(recipeData);
-          console.log('Recipe successfully imported');
-          
-          // Show success message
-          setImportResult({
-            success: true,
-            recipeName: Array.isArray(recipeData) 
-              ? recipeData.map(r => r.title).join(', ')
-              : recipeData.title
-          });
-          
-          setRecipeUrl('');
         } catch (parseError) {
           console.error('Error parsing extracted JSON:', parseError);
           console.log('Content that failed to parse:', jsonContent);
           throw new Error('Failed to parse the extracted recipe data');
         }
+
+        // Check if we received an error response
+        if (recipeData.error) {
+          throw new Error(recipeData.error);
+        }
+
+        // Import the recipe; validation errors are shown as they are
+        console.log('Importing recipe to database');
+        const result = await processAndImportJsonRecipe(jsonContent);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        console.log('Recipe successfully imported');
+
+        // Show success message
+        setImportResult({
+          success: true,
+          recipeName: Array.isArray(recipeData)
+            ? recipeData.map(r => r.title).join(', ')
+            : recipeData.title
+        });
+
+        setRecipeUrl('');
       } catch (extractionError) {
         console.error('Error during recipe extraction:', extractionError);
         throw extractionError;
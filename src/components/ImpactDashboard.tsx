@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Leaf, Scale, PiggyBank, Flame, UtensilsCrossed } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useActivityLogStore } from '@/services/activityLogService';
+import { calculateImpact } from '@/utils/impact';
+
+const weeklyChartConfig = {
+  meals: {
+    label: 'Meals',
+    color: 'hsl(var(--primary))'
+  }
+} satisfies ChartConfig;
+
+const ingredientChartConfig = {
+  count: {
+    label: 'Recipes',
+    color: 'hsl(var(--primary))'
+  }
+} satisfies ChartConfig;
+
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+interface StatProps {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+const Stat = ({ icon, label, value, detail }: StatProps) => (
+  <div className="rounded-lg border p-4 space-y-1">
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      {icon}
+      {label}
+    </div>
+    <p className="text-2xl font-bold">{value}</p>
+    {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+  </div>
+);
+
+/**
+ * The user's food-waste impact: totals, streaks and charts worked out from
+ * their scans and the recipes they've cooked
+ */
+const ImpactDashboard = () => {
+  const events = useActivityLogStore(state => state.events);
+  const impact = useMemo(() => calculateImpact(events), [events]);
+
+  if (impact.mealsCooked === 0 && impact.scans === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Leaf className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>No impact to show yet.</p>
+        <p className="text-sm">Scan your ingredients and cook a recipe to start tracking the food you save.</p>
+      </div>
+    );
+  }
+
+  const weeklyData = impact.weekly.map(week => ({ ...week, label: formatWeek(week.weekStart) }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <Stat
+          icon={<UtensilsCrossed className="h-4 w-4" />}
+          label="Meals cooked"
+          value={String(impact.mealsCooked)}
+          detail={`${impact.mealsFromScans} from ${impact.scans} scan${impact.scans === 1 ? '' : 's'}`}
+        />
+        <Stat
+          icon={<Scale className="h-4 w-4" />}
+          label="Food used up"
+          value={`${impact.kilogramsUsed.toFixed(1)} kg`}
+        />
+        <Stat
+          icon={<PiggyBank className="h-4 w-4" />}
+          label="Money saved"
+          value={`$${impact.moneySaved.toFixed(2)}`}
+        />
+        <Stat
+          icon={<Leaf className="h-4 w-4" />}
+          label="CO₂ avoided"
+          value={`${impact.co2Avoided.toFixed(1)} kg`}
+        />
+        <Stat
+          icon={<Flame className="h-4 w-4" />}
+          label="Cooking streak"
+          value={`${impact.currentStreak} day${impact.currentStreak === 1 ? '' : 's'}`}
+          detail={`Best: ${impact.longestStreak} day${impact.longestStreak === 1 ? '' : 's'}`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Meals per week</CardTitle>
+          <CardDescription>Recipes cooked with your own ingredients over the last 8 weeks</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={weeklyChartConfig} className="h-48 w-full aspect-auto">
+            <BarChart data={weeklyData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="meals" fill="var(--color-meals)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {impact.topIngredients.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Most rescued ingredients</CardTitle>
+            <CardDescription>Ingredients you've used up most often</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={ingredientChartConfig} className="h-48 w-full aspect-auto">
+              <BarChart data={impact.topIngredients} layout="vertical">
+                <XAxis type="number" allowDecimals={false} hide />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Weights, savings and emissions are estimates based on typical figures for each kind of ingredient.
+      </p>
+    </div>
+  );
+};
+
+export default ImpactDashboard;
@@ -5,25 +5,40 @@ import { Badge } from './ui/badge';
 import { Loader2, Search, Plus, Clock, User, Bookmark } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { recommendRecipesFromIngredients } from '../services/recipeRecommendationService';
-import { calculateIngredientCoverage, findMissingIngredients } from '../utils/recipeUtils';
+import { attachMatchReports, meetsRequirements, getRankingScore } from '../utils/matchReport';
+import { excludeAllergenRecipes } from '../utils/allergens';
+import { formatRecipeTimes } from '../utils/duration';
 import { saveRecipe, unsaveRecipe, isRecipeSaved } from '../services/recipeService';
 import type { Recipe } from '@/types/recipe';
+import type { UserIngredient } from '@/types/ingredient';
+import type { Cuisine } from '@/types/cuisine';
 import { cn } from '@/lib/utils';
 import { SpoonacularError } from '../services/spoonacularService';
 import { useAuthStore } from '@/services/firebaseService';
+import { usePreferencesStore } from '@/services/userPreferencesService';
 import AuthModal from '@/components/AuthModal';
+import MatchReportSummary from '@/components/MatchReportSummary';
 
 interface IngredientBasedRecommendationsProps {
   ingredients: string[];
-  dietaryFilter?: string;
+  /** The same ingredients with the amounts the user has, used for scoring */
+  userIngredients?: UserIngredient[];
+  /** Diets every recipe must satisfy */
+  dietaryFilters?: string[];
   calorieLimit?: number;
+  /** Longest total time in minutes */
+  maxTotalTime?: number;
+  /** Cuisines the user picked; any one of them will do */
+  cuisines?: Cuisine[];
   onSelectRecipe: (recipe: Recipe) => void;
 }
 
 // Helper function to generate cache key
-const getCacheKey = (ingredients: string[], dietaryFilter?: string): string => {
+const getCacheKey = (ingredients: string[], dietaryFilters: string[], maxTotalTime?: number, cuisines: Cuisine[] = []): string => {
   const sortedIngredients = [...ingredients].sort().join(',');
-  return `recipe_recommendations_${sortedIngredients}_${dietaryFilter || 'none'}`;
+  const sortedDiets = [...dietaryFilters].sort().join(',');
+  const sortedCuisines = [...cuisines].sort().join(',');
+  return `recipe_recommendations_${sortedIngredients}_${sortedDiets || 'none'}_${maxTotalTime || 'any'}_${sortedCuisines || 'any'}`;
 };
 
 // Helper function to clear recipe cache
@@ -40,8 +55,11 @@ const clearRecipeCache = () => {
 
 const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> = ({
   ingredients,
-  dietaryFilter,
+  userIngredients,
+  dietaryFilters = [],
   calorieLimit,
+  maxTotalTime,
+  cuisines = [],
   onSelectRecipe
 }) => {
   const [isLoading, setIsLoading] = useState(false);
@@ -54,6 +72,9 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [recipeToSave, setRecipeToSave] = useState<Recipe | null>(null);
   const { user } = useAuthStore();
+  const { pantryStaples, allergens, customAllergens, equipment } = usePreferencesStore();
+  // Score with amounts when we have them so shortfalls lower the match
+  const scoringIngredients = userIngredients?.length ? userIngredients : ingredients;
   const { toast } = useToast();
 
   // Function to truncate description
@@ -80,7 +101,7 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
 
     try {
       // Check cache first if not forcing fresh results
-      const cacheKey = getCacheKey(ingredients, dietaryFilter);
+      const cacheKey = getCacheKey(ingredients, dietaryFilters, maxTotalTime, cuisines);
       const cachedResults = !forceFresh && useCache ? sessionStorage.getItem(cacheKey) : null;
       
       let allRecipes: Recipe[];
@@ -92,7 +113,7 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
       } else {
         try {
           // Get fresh results from API
-          allRecipes = await recommendRecipesFromIngredients(ingredients, dietaryFilter, { threshold: 0.1 });
+          allRecipes = await recommendRecipesFromIngredients(scoringIngredients, dietaryFilters, { calorieLimit, maxTotalTime, cuisines });
           // Log recipe sources
           console.log('Recipe sources:', allRecipes.map(recipe => ({
             title: recipe.title,
@@ -120,39 +141,28 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
         }
       }
       
-      // Helper function to check if recipe meets dietary and calorie requirements
-      const meetsRequirements = (recipe: Recipe) => {
-        // Check calorie limit if specified
-        if (calorieLimit && recipe.calories && recipe.calories > calorieLimit) {
-          return false;
-        }
-        
-        // Check dietary requirements if specified, with a special case for OpenAI recipes
-        if (dietaryFilter && dietaryFilter !== 'none') {
-          // For OpenAI-generated recipes, be more lenient as they may not have properly formatted tags
-          if (recipe.id.toString().includes('openai')) {
-            // If we can't verify diet compliance, assume it's ok since OpenAI was given the dietary constraint
-            return true;
-          }
-          
-          // For other recipes, check dietary tags
-          return recipe.dietaryTags.some(tag => 
-            tag.toLowerCase().includes(dietaryFilter.toLowerCase()) || 
-            dietaryFilter.toLowerCase().includes(tag.toLowerCase())
-          );
-        }
-        
-        return true;
-      };
+      // Rebuild the match reports and recheck allergens: cached results may
+      // predate changes to amounts, staples, filters, the allergen profile or
+      // the kitchen equipment, so recipes needing missing equipment get flagged
+      allRecipes = attachMatchReports(
+        excludeAllergenRecipes(allRecipes, { allergens, customAllergens }),
+        scoringIngredients,
+        { pantryStaples, dietaryFilters, calorieLimit, maxTotalTime, equipment, cuisines }
+      );
+      const coverageOf = (recipe: Recipe) => recipe.matchReport.score;
+      const passesRequirements = (recipe: Recipe) => meetsRequirements(recipe.matchReport);
 
       // Split recipes into recommendations and alternatives with a lower threshold
       const exactMatches = allRecipes.filter(recipe => {
-        const coverage = calculateIngredientCoverage(recipe, ingredients);
+        const coverage = coverageOf(recipe);
         // Lower threshold to 0.2 (20%) to be more inclusive
-        const meets = coverage >= 0.2 && meetsRequirements(recipe);
-        console.log(`Recipe ${recipe.title} - Coverage: ${coverage.toFixed(2)}, Meets requirements: ${meetsRequirements(recipe)}, Categorized as: ${meets ? 'main recommendation' : 'alternative'}`);
+        const meets = coverage >= 0.2 && passesRequirements(recipe);
+        console.log(`Recipe ${recipe.title} - Coverage: ${coverage.toFixed(2)}, Meets requirements: ${passesRequirements(recipe)}, Categorized as: ${meets ? 'main recommendation' : 'alternative'}`);
         return meets;
       });
+      // Recipes that use up food about to expire go first; expiry dates may
+      // have changed since the results were cached
+      exactMatches.sort((a, b) => getRankingScore(b.matchReport) - getRankingScore(a.matchReport));
       
       // Log the split of recipes
       console.log('Main recommendations count:', exactMatches.length);
@@ -160,43 +170,33 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
       
       const potentialAlternatives = allRecipes
         .filter(recipe => {
-          const coverage = calculateIngredientCoverage(recipe, ingredients);
+          const coverage = coverageOf(recipe);
           // Include recipes that either:
           // 1. Have less than 30% ingredient match but meet dietary/calorie requirements
           // 2. Have good ingredient match but don't meet dietary/calorie requirements
-          return (coverage < 0.3 && meetsRequirements(recipe)) || 
-                 (coverage >= 0.3 && !meetsRequirements(recipe));
+          return (coverage < 0.3 && passesRequirements(recipe)) || 
+                 (coverage >= 0.3 && !passesRequirements(recipe));
         })
         .sort((a, b) => {
           // Sort by ingredient coverage first
-          const coverageA = calculateIngredientCoverage(a, ingredients);
-          const coverageB = calculateIngredientCoverage(b, ingredients);
+          const coverageA = coverageOf(a);
+          const coverageB = coverageOf(b);
           if (Math.abs(coverageB - coverageA) > 0.1) { // If coverage difference is significant
             return coverageB - coverageA;
           }
           // If coverage is similar, prioritize recipes that meet requirements
-          return Number(meetsRequirements(b)) - Number(meetsRequirements(a));
+          return Number(passesRequirements(b)) - Number(passesRequirements(a));
         });
 
-      // If no exact matches but we have alternatives, move the best alternative to exactMatches
-      if (exactMatches.length === 0 && potentialAlternatives.length > 0) {
-        // Find any OpenAI-generated recipes first (they should be prioritized)
-        const openAiRecipe = potentialAlternatives.find(r => r.id.toString().includes('openai'));
-        
-        if (openAiRecipe) {
-          console.log('Moving OpenAI recipe to main recommendations:', openAiRecipe.title);
-          exactMatches.push(openAiRecipe);
-          // Remove from alternatives
-          const index = potentialAlternatives.findIndex(r => r.id === openAiRecipe.id);
-          if (index !== -1) {
-            potentialAlternatives.splice(index, 1);
-          }
-        } else if (potentialAlternatives.length > 0) {
-          // If no OpenAI recipe, move the top alternative
-          console.log('Moving top alternative recipe to main recommendations:', potentialAlternatives[0].title);
-          exactMatches.push(potentialAlternatives[0]);
-          potentialAlternatives.splice(0, 1);
-        }
+      // If no exact matches but we have alternatives, move the best alternative
+      // that still meets the user's requirements to exactMatches
+      const compliantAlternatives = potentialAlternatives.filter(passesRequirements);
+      if (exactMatches.length === 0 && compliantAlternatives.length > 0) {
+        // OpenAI-generated recipes are built from the user's ingredients, so prefer them
+        const promoted = compliantAlternatives.find(r => r.id.toString().includes('openai')) || compliantAlternatives[0];
+        console.log('Moving alternative recipe to main recommendations:', promoted.title);
+        exactMatches.push(promoted);
+        potentialAlternatives.splice(potentialAlternatives.indexOf(promoted), 1);
       }
       
       setRecommendations(exactMatches);
@@ -327,13 +327,15 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
     }
   };
 
+  const dietaryKey = dietaryFilters.join(',');
+  const cuisineKey = cuisines.join(',');
   useEffect(() => {
     if (ingredients.length > 0) {
       loadRecommendations(false);
     } else {
       setRecommendations([]);
     }
-  }, [ingredients, dietaryFilter]);
+  }, [ingredients, dietaryKey, maxTotalTime, cuisineKey]);
   
   // Check saved recipes when user or recipes change
   useEffect(() => {
@@ -395,7 +397,7 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
           {recommendations.length > 0 && (
             <div className="space-y-4 mb-8">
           {recommendations.map((recipe) => {
-            const coverage = calculateIngredientCoverage(recipe, ingredients);
+            const coverage = recipe.matchReport?.score ?? 0;
                 const isExpanded = expandedRecipeId === String(recipe.id);
             
             return (
@@ -449,7 +451,7 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
                           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
                             <div className="flex items-center gap-2">
                               <Clock className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
-                            <span>{recipe.prepTime} + {recipe.cookTime}</span>
+                            <span>{formatRecipeTimes(recipe) || 'Time not given'}</span>
                             </div>
                             <div className="flex items-center gap-2">
                               <User className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
@@ -476,10 +478,8 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
                         <Badge variant="outline" className="whitespace-nowrap">
                           {Math.round(coverage * 100)}% Match
                         </Badge>
-                        {coverage < 1 && (
-                          <span className="text-xs text-muted-foreground">
-                            ({findMissingIngredients(recipe, ingredients).length} ingredients missing)
-                          </span>
+                        {recipe.matchReport && (
+                          <MatchReportSummary report={recipe.matchReport} />
                         )}
                       </div>
                       <div className="flex items-center gap-2">
@@ -531,7 +531,7 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
               </h3>
               <div className="space-y-4">
                 {alternativeRecipes.map((recipe) => {
-                  const coverage = calculateIngredientCoverage(recipe, ingredients);
+                  const coverage = recipe.matchReport?.score ?? 0;
                   const isExpanded = expandedRecipeId === String(recipe.id);
                   
                   return (
@@ -585,7 +585,7 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
                               <div className="flex items-center gap-2">
                                 <Clock className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
-                                <span>{recipe.prepTime} + {recipe.cookTime}</span>
+                                <span>{formatRecipeTimes(recipe) || 'Time not given'}</span>
                               </div>
                               <div className="flex items-center gap-2">
                                 <User className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
@@ -612,10 +612,8 @@ const IngredientBasedRecommendations: FC<IngredientBasedRecommendationsProps> =
                           <Badge variant="outline" className="whitespace-nowrap">
                             {Math.round(coverage * 100)}% Match
                           </Badge>
-                          {coverage < 1 && (
-                            <span className="text-xs text-muted-foreground">
-                              ({findMissingIngredients(recipe, ingredients).length} ingredients missing)
-                            </span>
+                          {recipe.matchReport && (
+                            <MatchReportSummary report={recipe.matchReport} />
                           )}
                     </div>
                         <div className="flex items-center gap-2">
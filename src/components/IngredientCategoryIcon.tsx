@@ -16,78 +16,8 @@ import {
   LucideIcon,
   LucideProps
 } from 'lucide-react';
-
-type IngredientCategory = 
-  | 'fruit' 
-  | 'vegetable' 
-  | 'meat' 
-  | 'seafood' 
-  | 'dairy' 
-  | 'grain' 
-  | 'spice' 
-  | 'beverage'
-  | 'other';
-
-const categoryMapping: Record<string, IngredientCategory> = {
-  // Fruits
-  apple: 'fruit',
-  banana: 'fruit',
-  orange: 'fruit',
-  strawberry: 'fruit',
-  blueberry: 'fruit',
-  
-  // Vegetables
-  tomato: 'vegetable',
-  cucumber: 'vegetable',
-  carrot: 'vegetable',
-  lettuce: 'vegetable',
-  onion: 'vegetable',
-  garlic: 'vegetable',
-  potato: 'vegetable',
-  corn: 'vegetable',
-  asparagus: 'vegetable',
-  
-  // Meats
-  chicken: 'meat',
-  beef: 'meat',
-  pork: 'meat',
-  lamb: 'meat',
-  turkey: 'meat',
-  
-  // Seafood
-  fish: 'seafood',
-  shrimp: 'seafood',
-  salmon: 'seafood',
-  tuna: 'seafood',
-  
-  // Dairy
-  milk: 'dairy',
-  cheese: 'dairy',
-  yogurt: 'dairy',
-  butter: 'dairy',
-  egg: 'dairy',
-  
-  // Grains
-  rice: 'grain',
-  bread: 'grain',
-  pasta: 'grain',
-  flour: 'grain',
-  oats: 'grain',
-  
-  // Spices
-  salt: 'spice',
-  pepper: 'spice',
-  oregano: 'spice',
-  basil: 'spice',
-  thyme: 'spice',
-  
-  // Beverages
-  water: 'beverage',
-  juice: 'beverage',
-  soda: 'beverage',
-  coffee: 'beverage',
-  tea: 'beverage',
-};
+import type { IngredientCategory } from '@/types/ingredient';
+import { getIngredientCategory } from '@/utils/ingredientCatalog';
 
 interface IngredientCategoryIconProps {
   ingredientName: string;
@@ -113,21 +43,7 @@ const IngredientCategoryIcon: React.FC<IngredientCategoryIconProps> = ({
   size = 20,
   className = ""
 }) => {
-  // Determine the category based on the ingredient name
-  const lowerCaseName = ingredientName.toLowerCase();
-  
-  // Try to find an exact match first
-  let category: IngredientCategory = categoryMapping[lowerCaseName] || 'other';
-  
-  // If no exact match, try to find a partial match
-  if (category === 'other') {
-    for (const [key, value] of Object.entries(categoryMapping)) {
-      if (lowerCaseName.includes(key)) {
-        category = value;
-        break;
-      }
-    }
-  }
+  const category = getIngredientCategory(ingredientName);
   
   // Get the icon component and color from our mapping
   const { icon: IconComponent, color } = categoryIcons[category];
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import type { IngredientDates } from '@/types/ingredient';
+
+interface IngredientDateInputsProps {
+  dates: Partial<IngredientDates>;
+  onChange: (dates: Partial<IngredientDates>) => void;
+}
+
+const FIELDS: { key: keyof IngredientDates; label: string }[] = [
+  { key: 'purchasedOn', label: 'Bought' },
+  { key: 'openedOn', label: 'Opened' },
+  { key: 'expiresOn', label: 'Use by' }
+];
+
+/**
+ * Purchase, opened and use-by date pickers for an ingredient. Any can be left
+ * empty; the use-by date is estimated from the others when missing.
+ */
+const IngredientDateInputs: React.FC<IngredientDateInputsProps> = ({ dates, onChange }) => (
+  <div className="grid grid-cols-3 gap-2">
+    {FIELDS.map(({ key, label }) => (
+      <label key={key} className="flex flex-col gap-1 text-xs text-muted-foreground">
+        {label}
+        <Input
+          type="date"
+          value={dates[key] || ''}
+          onChange={(e) => onChange({ ...dates, [key]: e.target.value || null })}
+          className="h-9 text-sm"
+        />
+      </label>
+    ))}
+  </div>
+);
+
+export default IngredientDateInputs;
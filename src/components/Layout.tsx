@@ -1,10 +1,11 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Settings, ArrowLeft } from 'lucide-react';
+import { Settings, ArrowLeft, ShoppingCart } from 'lucide-react';
 import Logo from '@/components/Logo';
 import UserNav from './UserNav';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { useShoppingListStore } from '@/services/shoppingListService';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -16,6 +17,7 @@ const Layout = ({
   showBackButton = false,
 }: LayoutProps) => {
   const navigate = useNavigate();
+  const remainingItems = useShoppingListStore(state => state.items.filter(item => !item.checked).length);
   
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -39,6 +41,20 @@ const Layout = ({
               </div>
               <div className="flex items-center gap-2">
                 <ThemeToggle />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="relative"
+                  onClick={() => navigate('/shopping-list')}
+                >
+                  <ShoppingCart className="h-4 w-4" />
+                  {remainingItems > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4">
+                      {remainingItems}
+                    </span>
+                  )}
+                  <span className="sr-only">Shopping list</span>
+                </Button>
                 <UserNav />
               </div>
             </div>
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { MatchReport } from '@/types/recipe';
+import { formatMatchSummary } from '@/utils/matchReport';
+import { formatShortfall } from '@/utils/recipeUtils';
+import { formatSubstitution } from '@/utils/substitutions';
+
+interface MatchReportSummaryProps {
+  report: MatchReport;
+}
+
+/**
+ * One-line explanation of why a recipe was recommended, with any expiring
+ * items it uses up, shortfalls, substitutions, staples assumed and
+ * requirements the recipe failed
+ */
+const MatchReportSummary: React.FC<MatchReportSummaryProps> = ({ report }) => {
+  const failedChecks = [report.dietCheck, report.calorieCheck, report.timeCheck, report.equipmentCheck, report.cuisineCheck].filter(check => check.required && !check.passed);
+
+  return (
+    <div className="flex flex-col gap-0.5 text-xs">
+      <span className="text-muted-foreground">{formatMatchSummary(report)}</span>
+      {report.expiringIngredients?.length > 0 && (
+        <span className="text-green-600">
+          Uses up {report.expiringIngredients.join(', ')} before it expires
+        </span>
+      )}
+      {report.makeable && report.substitutions.length > 0 && (
+        <span className="text-green-600">Makeable with swaps</span>
+      )}
+      {report.shortfalls.map(shortfall => (
+        <span key={shortfall.name} className="text-amber-600">
+          {formatShortfall(shortfall)}
+        </span>
+      ))}
+      {report.substitutions.map(substitution => (
+        <span key={substitution.recipeIngredient} className="text-muted-foreground">
+          {formatSubstitution(substitution)}
+        </span>
+      ))}
+      {report.staplesAssumed.length > 0 && (
+        <span className="text-muted-foreground">
+          Assumes you have {report.staplesAssumed.join(', ')}
+        </span>
+      )}
+      {failedChecks.map(check => (
+        <span key={check.reason} className="text-destructive">
+          {check.reason}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default MatchReportSummary;
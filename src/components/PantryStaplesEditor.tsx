@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Plus, X, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { usePreferencesStore } from '@/services/userPreferencesService';
+
+const PantryStaplesEditor = () => {
+  const [newStaple, setNewStaple] = useState('');
+  const { pantryStaples, addPantryStaple, removePantryStaple, resetPantryStaples } = usePreferencesStore();
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStaple.trim()) return;
+    addPantryStaple(newStaple);
+    setNewStaple('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Staples are ingredients you always have at home. Recipes won't count them as missing.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {pantryStaples.length === 0 && (
+          <span className="text-sm text-muted-foreground">No staples yet</span>
+        )}
+        {pantryStaples.map(staple => (
+          <Badge key={staple} variant="secondary" className="gap-1 pr-1">
+            {staple}
+            <button
+              type="button"
+              onClick={() => removePantryStaple(staple)}
+              className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+              aria-label={`Remove ${staple}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={newStaple}
+          onChange={(e) => setNewStaple(e.target.value)}
+          placeholder="Add a staple, e.g. soy sauce"
+        />
+        <Button type="submit" variant="outline" className="gap-1">
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </form>
+
+      <Button variant="ghost" size="sm" className="gap-1" onClick={resetPantryStaples}>
+        <RotateCcw className="h-3 w-3" />
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
+
+export default PantryStaplesEditor;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useMemo, useCallback, FC } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Loader2, Search, ShoppingCart } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { planRecipesFromIngredients } from '../services/recipeRecommendationService';
+import type { Recipe, RecipePlan } from '@/types/recipe';
+import type { UserIngredient } from '@/types/ingredient';
+import type { Cuisine } from '@/types/cuisine';
+import type { AllergenProfile } from '@/types/diet';
+import type { Equipment } from '@/types/equipment';
+import MatchReportSummary from '@/components/MatchReportSummary';
+import { useShoppingListStore } from '@/services/shoppingListService';
+import { usePreferencesStore } from '@/services/userPreferencesService';
+
+interface UseItAllPlannerProps {
+  userIngredients: UserIngredient[];
+  /** Diets every recipe must satisfy */
+  dietaryFilters?: string[];
+  calorieLimit?: number;
+  /** Longest total time in minutes */
+  maxTotalTime?: number;
+  /** Cuisines the user picked; any one of them will do */
+  cuisines?: Cuisine[];
+  onSelectRecipe: (recipe: Recipe) => void;
+}
+
+// Everything a plan depends on, from the props and the user's preferences
+interface PlanRequest {
+  userIngredients: UserIngredient[];
+  dietaryFilters: string[];
+  calorieLimit?: number;
+  maxTotalTime?: number;
+  cuisines: Cuisine[];
+  allergens: AllergenProfile;
+  equipment: Equipment[];
+  pantryStaples: string[];
+}
+
+/**
+ * Shows a handful of recipes that together use up as much of the user's
+ * ingredients as possible, and what would be left over
+ */
+const UseItAllPlanner: FC<UseItAllPlannerProps> = ({
+  userIngredients,
+  dietaryFilters = [],
+  calorieLimit,
+  maxTotalTime,
+  cuisines = [],
+  onSelectRecipe
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [plan, setPlan] = useState<RecipePlan | null>(null);
+  const { toast } = useToast();
+  const addRecipeToShoppingList = useShoppingListStore(state => state.addRecipe);
+  const { pantryStaples, allergens, customAllergens, equipment } = usePreferencesStore();
+
+  // Serialised so the plan is only redone when a value changes, not whenever
+  // a parent re-renders with new arrays holding the same values
+  const planKey = useMemo(() => JSON.stringify({
+    userIngredients,
+    dietaryFilters,
+    calorieLimit,
+    maxTotalTime,
+    cuisines,
+    allergens: { allergens, customAllergens },
+    equipment,
+    pantryStaples
+  } satisfies PlanRequest), [userIngredients, dietaryFilters, calorieLimit, maxTotalTime, cuisines, allergens, customAllergens, equipment, pantryStaples]);
+
+  const loadPlan = useCallback(async () => {
+    const { userIngredients, dietaryFilters, ...options }: PlanRequest = JSON.parse(planKey);
+    if (userIngredients.length === 0) return;
+
+    setIsLoading(true);
+    setPlan(null);
+    try {
+      setPlan(await planRecipesFromIngredients(userIngredients, dietaryFilters, options));
+    } catch (error) {
+      console.error('Error planning recipes:', error);
+      toast({
+        description: 'Failed to plan recipes.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [planKey, toast]);
+
+  // Put everything the planned recipes still need on one list
+  const handleAddToShoppingList = () => {
+    if (!plan) return;
+    const added = plan.recipes.reduce(
+      (total, { recipe }) => total + addRecipeToShoppingList(recipe, userIngredients),
+      0
+    );
+    toast({
+      description: added > 0
+        ? `Added ${added} ingredient${added === 1 ? '' : 's'} to your shopping list`
+        : 'You have everything for these recipes',
+    });
+  };
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Use-It-All Plan</h3>
+        <Button variant="outline" size="sm" onClick={loadPlan} disabled={isLoading}>
+          <Search className="h-4 w-4 mr-2" />
+          Re-plan
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center h-48 space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-sm text-muted-foreground">
+            Finding recipes that use up everything...
+          </p>
+        </div>
+      ) : plan && (
+        <div className="space-y-4">
+          {plan.recipes.length === 0 ? (
+            <div className="text-center p-8 border rounded-lg bg-muted/30">
+              <p className="text-sm text-muted-foreground">
+                No recipes found that use your ingredients
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              These {plan.recipes.length} recipes use {plan.usedIngredients.length} of your{' '}
+              {plan.usedIngredients.length + plan.unusedIngredients.length} ingredients
+              ({Math.round(plan.coverage * 100)}% by amount and urgency).
+            </p>
+          )}
+
+          {plan.recipes.map(({ recipe, newlyUsedIngredients }, index) => (
+            <Card key={recipe.id}>
+              <CardHeader className="p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+                  {recipe.image && (
+                    <div className="flex-shrink-0 w-full sm:w-24 h-40 sm:h-24 rounded-md overflow-hidden">
+                      <img
+                        src={recipe.image}
+                        alt={recipe.title}
+                        className="w-full h-full object-cover"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement;
+                          target.style.display = 'none';
+                        }}
+                      />
+                    </div>
+                  )}
+                  <div className="flex-1 space-y-1">
+                    <CardDescription>Recipe {index + 1}</CardDescription>
+                    <CardTitle className="text-xl">{recipe.title}</CardTitle>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">Uses up:</span>
+                  {newlyUsedIngredients.map(name => (
+                    <Badge key={name} variant="secondary">{name}</Badge>
+                  ))}
+                </div>
+                {recipe.matchReport && <MatchReportSummary report={recipe.matchReport} />}
+              </CardContent>
+              <CardFooter className="p-4 sm:p-6 pt-0 sm:pt-0">
+                <Button onClick={() => onSelectRecipe(recipe)}>View Recipe</Button>
+              </CardFooter>
+            </Card>
+          ))}
+
+          {plan.recipes.length > 0 && (
+            <Button variant="outline" className="w-full gap-2" onClick={handleAddToShoppingList}>
+              <ShoppingCart className="h-4 w-4" />
+              Add Missing Ingredients to Shopping List
+            </Button>
+          )}
+
+          {plan.unusedIngredients.length > 0 && (
+            <div className="p-4 border rounded-lg bg-muted/30 space-y-2">
+              <p className="text-sm font-medium">Left over</p>
+              <div className="flex flex-wrap gap-2">
+                {plan.unusedIngredients.map(name => (
+                  <Badge key={name} variant="outline">{name}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UseItAllPlanner;
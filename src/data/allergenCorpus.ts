@@ -0,0 +1,42 @@
+import type { Allergen } from '@/types/diet';
+
+/**
+ * Ingredients the allergen checks have got wrong before, and whether each
+ * contains the allergen. Add a case whenever a missed or false flag is
+ * reported; `npm run check:corpus` checks every one.
+ */
+export interface AllergenCase {
+  ingredient: string;
+  allergen: Allergen;
+  contains: boolean;
+}
+
+export const ALLERGEN_CORPUS: AllergenCase[] = [
+  // Milk
+  { ingredient: 'milk chocolate', allergen: 'milk', contains: true },
+  { ingredient: 'ghee', allergen: 'milk', contains: true },
+  { ingredient: 'dark chocolate', allergen: 'milk', contains: false },
+  { ingredient: 'oat milk', allergen: 'milk', contains: false },
+  { ingredient: 'cocoa butter', allergen: 'milk', contains: false },
+  { ingredient: 'cream of tartar', allergen: 'milk', contains: false },
+
+  // Wheat
+  { ingredient: 'udon noodles', allergen: 'wheat', contains: true },
+  { ingredient: 'gnocchi', allergen: 'wheat', contains: true },
+  { ingredient: 'pizza dough', allergen: 'wheat', contains: true },
+  { ingredient: 'pita', allergen: 'wheat', contains: true },
+  { ingredient: 'egg noodles', allergen: 'wheat', contains: true },
+  { ingredient: 'rice noodles', allergen: 'wheat', contains: false },
+  { ingredient: 'gluten-free pizza dough', allergen: 'wheat', contains: false },
+
+  // Eggs
+  { ingredient: 'brioche buns', allergen: 'egg', contains: true },
+  { ingredient: 'fresh pasta', allergen: 'egg', contains: true },
+  { ingredient: 'egg noodles', allergen: 'egg', contains: true },
+  { ingredient: 'eggplant', allergen: 'egg', contains: false },
+
+  // Nuts
+  { ingredient: 'almond butter', allergen: 'tree-nut', contains: true },
+  { ingredient: 'peanut oil', allergen: 'peanut', contains: true },
+  { ingredient: 'peanut oil', allergen: 'tree-nut', contains: false }
+];
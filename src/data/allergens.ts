@@ -0,0 +1,71 @@
+import type { Allergen, AllergenDefinition } from '@/types/diet';
+
+// Listed in the order shown to the user
+export const ALLERGENS: Record<Allergen, AllergenDefinition> = {
+  milk: {
+    label: 'Milk',
+    traits: ['dairy'],
+    catalogIds: [],
+    keywords: [
+      'whey', 'casein', 'caseinate', 'ghee', 'lactose', 'paneer', 'ricotta', 'custard', 'ice cream',
+      'milk chocolate', 'white chocolate', 'milk powder', 'brioche'
+    ]
+  },
+  egg: {
+    label: 'Eggs',
+    traits: ['egg'],
+    catalogIds: ['egg-noodle', 'mayonnaise'],
+    keywords: ['meringue', 'aioli', 'hollandaise', 'albumin', 'brioche', 'challah', 'fresh pasta', 'egg pasta']
+  },
+  fish: {
+    label: 'Fish',
+    traits: ['fish'],
+    catalogIds: [],
+    keywords: []
+  },
+  shellfish: {
+    label: 'Shellfish',
+    traits: ['shellfish'],
+    catalogIds: [],
+    keywords: []
+  },
+  'tree-nut': {
+    label: 'Tree nuts',
+    traits: [],
+    catalogIds: ['nut', 'nut-butter'],
+    keywords: [
+      'almond', 'walnut', 'cashew', 'pecan', 'hazelnut', 'pistachio', 'macadamia',
+      'brazil nut', 'pine nut', 'praline', 'marzipan', 'nutella', 'pesto', 'frangipane'
+    ]
+  },
+  peanut: {
+    label: 'Peanuts',
+    traits: [],
+    catalogIds: ['peanut', 'peanut-butter', 'peanut-oil'],
+    keywords: ['peanut', 'groundnut', 'satay']
+  },
+  wheat: {
+    label: 'Wheat',
+    traits: [],
+    catalogIds: ['flour', 'pasta', 'egg-noodle', 'bread', 'couscous', 'tortilla', 'soy-sauce'],
+    keywords: [
+      'wheat', 'semolina', 'spelt', 'durum', 'bulgur', 'farro', 'seitan',
+      'breadcrumb', 'panko', 'noodle', 'cracker', 'pastry', 'beer',
+      'dough', 'crust', 'naan', 'pita', 'bun', 'bagel', 'croissant', 'crouton', 'pretzel', 'biscuit',
+      'brioche', 'challah', 'udon', 'ramen', 'gnocchi', 'orzo'
+    ],
+    exceptions: /\bgluten free\b|\b(rice|corn|almond|coconut|chickpea|buckwheat)\s+(flour|noodle|tortilla|pasta|cracker)\b|\btamari\b/
+  },
+  soy: {
+    label: 'Soy',
+    traits: [],
+    catalogIds: ['tofu', 'soy-sauce'],
+    keywords: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'shoyu']
+  },
+  sesame: {
+    label: 'Sesame',
+    traits: [],
+    catalogIds: ['sesame-seed', 'sesame-oil'],
+    keywords: ['sesame', 'tahini', 'hummus', 'halva', 'gomasio']
+  }
+};
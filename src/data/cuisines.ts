@@ -0,0 +1,145 @@
+import type { Cuisine, CuisineDefinition } from '@/types/cuisine';
+
+// Listed in the order shown to the user
+export const CUISINES: Record<Cuisine, CuisineDefinition> = {
+  american: {
+    label: 'American',
+    spoonacularName: 'American',
+    aliases: ['southern', 'cajun', 'creole', 'soul food', 'usa'],
+    keywords: [
+      'burger', 'hamburger', 'hot dog', 'mac and cheese', 'meatloaf', 'pancake', 'cornbread', 'buffalo',
+      'coleslaw', 'brownie', 'cheesesteak', 'grits', 'biscuits and gravy', 'sloppy joe', 'pulled pork', 'ranch'
+    ]
+  },
+  british: {
+    label: 'British',
+    spoonacularName: 'British',
+    aliases: ['english', 'irish', 'scottish', 'welsh', 'uk'],
+    keywords: [
+      'shepherd pie', 'cottage pie', 'fish and chips', 'scone', 'crumpet', 'banger', 'yorkshire pudding',
+      'trifle', 'full english', 'toad in the hole', 'sticky toffee', 'worcestershire', 'bubble and squeak'
+    ]
+  },
+  caribbean: {
+    label: 'Caribbean',
+    spoonacularName: 'Caribbean',
+    aliases: ['jamaican', 'cuban', 'puerto rican', 'trinidadian', 'haitian'],
+    keywords: ['jerk', 'plantain', 'ackee', 'callaloo', 'scotch bonnet', 'rice and peas', 'sofrito', 'mojo']
+  },
+  chinese: {
+    label: 'Chinese',
+    spoonacularName: 'Chinese',
+    aliases: ['cantonese', 'sichuan', 'szechuan', 'hunan', 'shanghainese', 'taiwanese'],
+    keywords: [
+      'stir fry', 'fried rice', 'bok choy', 'hoisin', 'oyster sauce', 'five spice', 'kung pao', 'chow mein',
+      'lo mein', 'wonton', 'shaoxing', 'char siu', 'mapo', 'congee', 'sweet and sour', 'dim sum', 'szechuan pepper'
+    ]
+  },
+  french: {
+    label: 'French',
+    spoonacularName: 'French',
+    aliases: ['provencal', 'parisian', 'bistro'],
+    keywords: [
+      'croissant', 'baguette', 'gratin', 'bechamel', 'ratatouille', 'quiche', 'crepe', 'bourguignon', 'dijon',
+      'tarragon', 'herbes de provence', 'confit', 'souffle', 'coq au vin', 'nicoise', 'cassoulet', 'beurre blanc'
+    ]
+  },
+  german: {
+    label: 'German',
+    spoonacularName: 'German',
+    aliases: ['austrian', 'bavarian'],
+    keywords: ['schnitzel', 'sauerkraut', 'bratwurst', 'spaetzle', 'strudel', 'pretzel', 'sauerbraten', 'kartoffel']
+  },
+  greek: {
+    label: 'Greek',
+    spoonacularName: 'Greek',
+    aliases: ['cypriot'],
+    keywords: ['feta', 'tzatziki', 'gyro', 'souvlaki', 'moussaka', 'spanakopita', 'kalamata', 'orzo', 'dolma', 'greek yogurt']
+  },
+  indian: {
+    label: 'Indian',
+    spoonacularName: 'Indian',
+    aliases: ['punjabi', 'south indian', 'bengali', 'goan', 'pakistani', 'sri lankan'],
+    keywords: [
+      'garam masala', 'turmeric', 'curry', 'masala', 'tikka', 'tandoori', 'naan', 'dal', 'dahl', 'paneer',
+      'ghee', 'biryani', 'chana', 'korma', 'vindaloo', 'samosa', 'chutney', 'cardamom', 'fenugreek', 'raita', 'basmati'
+    ]
+  },
+  italian: {
+    label: 'Italian',
+    spoonacularName: 'Italian',
+    aliases: ['tuscan', 'sicilian', 'neapolitan', 'roman'],
+    keywords: [
+      'pasta', 'spaghetti', 'penne', 'linguine', 'fettuccine', 'lasagna', 'lasagne', 'risotto', 'gnocchi',
+      'pizza', 'parmesan', 'parmigiano', 'mozzarella', 'ricotta', 'pesto', 'prosciutto', 'pancetta', 'basil',
+      'balsamic', 'marinara', 'bruschetta', 'carbonara', 'focaccia', 'polenta', 'frittata', 'arancini',
+      'caprese', 'minestrone'
+    ]
+  },
+  japanese: {
+    label: 'Japanese',
+    spoonacularName: 'Japanese',
+    aliases: [],
+    keywords: [
+      'miso', 'sushi', 'teriyaki', 'ramen', 'udon', 'soba', 'dashi', 'mirin', 'sake', 'tempura', 'wasabi',
+      'nori', 'panko', 'katsu', 'edamame', 'furikake', 'ponzu', 'yakitori', 'gyoza', 'donburi', 'onigiri'
+    ]
+  },
+  korean: {
+    label: 'Korean',
+    spoonacularName: 'Korean',
+    aliases: [],
+    keywords: ['kimchi', 'gochujang', 'gochugaru', 'bulgogi', 'bibimbap', 'japchae', 'doenjang', 'galbi', 'tteokbokki']
+  },
+  mediterranean: {
+    label: 'Mediterranean',
+    spoonacularName: 'Mediterranean',
+    aliases: [],
+    keywords: ['sun dried tomato', 'artichoke', 'caper', 'chickpea'],
+    includes: ['greek', 'italian', 'spanish', 'middle-eastern']
+  },
+  mexican: {
+    label: 'Mexican',
+    spoonacularName: 'Mexican',
+    aliases: ['tex mex', 'latin american', 'oaxacan', 'yucatecan'],
+    keywords: [
+      'taco', 'tortilla', 'burrito', 'enchilada', 'quesadilla', 'salsa', 'guacamole', 'jalapeno', 'chipotle',
+      'black bean', 'pinto bean', 'queso', 'fajita', 'nacho', 'tamale', 'pozole', 'mole', 'elote', 'tomatillo', 'cotija'
+    ]
+  },
+  'middle-eastern': {
+    label: 'Middle Eastern',
+    spoonacularName: 'Middle Eastern',
+    aliases: ['lebanese', 'turkish', 'persian', 'iranian', 'israeli', 'levantine', 'moroccan', 'syrian', 'arabic', 'north african'],
+    keywords: [
+      'hummus', 'tahini', 'falafel', 'shawarma', 'za atar', 'zaatar', 'sumac', 'pita', 'tabbouleh', 'harissa',
+      'shakshuka', 'baba ganoush', 'freekeh', 'kebab', 'labneh', 'pomegranate molasses', 'tagine', 'couscous'
+    ]
+  },
+  spanish: {
+    label: 'Spanish',
+    spoonacularName: 'Spanish',
+    aliases: ['catalan', 'basque', 'andalusian'],
+    keywords: [
+      'paella', 'chorizo', 'tapas', 'gazpacho', 'saffron', 'manchego', 'smoked paprika', 'patatas bravas',
+      'romesco', 'sherry vinegar', 'tortilla espanola', 'churro'
+    ]
+  },
+  thai: {
+    label: 'Thai',
+    spoonacularName: 'Thai',
+    aliases: [],
+    keywords: [
+      'fish sauce', 'lemongrass', 'galangal', 'kaffir lime', 'coconut milk', 'thai basil', 'curry paste',
+      'pad thai', 'tom yum', 'green curry', 'red curry', 'satay', 'sriracha', 'larb', 'pad see ew'
+    ]
+  },
+  vietnamese: {
+    label: 'Vietnamese',
+    spoonacularName: 'Vietnamese',
+    aliases: [],
+    keywords: ['pho', 'banh mi', 'nuoc cham', 'rice paper', 'spring roll', 'vermicelli', 'bun cha', 'lemongrass']
+  }
+};
+
+export const ALL_CUISINES = Object.keys(CUISINES) as Cuisine[];
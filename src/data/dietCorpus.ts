@@ -0,0 +1,51 @@
+import type { Diet } from '@/types/diet';
+
+/**
+ * Ingredients the diet rules have got wrong before, and whether each suits
+ * the diet. An ingredient we know nothing about doesn't suit any diet, since
+ * it can't be vouched for. Add a case whenever a wrong verdict is reported;
+ * `npm run check:corpus` checks every one.
+ */
+export interface DietCase {
+  ingredient: string;
+  diet: Diet;
+  suits: boolean;
+}
+
+export const DIET_CORPUS: DietCase[] = [
+  // Meat in names that aren't in the catalog
+  { ingredient: 'meatballs', diet: 'vegetarian', suits: false },
+  { ingredient: 'hot dogs', diet: 'vegan', suits: false },
+  { ingredient: 'vegan meatballs', diet: 'vegan', suits: true },
+  { ingredient: 'veggie hot dogs', diet: 'vegetarian', suits: true },
+
+  // Hidden dairy
+  { ingredient: 'ghee', diet: 'vegan', suits: false },
+  { ingredient: 'whey protein', diet: 'vegan', suits: false },
+  { ingredient: 'milk chocolate', diet: 'vegan', suits: false },
+  { ingredient: 'milk chocolate', diet: 'lactose-free', suits: false },
+  { ingredient: 'dark chocolate', diet: 'vegan', suits: true },
+  { ingredient: 'almond milk', diet: 'vegan', suits: true },
+
+  // Wheat in doughs, breads and noodles
+  { ingredient: 'gnocchi', diet: 'gluten-free', suits: false },
+  { ingredient: 'udon noodles', diet: 'gluten-free', suits: false },
+  { ingredient: 'pizza dough', diet: 'gluten-free', suits: false },
+  { ingredient: 'pie crust', diet: 'gluten-free', suits: false },
+  { ingredient: 'naan', diet: 'gluten-free', suits: false },
+  { ingredient: 'pita bread', diet: 'gluten-free', suits: false },
+  { ingredient: 'crackers', diet: 'gluten-free', suits: false },
+  { ingredient: 'hamburger buns', diet: 'gluten-free', suits: false },
+  { ingredient: 'gluten-free pizza dough', diet: 'gluten-free', suits: true },
+  { ingredient: 'rice crackers', diet: 'gluten-free', suits: true },
+  { ingredient: 'egg noodles', diet: 'vegan', suits: false },
+  { ingredient: 'brioche buns', diet: 'vegan', suits: false },
+
+  // Distinct products that used to resolve to the ingredient they end with
+  { ingredient: 'cocoa butter', diet: 'vegan', suits: true },
+  { ingredient: 'cream of tartar', diet: 'lactose-free', suits: true },
+
+  // Nothing known about these, so they can't be vouched for
+  { ingredient: 'taco shells', diet: 'gluten-free', suits: false },
+  { ingredient: 'xanthan gum', diet: 'vegan', suits: false }
+];
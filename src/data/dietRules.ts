@@ -0,0 +1,172 @@
+import type { IngredientCategory } from '@/types/ingredient';
+import type { Diet, DietRule, IngredientTrait } from '@/types/diet';
+
+export const DIET_RULES: Record<Diet, DietRule> = {
+  vegan: {
+    label: 'vegan',
+    forbidden: ['meat', 'pork', 'poultry', 'fish', 'shellfish', 'dairy', 'lactose', 'egg', 'honey']
+  },
+  vegetarian: {
+    label: 'vegetarian',
+    forbidden: ['meat', 'pork', 'poultry', 'fish', 'shellfish']
+  },
+  'gluten-free': {
+    label: 'gluten-free',
+    forbidden: ['gluten']
+  },
+  'lactose-free': {
+    label: 'lactose-free',
+    forbidden: ['lactose']
+  },
+  kosher: {
+    label: 'kosher',
+    forbidden: ['pork', 'shellfish'],
+    forbiddenTogether: ['meat', 'dairy']
+  },
+  halal: {
+    label: 'halal',
+    forbidden: ['pork', 'alcohol']
+  },
+  keto: {
+    label: 'keto',
+    forbidden: ['high-carb']
+  }
+};
+
+export const TRAIT_LABELS: Record<IngredientTrait, string> = {
+  meat: 'meat',
+  pork: 'pork',
+  poultry: 'poultry',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  dairy: 'dairy',
+  lactose: 'lactose',
+  egg: 'egg',
+  honey: 'honey',
+  gluten: 'gluten',
+  alcohol: 'alcohol',
+  'high-carb': 'high in carbs'
+};
+
+/**
+ * Traits every ingredient in a category has unless listed in
+ * INGREDIENT_TRAITS
+ */
+export const CATEGORY_TRAITS: Record<IngredientCategory, IngredientTrait[]> = {
+  fruit: ['high-carb'],
+  vegetable: [],
+  meat: ['meat'],
+  seafood: ['fish'],
+  dairy: ['dairy', 'lactose'],
+  grain: ['high-carb'],
+  spice: [],
+  beverage: [],
+  other: []
+};
+
+/**
+ * Traits for catalog ingredients that differ from their category's, keyed by
+ * catalog ID
+ */
+export const INGREDIENT_TRAITS: Record<string, IngredientTrait[]> = {
+  // Starchy vegetables
+  potato: ['high-carb'],
+  'sweet-potato': ['high-carb'],
+  corn: ['high-carb'],
+  pea: ['high-carb'],
+
+  // Low-sugar fruit
+  lemon: [],
+  lime: [],
+  strawberry: [],
+  raspberry: [],
+  blueberry: [],
+
+  // Meat
+  chicken: ['meat', 'poultry'],
+  turkey: ['meat', 'poultry'],
+  pork: ['meat', 'pork'],
+  bacon: ['meat', 'pork'],
+  ham: ['meat', 'pork'],
+  sausage: ['meat', 'pork'],
+
+  // Shellfish
+  shrimp: ['shellfish'],
+  crab: ['shellfish'],
+  mussel: ['shellfish'],
+
+  // Dairy and eggs. Aged hard cheese has next to no lactose left.
+  egg: ['egg'],
+  parmesan: ['dairy'],
+
+  // Grains with gluten
+  pasta: ['gluten', 'high-carb'],
+  'egg-noodle': ['gluten', 'egg', 'high-carb'],
+  bread: ['gluten', 'high-carb'],
+  tortilla: ['gluten', 'high-carb'],
+  flour: ['gluten', 'high-carb'],
+  couscous: ['gluten', 'high-carb'],
+  // Usually processed alongside wheat
+  oat: ['gluten', 'high-carb'],
+
+  // Pantry
+  'soy-sauce': ['gluten'],
+  mayonnaise: ['egg'],
+  sugar: ['high-carb'],
+  'powdered-sugar': ['high-carb'],
+  honey: ['honey', 'high-carb'],
+  'maple-syrup': ['high-carb'],
+  ketchup: ['high-carb'],
+  chocolate: ['high-carb'],
+  wine: ['alcohol'],
+  juice: ['high-carb']
+};
+
+/**
+ * Words that give an ingredient a trait whatever it resolves to in the
+ * catalog, e.g. the chicken in "chicken stock" or the egg in "egg noodles".
+ * Matched as whole words (or runs of words) against the normalized name, so
+ * they're written singular.
+ */
+export const TRAIT_KEYWORDS: { words: string[]; traits: IngredientTrait[] }[] = [
+  { words: ['chicken', 'turkey', 'duck', 'goose'], traits: ['meat', 'poultry'] },
+  { words: ['beef', 'veal', 'lamb', 'mutton', 'venison', 'gelatin', 'gelatine', 'suet'], traits: ['meat'] },
+  { words: ['meatball', 'meatloaf', 'hot dog', 'frankfurter', 'wiener', 'bratwurst', 'burger patty', 'ground meat'], traits: ['meat'] },
+  { words: ['pork', 'bacon', 'ham', 'lard', 'prosciutto', 'pancetta', 'chorizo', 'salami', 'pepperoni', 'guanciale'], traits: ['meat', 'pork'] },
+  { words: ['fish', 'anchovy', 'worcestershire', 'bonito', 'dashi'], traits: ['fish'] },
+  { words: ['shrimp', 'prawn', 'lobster', 'crab', 'clam', 'mussel', 'oyster', 'scallop', 'squid', 'calamari', 'octopus'], traits: ['shellfish'] },
+  { words: ['ghee', 'casein', 'caseinate'], traits: ['dairy'] },
+  { words: ['whey', 'milk chocolate', 'white chocolate', 'milk powder', 'custard', 'paneer', 'ricotta', 'mascarpone'], traits: ['dairy', 'lactose'] },
+  { words: ['egg', 'meringue', 'aioli', 'hollandaise'], traits: ['egg'] },
+  { words: ['brioche', 'challah'], traits: ['gluten', 'egg', 'dairy', 'lactose', 'high-carb'] },
+  { words: ['wheat', 'barley', 'rye', 'seitan', 'breadcrumb', 'panko', 'malt'], traits: ['gluten'] },
+  {
+    words: [
+      'dough', 'crust', 'pastry', 'naan', 'pita', 'bun', 'roll', 'bagel', 'croissant', 'crouton', 'cracker',
+      'biscuit', 'pretzel', 'udon', 'ramen', 'gnocchi', 'orzo', 'semolina', 'bulgur', 'farro', 'spelt'
+    ],
+    traits: ['gluten', 'high-carb']
+  },
+  { words: ['beer', 'ale', 'lager', 'stout'], traits: ['alcohol', 'gluten'] },
+  { words: ['wine', 'rum', 'vodka', 'whisky', 'whiskey', 'bourbon', 'brandy', 'cognac', 'sherry', 'mirin', 'sake', 'liqueur'], traits: ['alcohol'] }
+];
+
+/**
+ * Qualifiers that take traits away again: plant milks, gluten-free and
+ * lactose-free products, and names the keywords get wrong
+ */
+export const TRAIT_EXEMPTIONS: { pattern: RegExp; removes: IngredientTrait[] }[] = [
+  {
+    pattern: /\b(vegan|plant based)\b/,
+    removes: ['meat', 'pork', 'poultry', 'fish', 'shellfish', 'dairy', 'lactose', 'egg', 'honey']
+  },
+  { pattern: /\b(veggie|vegetarian|meatless|meat free)\b/, removes: ['meat', 'pork', 'poultry', 'fish', 'shellfish'] },
+  { pattern: /\b(dairy free|non dairy)\b/, removes: ['dairy', 'lactose'] },
+  { pattern: /\b(almond|soy|soya|oat|rice|cashew|hemp|coconut)\s+(milk|cream|yogurt|cheese|butter)\b/, removes: ['dairy', 'lactose'] },
+  { pattern: /\blactose free\b/, removes: ['lactose'] },
+  { pattern: /\bgluten free\b/, removes: ['gluten'] },
+  { pattern: /\b(rice|corn|almond|coconut|chickpea|buckwheat)\s+(flour|noodle|tortilla|pasta|cracker)\b/, removes: ['gluten'] },
+  { pattern: /\b(almond|coconut)\s+flour\b/, removes: ['high-carb'] },
+  { pattern: /\b(wine|sherry)\s+vinegar\b/, removes: ['alcohol'] },
+  { pattern: /\boyster mushroom\b/, removes: ['shellfish'] }
+];
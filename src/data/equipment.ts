@@ -0,0 +1,66 @@
+import type { Equipment, EquipmentDefinition, KitchenPreset } from '@/types/equipment';
+
+// Listed in the order shown to the user. Keywords are matched as whole words
+// after hyphens are turned into spaces.
+export const EQUIPMENT: Record<Equipment, EquipmentDefinition> = {
+  stovetop: {
+    label: 'Stovetop',
+    keywords: [
+      'stovetop', 'stove', 'hob', 'burner', 'saucepan', 'skillet', 'frying pan', 'wok', 'pot', 'stockpot',
+      'grill pan', 'simmer', 'simmering', 'saute', 'sauté', 'sauteed', 'sautéed', 'stir fry', 'pan fry',
+      'deep fry', 'fry', 'fried', 'frying', 'sear', 'seared', 'over low heat', 'over medium heat',
+      'over medium low heat', 'over medium high heat', 'over high heat'
+    ],
+    exceptions: ['crock pot', 'instant pot', 'pot pie', 'air fry', 'air fried', 'air frying', 'air fryer']
+  },
+  oven: {
+    label: 'Oven',
+    keywords: ['oven', 'bake', 'baked', 'bakes', 'baking', 'roast', 'roasted', 'roasting', 'broil', 'broiled', 'broiler', 'broiling'],
+    exceptions: [
+      'baking soda', 'baking powder', 'no bake', 'microwave oven', 'dutch oven',
+      'pan roast', 'pan roasted', 'roasted red pepper', 'roasted red peppers', 'roasted peanuts', 'roasted sesame'
+    ]
+  },
+  microwave: {
+    label: 'Microwave',
+    keywords: ['microwave', 'microwaved', 'microwaving', 'microwavable']
+  },
+  'air-fryer': {
+    label: 'Air fryer',
+    keywords: ['air fryer', 'air fry', 'air fried', 'air frying']
+  },
+  'slow-cooker': {
+    label: 'Slow cooker',
+    keywords: ['slow cooker', 'slow cook', 'slow cooked', 'crock pot', 'crockpot']
+  },
+  'pressure-cooker': {
+    label: 'Pressure cooker',
+    keywords: ['pressure cooker', 'pressure cook', 'pressure cooked', 'instant pot', 'instapot']
+  },
+  grill: {
+    label: 'Grill',
+    keywords: ['grill', 'grilled', 'grilling', 'barbecue', 'barbecued', 'bbq'],
+    exceptions: ['grill pan', 'grilled cheese']
+  },
+  blender: {
+    label: 'Blender',
+    keywords: ['blender', 'blend until smooth', 'blitz', 'liquidize', 'liquidise', 'smoothie']
+  },
+  'food-processor': {
+    label: 'Food processor',
+    keywords: ['food processor']
+  },
+  mixer: {
+    label: 'Electric mixer',
+    keywords: ['mixer']
+  }
+};
+
+export const ALL_EQUIPMENT = Object.keys(EQUIPMENT) as Equipment[];
+
+export const KITCHEN_PRESETS: KitchenPreset[] = [
+  { label: 'Full kitchen', equipment: ALL_EQUIPMENT },
+  { label: 'Small kitchen', equipment: ['stovetop', 'microwave', 'blender'] },
+  { label: 'Stovetop only', equipment: ['stovetop'] },
+  { label: 'Dorm room', equipment: ['microwave'] }
+];
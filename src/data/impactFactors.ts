@@ -0,0 +1,56 @@
+import type { IngredientCategory } from '@/types/ingredient';
+
+export interface ImpactFactors {
+  /** Typical retail price, dollars per kilogram */
+  pricePerKg: number;
+  /** Kilograms of CO₂-equivalent emitted producing a kilogram that gets wasted */
+  co2PerKg: number;
+  /** Typical weight of one item counted without a unit ("2 onions") */
+  gramsPerPiece: number;
+}
+
+/**
+ * Rough per-category figures used to turn rescued ingredients into savings.
+ * Emissions are cradle-to-retail averages; prices are US supermarket averages.
+ */
+export const CATEGORY_IMPACT: Record<IngredientCategory, ImpactFactors> = {
+  fruit: { pricePerKg: 4, co2PerKg: 1.1, gramsPerPiece: 150 },
+  vegetable: { pricePerKg: 3.5, co2PerKg: 0.9, gramsPerPiece: 120 },
+  meat: { pricePerKg: 12, co2PerKg: 27, gramsPerPiece: 200 },
+  seafood: { pricePerKg: 18, co2PerKg: 12, gramsPerPiece: 150 },
+  dairy: { pricePerKg: 8, co2PerKg: 9, gramsPerPiece: 60 },
+  grain: { pricePerKg: 3, co2PerKg: 1.6, gramsPerPiece: 50 },
+  spice: { pricePerKg: 25, co2PerKg: 2, gramsPerPiece: 5 },
+  beverage: { pricePerKg: 2, co2PerKg: 1, gramsPerPiece: 330 },
+  other: { pricePerKg: 6, co2PerKg: 2.5, gramsPerPiece: 100 }
+};
+
+/**
+ * Weights for catalog ingredients whose pieces are far from their category's
+ * typical item, keyed by catalog ID
+ */
+export const INGREDIENT_PIECE_GRAMS: Record<string, number> = {
+  egg: 50,
+  garlic: 5,
+  shallot: 30,
+  'green-onion': 15,
+  lemon: 100,
+  lime: 65,
+  potato: 200,
+  'sweet-potato': 250,
+  carrot: 70,
+  'bell-pepper': 160,
+  cucumber: 300,
+  zucchini: 200,
+  eggplant: 450,
+  avocado: 170,
+  banana: 120,
+  apple: 180,
+  tomato: 120,
+  bread: 35,
+  tortilla: 45,
+  sausage: 75
+};
+
+// Days a scan's ingredients count as "from the scan" for later meals
+export const SCAN_WINDOW_DAYS = 7;
@@ -0,0 +1,179 @@
+import type { CanonicalIngredient } from '@/types/ingredient';
+
+/**
+ * Canonical ingredients used to match what the user has against what a recipe
+ * needs. Plurals are derived automatically, so synonyms only need to list
+ * alternative names (regional spellings, common variants).
+ */
+export const INGREDIENT_CATALOG: CanonicalIngredient[] = [
+  // Vegetables
+  { id: 'tomato', name: 'Tomato', category: 'vegetable', synonyms: ['cherry tomato', 'plum tomato', 'roma tomato', 'grape tomato', 'beefsteak tomato'] },
+  { id: 'tomato-paste', name: 'Tomato paste', category: 'vegetable', synonyms: ['tomato puree', 'tomato concentrate'] },
+  { id: 'canned-tomato', name: 'Canned tomatoes', category: 'vegetable', synonyms: ['tinned tomato', 'crushed tomato', 'diced tomato', 'chopped tomato', 'passata', 'tomato sauce'] },
+  { id: 'onion', name: 'Onion', category: 'vegetable', synonyms: ['yellow onion', 'white onion', 'brown onion', 'red onion', 'spanish onion'] },
+  { id: 'green-onion', name: 'Green onion', category: 'vegetable', synonyms: ['scallion', 'spring onion', 'salad onion', 'green shallot'] },
+  { id: 'shallot', name: 'Shallot', category: 'vegetable', synonyms: ['eschalot'] },
+  { id: 'leek', name: 'Leek', category: 'vegetable', synonyms: [] },
+  { id: 'garlic', name: 'Garlic', category: 'vegetable', synonyms: ['garlic clove'] },
+  { id: 'ginger', name: 'Ginger', category: 'vegetable', synonyms: ['ginger root', 'fresh ginger'] },
+  { id: 'potato', name: 'Potato', category: 'vegetable', synonyms: ['russet potato', 'yukon gold potato', 'new potato', 'baby potato', 'spud'] },
+  { id: 'sweet-potato', name: 'Sweet potato', category: 'vegetable', synonyms: ['yam', 'kumara'] },
+  { id: 'carrot', name: 'Carrot', category: 'vegetable', synonyms: ['baby carrot'] },
+  { id: 'celery', name: 'Celery', category: 'vegetable', synonyms: ['celery stalk', 'celery rib'] },
+  { id: 'bell-pepper', name: 'Bell pepper', category: 'vegetable', synonyms: ['capsicum', 'sweet pepper', 'red pepper', 'green pepper', 'yellow pepper', 'red bell pepper', 'green bell pepper'] },
+  { id: 'chili-pepper', name: 'Chili pepper', category: 'vegetable', synonyms: ['chili', 'chilli', 'chile', 'jalapeno', 'serrano', 'bird eye chili', 'hot pepper'] },
+  { id: 'zucchini', name: 'Zucchini', category: 'vegetable', synonyms: ['courgette', 'summer squash'] },
+  { id: 'eggplant', name: 'Eggplant', category: 'vegetable', synonyms: ['aubergine', 'brinjal'] },
+  { id: 'cucumber', name: 'Cucumber', category: 'vegetable', synonyms: ['english cucumber', 'persian cucumber'] },
+  { id: 'lettuce', name: 'Lettuce', category: 'vegetable', synonyms: ['romaine', 'iceberg lettuce', 'cos lettuce', 'butter lettuce'] },
+  { id: 'spinach', name: 'Spinach', category: 'vegetable', synonyms: ['baby spinach', 'english spinach'] },
+  { id: 'arugula', name: 'Arugula', category: 'vegetable', synonyms: ['rocket', 'roquette'] },
+  { id: 'kale', name: 'Kale', category: 'vegetable', synonyms: ['cavolo nero', 'lacinato kale', 'tuscan kale'] },
+  { id: 'cabbage', name: 'Cabbage', category: 'vegetable', synonyms: ['savoy cabbage', 'red cabbage', 'napa cabbage', 'chinese cabbage'] },
+  { id: 'broccoli', name: 'Broccoli', category: 'vegetable', synonyms: ['broccoli floret', 'calabrese'] },
+  { id: 'cauliflower', name: 'Cauliflower', category: 'vegetable', synonyms: ['cauliflower floret'] },
+  { id: 'brussels-sprout', name: 'Brussels sprouts', category: 'vegetable', synonyms: ['brussel sprout'] },
+  { id: 'asparagus', name: 'Asparagus', category: 'vegetable', synonyms: ['asparagus spear'] },
+  { id: 'green-bean', name: 'Green beans', category: 'vegetable', synonyms: ['string bean', 'french bean', 'runner bean', 'haricot vert'] },
+  { id: 'pea', name: 'Peas', category: 'vegetable', synonyms: ['green pea', 'garden pea', 'frozen pea', 'petit pois'] },
+  { id: 'snow-pea', name: 'Snow peas', category: 'vegetable', synonyms: ['mangetout', 'sugar snap pea', 'snap pea'] },
+  { id: 'corn', name: 'Corn', category: 'vegetable', synonyms: ['sweetcorn', 'sweet corn', 'maize', 'corn kernel', 'corn on the cob'] },
+  { id: 'mushroom', name: 'Mushroom', category: 'vegetable', synonyms: ['button mushroom', 'cremini', 'chestnut mushroom', 'portobello', 'shiitake'] },
+  { id: 'beet', name: 'Beet', category: 'vegetable', synonyms: ['beetroot'] },
+  { id: 'rutabaga', name: 'Rutabaga', category: 'vegetable', synonyms: ['swede'] },
+  { id: 'turnip', name: 'Turnip', category: 'vegetable', synonyms: [] },
+  { id: 'parsnip', name: 'Parsnip', category: 'vegetable', synonyms: [] },
+  { id: 'pumpkin', name: 'Pumpkin', category: 'vegetable', synonyms: ['butternut squash', 'squash', 'winter squash'] },
+  { id: 'radish', name: 'Radish', category: 'vegetable', synonyms: ['daikon'] },
+  { id: 'avocado', name: 'Avocado', category: 'vegetable', synonyms: [] },
+  { id: 'mixed-vegetable', name: 'Mixed vegetables', category: 'vegetable', synonyms: ['vegetable', 'veggie', 'frozen vegetable'] },
+
+  // Fruits
+  { id: 'apple', name: 'Apple', category: 'fruit', synonyms: ['granny smith', 'green apple'] },
+  { id: 'banana', name: 'Banana', category: 'fruit', synonyms: [] },
+  { id: 'orange', name: 'Orange', category: 'fruit', synonyms: ['navel orange', 'mandarin', 'clementine', 'tangerine'] },
+  { id: 'lemon', name: 'Lemon', category: 'fruit', synonyms: ['lemon juice', 'lemon zest'] },
+  { id: 'lime', name: 'Lime', category: 'fruit', synonyms: ['lime juice', 'lime zest'] },
+  { id: 'strawberry', name: 'Strawberry', category: 'fruit', synonyms: [] },
+  { id: 'blueberry', name: 'Blueberry', category: 'fruit', synonyms: [] },
+  { id: 'raspberry', name: 'Raspberry', category: 'fruit', synonyms: [] },
+  { id: 'grape', name: 'Grape', category: 'fruit', synonyms: [] },
+  { id: 'pear', name: 'Pear', category: 'fruit', synonyms: [] },
+  { id: 'peach', name: 'Peach', category: 'fruit', synonyms: ['nectarine'] },
+  { id: 'mango', name: 'Mango', category: 'fruit', synonyms: [] },
+  { id: 'pineapple', name: 'Pineapple', category: 'fruit', synonyms: [] },
+  { id: 'raisin', name: 'Raisins', category: 'fruit', synonyms: ['sultana', 'currant'] },
+
+  // Meat
+  { id: 'chicken', name: 'Chicken', category: 'meat', synonyms: ['chicken breast', 'chicken thigh', 'chicken leg', 'chicken wing', 'chicken drumstick', 'rotisserie chicken'] },
+  { id: 'beef', name: 'Beef', category: 'meat', synonyms: ['steak', 'ground beef', 'minced beef', 'beef mince', 'mince', 'sirloin', 'chuck', 'brisket'] },
+  { id: 'pork', name: 'Pork', category: 'meat', synonyms: ['pork chop', 'pork loin', 'pork shoulder', 'ground pork', 'pork mince'] },
+  { id: 'bacon', name: 'Bacon', category: 'meat', synonyms: ['streaky bacon', 'rasher', 'pancetta'] },
+  { id: 'ham', name: 'Ham', category: 'meat', synonyms: ['gammon', 'prosciutto'] },
+  { id: 'sausage', name: 'Sausage', category: 'meat', synonyms: ['banger', 'chorizo', 'bratwurst', 'italian sausage'] },
+  { id: 'lamb', name: 'Lamb', category: 'meat', synonyms: ['lamb chop', 'ground lamb', 'lamb mince', 'mutton'] },
+  { id: 'turkey', name: 'Turkey', category: 'meat', synonyms: ['ground turkey', 'turkey breast', 'turkey mince'] },
+
+  // Seafood
+  { id: 'fish', name: 'White fish', category: 'seafood', synonyms: ['white fish', 'cod', 'haddock', 'tilapia', 'pollock', 'hake'] },
+  { id: 'salmon', name: 'Salmon', category: 'seafood', synonyms: ['salmon fillet', 'smoked salmon'] },
+  { id: 'tuna', name: 'Tuna', category: 'seafood', synonyms: ['canned tuna', 'tinned tuna', 'tuna steak'] },
+  { id: 'shrimp', name: 'Shrimp', category: 'seafood', synonyms: ['prawn', 'king prawn', 'tiger prawn'] },
+  { id: 'crab', name: 'Crab', category: 'seafood', synonyms: ['crab meat'] },
+  { id: 'mussel', name: 'Mussels', category: 'seafood', synonyms: ['clam'] },
+
+  // Dairy and eggs
+  { id: 'egg', name: 'Egg', category: 'dairy', synonyms: ['egg yolk', 'egg white', 'hen egg'] },
+  { id: 'milk', name: 'Milk', category: 'dairy', synonyms: ['whole milk', 'skim milk', 'semi skimmed milk', 'full fat milk'] },
+  { id: 'buttermilk', name: 'Buttermilk', category: 'dairy', synonyms: [] },
+  { id: 'butter', name: 'Butter', category: 'dairy', synonyms: ['unsalted butter', 'salted butter'] },
+  { id: 'cream', name: 'Cream', category: 'dairy', synonyms: ['heavy cream', 'double cream', 'whipping cream', 'single cream', 'light cream', 'heavy whipping cream'] },
+  { id: 'sour-cream', name: 'Sour cream', category: 'dairy', synonyms: ['creme fraiche'] },
+  { id: 'yogurt', name: 'Yogurt', category: 'dairy', synonyms: ['yoghurt', 'greek yogurt', 'natural yogurt', 'plain yogurt'] },
+  { id: 'cheese', name: 'Cheese', category: 'dairy', synonyms: ['cheddar', 'mozzarella', 'gouda', 'swiss cheese', 'monterey jack', 'feta', 'shredded cheese'] },
+  { id: 'parmesan', name: 'Parmesan', category: 'dairy', synonyms: ['parmigiano reggiano', 'parmigiano', 'grana padano', 'pecorino'] },
+  { id: 'cream-cheese', name: 'Cream cheese', category: 'dairy', synonyms: ['soft cheese'] },
+
+  // Grains, pasta, bread and pulses
+  { id: 'rice', name: 'Rice', category: 'grain', synonyms: ['white rice', 'brown rice', 'basmati', 'jasmine rice', 'arborio', 'cooked rice'] },
+  { id: 'pasta', name: 'Pasta', category: 'grain', synonyms: ['spaghetti', 'penne', 'fusilli', 'macaroni', 'linguine', 'fettuccine', 'lasagna sheet', 'noodle'] },
+  { id: 'egg-noodle', name: 'Egg noodles', category: 'grain', synonyms: ['egg pasta', 'fresh pasta'] },
+  { id: 'bread', name: 'Bread', category: 'grain', synonyms: ['loaf', 'baguette', 'sourdough', 'toast', 'bread crumb', 'breadcrumb', 'panko'] },
+  { id: 'tortilla', name: 'Tortilla', category: 'grain', synonyms: ['wrap', 'flour tortilla', 'corn tortilla'] },
+  { id: 'flour', name: 'Flour', category: 'grain', synonyms: ['all purpose flour', 'plain flour', 'self raising flour', 'self rising flour', 'wheat flour', 'bread flour'] },
+  { id: 'cornstarch', name: 'Cornstarch', category: 'grain', synonyms: ['cornflour', 'corn starch'] },
+  { id: 'oat', name: 'Oats', category: 'grain', synonyms: ['rolled oat', 'porridge oat', 'oatmeal'] },
+  { id: 'quinoa', name: 'Quinoa', category: 'grain', synonyms: [] },
+  { id: 'couscous', name: 'Couscous', category: 'grain', synonyms: [] },
+  { id: 'chickpea', name: 'Chickpeas', category: 'grain', synonyms: ['garbanzo', 'garbanzo bean', 'chick pea'] },
+  { id: 'lentil', name: 'Lentils', category: 'grain', synonyms: ['red lentil', 'green lentil', 'puy lentil'] },
+  { id: 'bean', name: 'Beans', category: 'grain', synonyms: ['black bean', 'kidney bean', 'cannellini bean', 'pinto bean', 'haricot bean', 'baked bean'] },
+  { id: 'tofu', name: 'Tofu', category: 'other', synonyms: ['bean curd'] },
+
+  // Herbs and spices
+  { id: 'salt', name: 'Salt', category: 'spice', synonyms: ['sea salt', 'kosher salt', 'table salt'] },
+  { id: 'black-pepper', name: 'Black pepper', category: 'spice', synonyms: ['pepper', 'ground pepper', 'peppercorn', 'ground black pepper'] },
+  { id: 'cilantro', name: 'Cilantro', category: 'spice', synonyms: ['coriander', 'fresh coriander', 'coriander leaf', 'chinese parsley'] },
+  { id: 'parsley', name: 'Parsley', category: 'spice', synonyms: ['flat leaf parsley', 'italian parsley', 'curly parsley'] },
+  { id: 'basil', name: 'Basil', category: 'spice', synonyms: ['sweet basil', 'thai basil'] },
+  { id: 'oregano', name: 'Oregano', category: 'spice', synonyms: [] },
+  { id: 'thyme', name: 'Thyme', category: 'spice', synonyms: [] },
+  { id: 'rosemary', name: 'Rosemary', category: 'spice', synonyms: [] },
+  { id: 'mint', name: 'Mint', category: 'spice', synonyms: ['spearmint', 'peppermint'] },
+  { id: 'dill', name: 'Dill', category: 'spice', synonyms: [] },
+  { id: 'cumin', name: 'Cumin', category: 'spice', synonyms: ['ground cumin', 'cumin seed'] },
+  { id: 'paprika', name: 'Paprika', category: 'spice', synonyms: ['smoked paprika', 'pimenton'] },
+  { id: 'cinnamon', name: 'Cinnamon', category: 'spice', synonyms: ['ground cinnamon', 'cinnamon stick'] },
+  { id: 'chili-powder', name: 'Chili powder', category: 'spice', synonyms: ['chilli powder', 'cayenne', 'chili flake', 'red pepper flake', 'chilli flake'] },
+  { id: 'curry-powder', name: 'Curry powder', category: 'spice', synonyms: ['garam masala', 'curry paste'] },
+
+  // Pantry: oils, sauces, sweeteners, liquids
+  { id: 'olive-oil', name: 'Olive oil', category: 'other', synonyms: ['extra virgin olive oil', 'evoo'] },
+  { id: 'vegetable-oil', name: 'Vegetable oil', category: 'other', synonyms: ['oil', 'cooking oil', 'canola oil', 'rapeseed oil', 'sunflower oil'] },
+  { id: 'peanut-oil', name: 'Peanut oil', category: 'other', synonyms: ['groundnut oil'] },
+  { id: 'sesame-oil', name: 'Sesame oil', category: 'other', synonyms: ['toasted sesame oil'] },
+  { id: 'soy-sauce', name: 'Soy sauce', category: 'other', synonyms: ['soya sauce', 'tamari', 'shoyu'] },
+  { id: 'vinegar', name: 'Vinegar', category: 'other', synonyms: ['white vinegar', 'cider vinegar', 'apple cider vinegar', 'red wine vinegar', 'balsamic vinegar', 'rice vinegar'] },
+  { id: 'mustard', name: 'Mustard', category: 'other', synonyms: ['dijon', 'dijon mustard', 'wholegrain mustard'] },
+  { id: 'mayonnaise', name: 'Mayonnaise', category: 'other', synonyms: ['mayo'] },
+  { id: 'ketchup', name: 'Ketchup', category: 'other', synonyms: ['tomato ketchup', 'catsup'] },
+  { id: 'stock', name: 'Stock', category: 'other', synonyms: ['broth', 'chicken stock', 'beef stock', 'vegetable stock', 'chicken broth', 'bouillon'] },
+  { id: 'coconut-milk', name: 'Coconut milk', category: 'other', synonyms: ['coconut cream'] },
+  { id: 'sugar', name: 'Sugar', category: 'other', synonyms: ['white sugar', 'granulated sugar', 'caster sugar', 'superfine sugar', 'brown sugar'] },
+  { id: 'powdered-sugar', name: 'Powdered sugar', category: 'other', synonyms: ['icing sugar', 'confectioners sugar'] },
+  { id: 'honey', name: 'Honey', category: 'other', synonyms: [] },
+  { id: 'maple-syrup', name: 'Maple syrup', category: 'other', synonyms: [] },
+  { id: 'baking-powder', name: 'Baking powder', category: 'other', synonyms: [] },
+  { id: 'baking-soda', name: 'Baking soda', category: 'other', synonyms: ['bicarbonate of soda', 'bicarb', 'sodium bicarbonate'] },
+  { id: 'cream-of-tartar', name: 'Cream of tartar', category: 'other', synonyms: ['tartaric acid'] },
+  { id: 'vanilla', name: 'Vanilla', category: 'other', synonyms: ['vanilla extract', 'vanilla essence', 'vanilla bean', 'vanilla pod'] },
+  { id: 'yeast', name: 'Yeast', category: 'other', synonyms: ['dry yeast', 'instant yeast'] },
+  { id: 'chocolate', name: 'Chocolate', category: 'other', synonyms: ['dark chocolate', 'chocolate chip', 'cocoa', 'cocoa powder'] },
+  { id: 'cocoa-butter', name: 'Cocoa butter', category: 'other', synonyms: ['cacao butter'] },
+  { id: 'peanut-butter', name: 'Peanut butter', category: 'other', synonyms: [] },
+  { id: 'nut-butter', name: 'Nut butter', category: 'other', synonyms: ['almond butter', 'cashew butter', 'hazelnut butter', 'walnut butter'] },
+  { id: 'peanut', name: 'Peanuts', category: 'other', synonyms: ['groundnut'] },
+  { id: 'nut', name: 'Nuts', category: 'other', synonyms: ['almond', 'walnut', 'cashew', 'pecan', 'hazelnut', 'pistachio', 'pine nut'] },
+  { id: 'sesame-seed', name: 'Sesame seeds', category: 'other', synonyms: ['sesame', 'tahini'] },
+  { id: 'wine', name: 'Wine', category: 'beverage', synonyms: ['white wine', 'red wine', 'dry white wine', 'cooking wine'] },
+  { id: 'water', name: 'Water', category: 'beverage', synonyms: ['cold water', 'warm water', 'boiling water'] },
+  { id: 'juice', name: 'Juice', category: 'beverage', synonyms: ['orange juice', 'apple juice'] },
+  { id: 'coffee', name: 'Coffee', category: 'beverage', synonyms: ['espresso'] },
+  { id: 'tea', name: 'Tea', category: 'beverage', synonyms: [] }
+];
+
+/**
+ * Words that turn a catalog ingredient into a different product when they
+ * come right before it ("coconut cream" isn't cream, "shea butter" isn't
+ * butter), keyed by catalog ID. Names like these don't fall back to the
+ * ingredient they end with.
+ */
+export const DISTINCT_PRODUCT_MODIFIERS: Record<string, string[]> = {
+  butter: ['apple', 'shea', 'sunflower', 'seed', 'soy', 'vegan', 'plant', 'coconut'],
+  cream: ['ice', 'oat', 'soy', 'vegan', 'plant'],
+  milk: ['almond', 'oat', 'soy', 'soya', 'rice', 'cashew', 'hemp', 'plant', 'condensed'],
+  cheese: ['vegan', 'plant'],
+  yogurt: ['coconut', 'soy', 'oat', 'vegan', 'plant'],
+  pasta: ['rice', 'gluten', 'chickpea', 'lentil'],
+  'vegetable-oil': ['walnut', 'truffle', 'avocado', 'coconut', 'chili', 'chilli']
+};
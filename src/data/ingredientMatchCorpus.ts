@@ -0,0 +1,54 @@
+/**
+ * Known tricky recipe/user ingredient pairs and whether they should match.
+ * This is the reference for `ingredientsMatch` in utils/ingredientMatcher.ts;
+ * add a pair here whenever a false positive or missed match is reported.
+ * `npm run check:corpus` checks every pair.
+ */
+export interface IngredientMatchCase {
+  recipeIngredient: string;
+  userIngredient: string;
+  shouldMatch: boolean;
+}
+
+export const INGREDIENT_MATCH_CORPUS: IngredientMatchCase[] = [
+  // Substrings inside other words
+  { recipeIngredient: 'eggplant', userIngredient: 'egg', shouldMatch: false },
+  { recipeIngredient: 'egg', userIngredient: 'eggplant', shouldMatch: false },
+  { recipeIngredient: 'boiled potatoes', userIngredient: 'oil', shouldMatch: false },
+  { recipeIngredient: 'graham crackers', userIngredient: 'ham', shouldMatch: false },
+  { recipeIngredient: 'pineapple', userIngredient: 'apple', shouldMatch: false },
+  { recipeIngredient: 'peanut butter', userIngredient: 'pea', shouldMatch: false },
+  { recipeIngredient: 'cornstarch', userIngredient: 'corn', shouldMatch: false },
+  { recipeIngredient: 'scallions', userIngredient: 'scallops', shouldMatch: false },
+  { recipeIngredient: 'buttermilk', userIngredient: 'butter', shouldMatch: false },
+  { recipeIngredient: 'rice vinegar', userIngredient: 'rice', shouldMatch: false },
+  { recipeIngredient: 'tomato paste', userIngredient: 'tomato', shouldMatch: false },
+  { recipeIngredient: 'bell pepper', userIngredient: 'black pepper', shouldMatch: false },
+
+  // Distinct products named after an ingredient
+  { recipeIngredient: 'cream of tartar', userIngredient: 'cream', shouldMatch: false },
+  { recipeIngredient: 'egg noodles', userIngredient: 'pasta', shouldMatch: false },
+  { recipeIngredient: 'cocoa butter', userIngredient: 'butter', shouldMatch: false },
+  { recipeIngredient: 'almond butter', userIngredient: 'butter', shouldMatch: false },
+  { recipeIngredient: 'peanut oil', userIngredient: 'vegetable oil', shouldMatch: false },
+  { recipeIngredient: 'almond milk', userIngredient: 'milk', shouldMatch: false },
+  { recipeIngredient: 'melted butter', userIngredient: 'butter', shouldMatch: true },
+
+  // Same ingredient, different wording
+  { recipeIngredient: 'eggs', userIngredient: 'egg', shouldMatch: true },
+  { recipeIngredient: 'large eggs', userIngredient: 'eggs', shouldMatch: true },
+  { recipeIngredient: 'cheddar cheese', userIngredient: 'cheese', shouldMatch: true },
+  { recipeIngredient: 'boneless chicken breasts', userIngredient: 'chicken', shouldMatch: true },
+  { recipeIngredient: 'garlic cloves', userIngredient: 'garlic', shouldMatch: true },
+  { recipeIngredient: 'lemon juice', userIngredient: 'lemon', shouldMatch: true },
+  { recipeIngredient: 'extra virgin olive oil', userIngredient: 'olive oil', shouldMatch: true },
+  { recipeIngredient: 'leftover cooked rice', userIngredient: 'rice', shouldMatch: true },
+  { recipeIngredient: 'scallions', userIngredient: 'green onion', shouldMatch: true },
+  { recipeIngredient: 'courgette', userIngredient: 'zucchini', shouldMatch: true },
+
+  // Lines listing alternatives or pairs
+  { recipeIngredient: 'salt and pepper', userIngredient: 'salt', shouldMatch: true },
+  { recipeIngredient: 'salt and pepper', userIngredient: 'black pepper', shouldMatch: true },
+  { recipeIngredient: 'butter or margarine', userIngredient: 'margarine', shouldMatch: true },
+  { recipeIngredient: 'salt and pepper', userIngredient: 'sugar', shouldMatch: false }
+];
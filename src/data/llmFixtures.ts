@@ -0,0 +1,65 @@
+import type { LlmFixture } from '@/types/llm';
+
+// Canned answers for the mock LLM backend, one per kind of prompt the app
+// sends. Each has the shape the real prompt asks for.
+export const LLM_FIXTURES: LlmFixture[] = [
+  {
+    name: 'identify-ingredients',
+    match: /identify all food ingredients in this image/i,
+    response: JSON.stringify({
+      ingredients: [
+        { name: 'tomato', quantity: '3', unit: 'pieces' },
+        { name: 'onion', quantity: '1', unit: 'pieces' },
+        { name: 'spinach', quantity: '100', unit: 'g' },
+        { name: 'canned chickpeas', quantity: '400', unit: 'g' }
+      ]
+    })
+  },
+  {
+    name: 'generate-recipe',
+    match: /create a high-quality, authentic recipe/i,
+    response: JSON.stringify({
+      title: 'Tomato and Chickpea Stew',
+      description: 'A quick one-pot stew of chickpeas and spinach in a cumin-spiced tomato sauce.',
+      ingredients: [
+        '1 tbsp olive oil',
+        '1 onion, chopped',
+        '2 cloves garlic, minced',
+        '1 tsp ground cumin',
+        '400g canned chopped tomatoes',
+        '400g canned chickpeas, drained',
+        '100g spinach',
+        'salt and pepper to taste'
+      ],
+      instructions: [
+        'Heat the olive oil in a saucepan over a medium heat and cook the onion for 5 minutes until soft.',
+        'Add the garlic and cumin and cook for 1 minute more.',
+        'Stir in the tomatoes and chickpeas and simmer for 15 minutes.',
+        'Stir in the spinach until wilted, then season with salt and pepper.'
+      ],
+      prepTime: '10 minutes',
+      cookTime: '20 minutes',
+      servings: 4,
+      dietaryTags: ['vegan', 'vegetarian', 'gluten-free'],
+      cuisine: 'Mediterranean'
+    })
+  },
+  {
+    name: 'extract-recipe',
+    match: /recipe extraction assistant/i,
+    response: JSON.stringify({
+      title: 'Simple Tomato Pasta',
+      description: 'Spaghetti in a garlicky tomato sauce.',
+      ingredients: ['200g spaghetti', '2 tbsp olive oil', '2 cloves garlic, sliced', '400g canned chopped tomatoes', 'salt to taste'],
+      instructions: [
+        { step: 'Cook the spaghetti in salted boiling water until al dente.' },
+        { step: 'Meanwhile, fry the garlic in the olive oil for 1 minute, add the tomatoes and simmer for 10 minutes.' },
+        { step: 'Toss the drained spaghetti through the sauce and season.' }
+      ],
+      prep_time: '5 minutes',
+      cook_time: '15 minutes',
+      servings: 2,
+      image_url: ''
+    })
+  }
+];
@@ -0,0 +1,190 @@
+import type { IngredientCategory } from '@/types/ingredient';
+import type { Nutrients } from '@/types/nutrition';
+
+/**
+ * Nutrients in 100 g of each catalog ingredient, keyed by catalog ID.
+ * Figures are rounded from USDA FoodData Central (SR Legacy) entries for the
+ * form recipes usually list: raw meat and vegetables, dry rice, pasta and
+ * lentils, canned beans and chickpeas.
+ */
+export const INGREDIENT_NUTRIENTS: Record<string, Nutrients> = {
+  tomato: { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2 },
+  'tomato-paste': { calories: 82, protein: 4.3, carbs: 19, fat: 0.5 },
+  'canned-tomato': { calories: 24, protein: 1.2, carbs: 5, fat: 0.2 },
+  onion: { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1 },
+  'green-onion': { calories: 32, protein: 1.8, carbs: 7.3, fat: 0.2 },
+  shallot: { calories: 72, protein: 2.5, carbs: 17, fat: 0.1 },
+  leek: { calories: 61, protein: 1.5, carbs: 14, fat: 0.3 },
+  garlic: { calories: 149, protein: 6.4, carbs: 33, fat: 0.5 },
+  ginger: { calories: 80, protein: 1.8, carbs: 18, fat: 0.8 },
+  potato: { calories: 77, protein: 2, carbs: 17, fat: 0.1 },
+  'sweet-potato': { calories: 86, protein: 1.6, carbs: 20, fat: 0.1 },
+  carrot: { calories: 41, protein: 0.9, carbs: 9.6, fat: 0.2 },
+  celery: { calories: 16, protein: 0.7, carbs: 3, fat: 0.2 },
+  'bell-pepper': { calories: 26, protein: 1, carbs: 6, fat: 0.3 },
+  'chili-pepper': { calories: 40, protein: 1.9, carbs: 8.8, fat: 0.4 },
+  zucchini: { calories: 17, protein: 1.2, carbs: 3.1, fat: 0.3 },
+  eggplant: { calories: 25, protein: 1, carbs: 6, fat: 0.2 },
+  cucumber: { calories: 15, protein: 0.7, carbs: 3.6, fat: 0.1 },
+  lettuce: { calories: 15, protein: 1.4, carbs: 2.9, fat: 0.2 },
+  spinach: { calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4 },
+  arugula: { calories: 25, protein: 2.6, carbs: 3.7, fat: 0.7 },
+  kale: { calories: 49, protein: 4.3, carbs: 8.8, fat: 0.9 },
+  cabbage: { calories: 25, protein: 1.3, carbs: 5.8, fat: 0.1 },
+  broccoli: { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4 },
+  cauliflower: { calories: 25, protein: 1.9, carbs: 5, fat: 0.3 },
+  'brussels-sprout': { calories: 43, protein: 3.4, carbs: 9, fat: 0.3 },
+  asparagus: { calories: 20, protein: 2.2, carbs: 3.9, fat: 0.1 },
+  'green-bean': { calories: 31, protein: 1.8, carbs: 7, fat: 0.2 },
+  pea: { calories: 81, protein: 5.4, carbs: 14.5, fat: 0.4 },
+  'snow-pea': { calories: 42, protein: 2.8, carbs: 7.6, fat: 0.2 },
+  corn: { calories: 86, protein: 3.3, carbs: 19, fat: 1.4 },
+  mushroom: { calories: 22, protein: 3.1, carbs: 3.3, fat: 0.3 },
+  beet: { calories: 43, protein: 1.6, carbs: 9.6, fat: 0.2 },
+  rutabaga: { calories: 37, protein: 1.1, carbs: 8.6, fat: 0.2 },
+  turnip: { calories: 28, protein: 0.9, carbs: 6.4, fat: 0.1 },
+  parsnip: { calories: 75, protein: 1.2, carbs: 18, fat: 0.3 },
+  pumpkin: { calories: 26, protein: 1, carbs: 6.5, fat: 0.1 },
+  radish: { calories: 16, protein: 0.7, carbs: 3.4, fat: 0.1 },
+  avocado: { calories: 160, protein: 2, carbs: 8.5, fat: 14.7 },
+  'mixed-vegetable': { calories: 64, protein: 2.9, carbs: 13, fat: 0.5 },
+  apple: { calories: 52, protein: 0.3, carbs: 14, fat: 0.2 },
+  banana: { calories: 89, protein: 1.1, carbs: 23, fat: 0.3 },
+  orange: { calories: 47, protein: 0.9, carbs: 12, fat: 0.1 },
+  lemon: { calories: 29, protein: 1.1, carbs: 9.3, fat: 0.3 },
+  lime: { calories: 30, protein: 0.7, carbs: 10.5, fat: 0.2 },
+  strawberry: { calories: 32, protein: 0.7, carbs: 7.7, fat: 0.3 },
+  blueberry: { calories: 57, protein: 0.7, carbs: 14.5, fat: 0.3 },
+  raspberry: { calories: 52, protein: 1.2, carbs: 12, fat: 0.7 },
+  grape: { calories: 69, protein: 0.7, carbs: 18, fat: 0.2 },
+  pear: { calories: 57, protein: 0.4, carbs: 15, fat: 0.1 },
+  peach: { calories: 39, protein: 0.9, carbs: 9.5, fat: 0.3 },
+  mango: { calories: 60, protein: 0.8, carbs: 15, fat: 0.4 },
+  pineapple: { calories: 50, protein: 0.5, carbs: 13, fat: 0.1 },
+  raisin: { calories: 299, protein: 3.1, carbs: 79, fat: 0.5 },
+  chicken: { calories: 150, protein: 21, carbs: 0, fat: 7 },
+  beef: { calories: 250, protein: 17, carbs: 0, fat: 20 },
+  pork: { calories: 200, protein: 19, carbs: 0, fat: 14 },
+  bacon: { calories: 417, protein: 13, carbs: 1.4, fat: 40 },
+  ham: { calories: 145, protein: 21, carbs: 1.5, fat: 5.5 },
+  sausage: { calories: 300, protein: 12, carbs: 2, fat: 27 },
+  lamb: { calories: 282, protein: 16.6, carbs: 0, fat: 23.4 },
+  turkey: { calories: 148, protein: 19.7, carbs: 0, fat: 7.7 },
+  fish: { calories: 82, protein: 18, carbs: 0, fat: 0.7 },
+  salmon: { calories: 208, protein: 20, carbs: 0, fat: 13 },
+  tuna: { calories: 116, protein: 26, carbs: 0, fat: 0.8 },
+  shrimp: { calories: 85, protein: 20, carbs: 0, fat: 0.5 },
+  crab: { calories: 87, protein: 18, carbs: 0, fat: 1.1 },
+  mussel: { calories: 86, protein: 12, carbs: 3.7, fat: 2.2 },
+  egg: { calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5 },
+  milk: { calories: 61, protein: 3.2, carbs: 4.8, fat: 3.3 },
+  buttermilk: { calories: 40, protein: 3.3, carbs: 4.8, fat: 0.9 },
+  butter: { calories: 717, protein: 0.9, carbs: 0.1, fat: 81 },
+  cream: { calories: 340, protein: 2.8, carbs: 2.7, fat: 36 },
+  'sour-cream': { calories: 198, protein: 2.4, carbs: 4.6, fat: 19 },
+  yogurt: { calories: 61, protein: 3.5, carbs: 4.7, fat: 3.3 },
+  cheese: { calories: 403, protein: 25, carbs: 1.3, fat: 33 },
+  parmesan: { calories: 431, protein: 38, carbs: 4.1, fat: 29 },
+  'cream-cheese': { calories: 342, protein: 6, carbs: 4, fat: 34 },
+  rice: { calories: 365, protein: 7.1, carbs: 80, fat: 0.7 },
+  pasta: { calories: 371, protein: 13, carbs: 75, fat: 1.5 },
+  'egg-noodle': { calories: 384, protein: 14, carbs: 71, fat: 4.4 },
+  bread: { calories: 265, protein: 9, carbs: 49, fat: 3.2 },
+  tortilla: { calories: 306, protein: 8.2, carbs: 50, fat: 8 },
+  flour: { calories: 364, protein: 10, carbs: 76, fat: 1 },
+  cornstarch: { calories: 381, protein: 0.3, carbs: 91, fat: 0.1 },
+  oat: { calories: 389, protein: 17, carbs: 66, fat: 7 },
+  quinoa: { calories: 368, protein: 14, carbs: 64, fat: 6 },
+  couscous: { calories: 376, protein: 13, carbs: 77, fat: 0.6 },
+  chickpea: { calories: 139, protein: 7, carbs: 23, fat: 2 },
+  lentil: { calories: 352, protein: 25, carbs: 63, fat: 1.1 },
+  bean: { calories: 127, protein: 8.7, carbs: 22.8, fat: 0.5 },
+  tofu: { calories: 76, protein: 8, carbs: 1.9, fat: 4.8 },
+  salt: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+  'black-pepper': { calories: 251, protein: 10, carbs: 64, fat: 3.3 },
+  cilantro: { calories: 23, protein: 2.1, carbs: 3.7, fat: 0.5 },
+  parsley: { calories: 36, protein: 3, carbs: 6.3, fat: 0.8 },
+  basil: { calories: 23, protein: 3.2, carbs: 2.7, fat: 0.6 },
+  oregano: { calories: 265, protein: 9, carbs: 69, fat: 4.3 },
+  thyme: { calories: 101, protein: 5.6, carbs: 24, fat: 1.7 },
+  rosemary: { calories: 131, protein: 3.3, carbs: 21, fat: 5.9 },
+  mint: { calories: 70, protein: 3.8, carbs: 15, fat: 0.9 },
+  dill: { calories: 43, protein: 3.5, carbs: 7, fat: 1.1 },
+  cumin: { calories: 375, protein: 18, carbs: 44, fat: 22 },
+  paprika: { calories: 282, protein: 14, carbs: 54, fat: 13 },
+  cinnamon: { calories: 247, protein: 4, carbs: 81, fat: 1.2 },
+  'chili-powder': { calories: 282, protein: 13.5, carbs: 50, fat: 14 },
+  'curry-powder': { calories: 325, protein: 14, carbs: 58, fat: 14 },
+  'olive-oil': { calories: 884, protein: 0, carbs: 0, fat: 100 },
+  'vegetable-oil': { calories: 884, protein: 0, carbs: 0, fat: 100 },
+  'peanut-oil': { calories: 884, protein: 0, carbs: 0, fat: 100 },
+  'sesame-oil': { calories: 884, protein: 0, carbs: 0, fat: 100 },
+  'soy-sauce': { calories: 53, protein: 8, carbs: 4.9, fat: 0.6 },
+  vinegar: { calories: 20, protein: 0, carbs: 1, fat: 0 },
+  mustard: { calories: 66, protein: 4.4, carbs: 5.8, fat: 4 },
+  mayonnaise: { calories: 680, protein: 1, carbs: 0.6, fat: 75 },
+  ketchup: { calories: 101, protein: 1, carbs: 27, fat: 0.1 },
+  stock: { calories: 7, protein: 1, carbs: 0.5, fat: 0.2 },
+  'coconut-milk': { calories: 230, protein: 2.3, carbs: 6, fat: 24 },
+  sugar: { calories: 387, protein: 0, carbs: 100, fat: 0 },
+  'powdered-sugar': { calories: 389, protein: 0, carbs: 99.8, fat: 0 },
+  honey: { calories: 304, protein: 0.3, carbs: 82, fat: 0 },
+  'maple-syrup': { calories: 260, protein: 0, carbs: 67, fat: 0.1 },
+  'baking-powder': { calories: 53, protein: 0, carbs: 28, fat: 0 },
+  'cream-of-tartar': { calories: 258, protein: 0, carbs: 62, fat: 0 },
+  'baking-soda': { calories: 0, protein: 0, carbs: 0, fat: 0 },
+  yeast: { calories: 325, protein: 40, carbs: 41, fat: 7.6 },
+  chocolate: { calories: 546, protein: 4.9, carbs: 61, fat: 31 },
+  'cocoa-butter': { calories: 884, protein: 0, carbs: 0, fat: 100 },
+  'peanut-butter': { calories: 588, protein: 25, carbs: 20, fat: 50 },
+  'nut-butter': { calories: 614, protein: 21, carbs: 19, fat: 56 },
+  peanut: { calories: 567, protein: 26, carbs: 16, fat: 49 },
+  nut: { calories: 607, protein: 20, carbs: 21, fat: 54 },
+  'sesame-seed': { calories: 573, protein: 18, carbs: 23, fat: 50 },
+  wine: { calories: 83, protein: 0.1, carbs: 2.6, fat: 0 },
+  water: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+  juice: { calories: 45, protein: 0.7, carbs: 10.4, fat: 0.2 },
+  coffee: { calories: 1, protein: 0.1, carbs: 0, fat: 0 },
+  tea: { calories: 1, protein: 0, carbs: 0.3, fat: 0 }
+};
+
+/**
+ * Nutrients per 100 g once cooked, for the dry goods above when a recipe
+ * calls for them cooked ("2 cups cooked rice")
+ */
+export const COOKED_NUTRIENTS: Record<string, Nutrients> = {
+  rice: { calories: 130, protein: 2.7, carbs: 28, fat: 0.3 },
+  pasta: { calories: 158, protein: 5.8, carbs: 31, fat: 0.9 },
+  quinoa: { calories: 120, protein: 4.4, carbs: 21, fat: 1.9 },
+  couscous: { calories: 112, protein: 3.8, carbs: 23, fat: 0.2 },
+  lentil: { calories: 116, protein: 9, carbs: 20, fat: 0.4 }
+};
+
+/**
+ * Typical nutrients per 100 g for ingredients that aren't in the catalog
+ */
+export const CATEGORY_NUTRIENTS: Record<IngredientCategory, Nutrients> = {
+  fruit: { calories: 55, protein: 0.7, carbs: 14, fat: 0.2 },
+  vegetable: { calories: 30, protein: 1.5, carbs: 6, fat: 0.3 },
+  meat: { calories: 220, protein: 19, carbs: 0, fat: 15 },
+  seafood: { calories: 100, protein: 19, carbs: 1, fat: 2 },
+  dairy: { calories: 200, protein: 10, carbs: 4, fat: 15 },
+  grain: { calories: 350, protein: 10, carbs: 70, fat: 2 },
+  spice: { calories: 250, protein: 10, carbs: 50, fat: 5 },
+  beverage: { calories: 40, protein: 0.3, carbs: 10, fat: 0 },
+  other: { calories: 200, protein: 5, carbs: 20, fat: 10 }
+};
+
+/**
+ * Typical weight in grams of one of a unit that doesn't convert, for
+ * amounts like "2 cloves garlic" or "1 can chickpeas" with no size given
+ */
+export const UNIT_GRAMS: Record<string, number> = {
+  clove: 5,
+  slice: 30,
+  stick: 113,
+  can: 400,
+  handful: 30,
+  sprig: 1,
+  stalk: 40
+};
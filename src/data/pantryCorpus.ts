@@ -0,0 +1,72 @@
+import type { PantryItem } from '@/types/ingredient';
+import type { NewPantryItem } from '@/utils/pantry';
+import type { IdentifiedIngredient } from '@/services/llmSchemas';
+
+/**
+ * Cooking a recipe from the pantry: what the pantry held, the recipe cooked
+ * and the leftover portions kept, and what the pantry should hold afterwards.
+ * Add a case whenever cooking is reported to take or leave the wrong things;
+ * `npm run check:corpus` checks every one.
+ */
+export interface PantryCase {
+  description: string;
+  pantry: NewPantryItem[];
+  recipe: { title: string; ingredients: string[] };
+  leftoverPortions: number;
+  expected: Pick<PantryItem, 'name' | 'quantity' | 'unit'>[];
+}
+
+export const PANTRY_CORPUS: PantryCase[] = [
+  {
+    description: 'leftover fried rice stays apart from the raw rice',
+    pantry: [{ name: 'Rice', quantity: 500, unit: 'g' }],
+    recipe: { title: 'Fried Rice', ingredients: ['200 g rice', '2 eggs'] },
+    leftoverPortions: 2,
+    expected: [
+      { name: 'Rice', quantity: 300, unit: 'g' },
+      { name: 'Leftover Fried Rice', quantity: 2, unit: 'portions' }
+    ]
+  },
+  {
+    description: 'leftovers of the same dish are topped up',
+    pantry: [
+      { name: 'Chicken', quantity: 1000, unit: 'g' },
+      { name: 'Leftover Chicken Curry', quantity: 1, unit: 'portions', leftover: true }
+    ],
+    recipe: { title: 'Chicken Curry', ingredients: ['500 g chicken'] },
+    leftoverPortions: 2,
+    expected: [
+      { name: 'Chicken', quantity: 500, unit: 'g' },
+      { name: 'Leftover Chicken Curry', quantity: 3, unit: 'portions' }
+    ]
+  },
+  {
+    description: 'cooking with rice never draws on leftover fried rice',
+    pantry: [
+      { name: 'Leftover Fried Rice', quantity: 2, unit: 'portions', leftover: true },
+      { name: 'Rice', quantity: 500, unit: 'g' }
+    ],
+    recipe: { title: 'Rice Pudding', ingredients: ['100 g rice'] },
+    leftoverPortions: 0,
+    expected: [
+      { name: 'Leftover Fried Rice', quantity: 2, unit: 'portions' },
+      { name: 'Rice', quantity: 400, unit: 'g' }
+    ]
+  }
+];
+
+/**
+ * Ingredients identified in a photo on `scannedOn`, and the expiry date
+ * the pantry should estimate for them
+ */
+export interface ScanCase {
+  ingredient: IdentifiedIngredient;
+  scannedOn: string;
+  expiresOn: string | null;
+}
+
+export const SCAN_CORPUS: ScanCase[] = [
+  { ingredient: { name: 'milk', quantity: '1', unit: 'l' }, scannedOn: '2026-03-01', expiresOn: '2026-03-08' },
+  { ingredient: { name: 'chicken breast', quantity: '500', unit: 'g' }, scannedOn: '2026-03-01', expiresOn: '2026-03-04' },
+  { ingredient: { name: 'spinach', quantity: '1', unit: 'pieces' }, scannedOn: '2026-03-30', expiresOn: '2026-04-04' }
+];
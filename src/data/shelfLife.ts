@@ -0,0 +1,81 @@
+import type { IngredientCategory, ShelfLife } from '@/types/ingredient';
+
+/**
+ * Typical days an ingredient keeps in the fridge or cupboard, by category.
+ * Deliberately on the cautious side.
+ */
+export const CATEGORY_SHELF_LIFE: Record<IngredientCategory, ShelfLife> = {
+  fruit: { unopened: 7, opened: 2 },
+  vegetable: { unopened: 7, opened: 3 },
+  meat: { unopened: 3, opened: 2 },
+  seafood: { unopened: 2, opened: 1 },
+  dairy: { unopened: 10, opened: 5 },
+  grain: { unopened: 180, opened: 90 },
+  spice: { unopened: 365, opened: 180 },
+  beverage: { unopened: 60, opened: 5 },
+  other: { unopened: 90, opened: 30 }
+};
+
+/**
+ * Shelf lives for catalog ingredients that keep much longer or shorter than
+ * the rest of their category, keyed by catalog ID
+ */
+export const INGREDIENT_SHELF_LIFE: Record<string, ShelfLife> = {
+  // Vegetables that keep
+  onion: { unopened: 30, opened: 7 },
+  shallot: { unopened: 30, opened: 7 },
+  garlic: { unopened: 60, opened: 10 },
+  potato: { unopened: 30, opened: 1 },
+  'sweet-potato': { unopened: 21, opened: 1 },
+  carrot: { unopened: 21, opened: 5 },
+  cabbage: { unopened: 21, opened: 5 },
+  beet: { unopened: 21, opened: 5 },
+  pumpkin: { unopened: 60, opened: 5 },
+  'tomato-paste': { unopened: 365, opened: 7 },
+  'canned-tomato': { unopened: 365, opened: 4 },
+  corn: { unopened: 3, opened: 2 },
+  // Leafy greens and herbs wilt quickly
+  lettuce: { unopened: 5, opened: 3 },
+  spinach: { unopened: 5, opened: 3 },
+  arugula: { unopened: 4, opened: 2 },
+  cilantro: { unopened: 7, opened: 7 },
+  parsley: { unopened: 7, opened: 7 },
+  basil: { unopened: 5, opened: 5 },
+  mint: { unopened: 7, opened: 7 },
+  dill: { unopened: 7, opened: 7 },
+  // Fruit
+  apple: { unopened: 30, opened: 1 },
+  orange: { unopened: 21, opened: 2 },
+  lemon: { unopened: 21, opened: 3 },
+  lime: { unopened: 21, opened: 3 },
+  banana: { unopened: 5, opened: 1 },
+  raisin: { unopened: 180, opened: 90 },
+  // Meat and fish
+  bacon: { unopened: 7, opened: 5 },
+  ham: { unopened: 14, opened: 4 },
+  sausage: { unopened: 7, opened: 3 },
+  // Dairy
+  egg: { unopened: 28, opened: 2 },
+  milk: { unopened: 7, opened: 5 },
+  butter: { unopened: 60, opened: 30 },
+  cheese: { unopened: 28, opened: 14 },
+  parmesan: { unopened: 90, opened: 30 },
+  yogurt: { unopened: 14, opened: 5 },
+  'cream-cheese': { unopened: 21, opened: 10 },
+  // Bakery and others
+  bread: { unopened: 5, opened: 4 },
+  tortilla: { unopened: 14, opened: 7 },
+  tofu: { unopened: 21, opened: 4 },
+  'coconut-milk': { unopened: 365, opened: 4 },
+  stock: { unopened: 365, opened: 4 },
+  mayonnaise: { unopened: 180, opened: 60 },
+  wine: { unopened: 365, opened: 5 },
+  juice: { unopened: 90, opened: 7 },
+  water: { unopened: 365, opened: 365 }
+};
+
+// Used for ingredients that aren't in the catalog; about a week, like most fresh food
+export const DEFAULT_SHELF_LIFE: ShelfLife = { unopened: 7, opened: 3 };
+
+// Cooked leftovers, refrigerated
+export const LEFTOVER_SHELF_LIFE_DAYS = 3;
@@ -0,0 +1,38 @@
+import type { SubstitutionContext } from '@/types/ingredient';
+import type { Diet } from '@/types/diet';
+
+/**
+ * Swaps that have been wrongly offered (or missed) before: the missing
+ * ingredient, what the user has, where the recipe cooks and their diets, and
+ * the substitute that should be suggested, or null for none. Add a case
+ * whenever a bad swap is reported; `npm run check:corpus` checks every one.
+ */
+export interface SubstitutionCase {
+  ingredient: string;
+  userIngredients: string[];
+  context: SubstitutionContext;
+  diets: Diet[];
+  substitute: string | null;
+}
+
+export const SUBSTITUTION_CORPUS: SubstitutionCase[] = [
+  // Gluten-free: soy sauce contains wheat
+  { ingredient: 'stock', userIngredients: ['water', 'soy sauce'], context: 'cooking', diets: [], substitute: 'water + soy sauce' },
+  { ingredient: 'stock', userIngredients: ['water', 'soy sauce'], context: 'cooking', diets: ['gluten-free'], substitute: null },
+
+  // Lactose-free: yogurt and ordinary cheese have lactose
+  { ingredient: 'egg', userIngredients: ['yogurt'], context: 'baking', diets: [], substitute: 'yogurt' },
+  { ingredient: 'egg', userIngredients: ['yogurt'], context: 'baking', diets: ['lactose-free'], substitute: null },
+  { ingredient: 'mayonnaise', userIngredients: ['greek yogurt'], context: 'raw', diets: ['lactose-free'], substitute: null },
+  { ingredient: 'parmesan', userIngredients: ['cheddar'], context: 'any', diets: ['lactose-free'], substitute: null },
+  { ingredient: 'parmesan', userIngredients: ['cheddar'], context: 'any', diets: ['vegetarian'], substitute: 'cheese' },
+
+  // Keto: banana and lentils are high in carbs
+  { ingredient: 'egg', userIngredients: ['banana'], context: 'baking', diets: ['keto'], substitute: null },
+  { ingredient: 'beef', userIngredients: ['lentils'], context: 'cooking', diets: ['keto'], substitute: null },
+  { ingredient: 'beef', userIngredients: ['lentils'], context: 'cooking', diets: ['vegetarian'], substitute: 'lentils' },
+
+  // Vegan: honey
+  { ingredient: 'maple syrup', userIngredients: ['honey'], context: 'any', diets: ['vegan'], substitute: null },
+  { ingredient: 'butter', userIngredients: ['olive oil'], context: 'cooking', diets: ['vegan', 'keto'], substitute: 'olive oil' }
+];
@@ -0,0 +1,429 @@
+import type { SubstitutionRule } from '@/types/ingredient';
+
+const NO_EFFECT = { adds: [], removes: [] };
+
+/**
+ * Common ingredient substitutions, keyed by catalog ID. Rules for the same
+ * ingredient are listed best first.
+ */
+export const SUBSTITUTION_RULES: SubstitutionRule[] = [
+  // Dairy
+  {
+    ingredient: 'buttermilk',
+    substitutes: ['milk', 'lemon'],
+    ratio: 1,
+    instructions: '1 cup milk + 1 tbsp lemon juice per cup, left to stand 5 minutes',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'buttermilk',
+    substitutes: ['milk', 'vinegar'],
+    ratio: 1,
+    instructions: '1 cup milk + 1 tbsp white vinegar per cup, left to stand 5 minutes',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'buttermilk',
+    substitutes: ['yogurt', 'milk'],
+    ratio: 1,
+    instructions: '3/4 cup yogurt thinned with 1/4 cup milk per cup',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'cream',
+    substitutes: ['milk', 'butter'],
+    ratio: 1,
+    instructions: '3/4 cup milk + 1/4 cup melted butter per cup (won\'t whip)',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'cream',
+    substitutes: ['coconut-milk'],
+    ratio: 1,
+    instructions: 'Use full-fat coconut milk 1:1',
+    context: 'cooking',
+    dietaryEffect: { adds: ['dairy-free', 'vegan'], removes: [] }
+  },
+  {
+    ingredient: 'sour-cream',
+    substitutes: ['yogurt'],
+    ratio: 1,
+    instructions: 'Use plain or Greek yogurt 1:1',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'yogurt',
+    substitutes: ['sour-cream'],
+    ratio: 1,
+    instructions: 'Use sour cream 1:1',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'milk',
+    substitutes: ['water', 'butter'],
+    ratio: 1,
+    instructions: '1 cup water + 1 tbsp melted butter per cup',
+    context: 'baking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'milk',
+    substitutes: ['coconut-milk'],
+    ratio: 1,
+    instructions: 'Use coconut milk 1:1, or half coconut milk and half water',
+    context: 'any',
+    dietaryEffect: { adds: ['dairy-free', 'vegan'], removes: [] }
+  },
+  {
+    ingredient: 'butter',
+    substitutes: ['vegetable-oil'],
+    ratio: 0.75,
+    instructions: 'Use 3/4 the amount of oil',
+    context: 'cooking',
+    dietaryEffect: { adds: ['dairy-free', 'vegan'], removes: [] }
+  },
+  {
+    ingredient: 'butter',
+    substitutes: ['olive-oil'],
+    ratio: 0.75,
+    instructions: 'Use 3/4 the amount of olive oil',
+    context: 'cooking',
+    dietaryEffect: { adds: ['dairy-free', 'vegan'], removes: [] }
+  },
+  {
+    ingredient: 'parmesan',
+    substitutes: ['cheese'],
+    ratio: 1,
+    instructions: 'Use any hard, aged cheese 1:1',
+    context: 'any',
+    dietaryEffect: { adds: [], removes: ['lactose-free'] }
+  },
+  {
+    ingredient: 'cream-cheese',
+    substitutes: ['yogurt'],
+    ratio: 1,
+    instructions: 'Strain Greek yogurt overnight and use 1:1',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+
+  // Eggs and baking
+  {
+    ingredient: 'egg',
+    substitutes: ['banana'],
+    ratio: 0.5,
+    instructions: '1/2 mashed banana per egg',
+    context: 'baking',
+    dietaryEffect: { adds: ['vegan', 'egg-free'], removes: ['keto'] }
+  },
+  {
+    ingredient: 'egg',
+    substitutes: ['yogurt'],
+    ratio: 0.25,
+    instructions: '1/4 cup yogurt per egg',
+    context: 'baking',
+    dietaryEffect: { adds: ['egg-free'], removes: ['lactose-free'] }
+  },
+  {
+    ingredient: 'baking-powder',
+    substitutes: ['baking-soda', 'vinegar'],
+    ratio: 0.25,
+    instructions: '1/4 tsp baking soda + 1/2 tsp vinegar per tsp',
+    context: 'baking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'cornstarch',
+    substitutes: ['flour'],
+    ratio: 2,
+    instructions: '2 tbsp flour per tbsp cornstarch for thickening',
+    context: 'cooking',
+    dietaryEffect: { adds: [], removes: ['gluten-free'] }
+  },
+  {
+    ingredient: 'powdered-sugar',
+    substitutes: ['sugar', 'cornstarch'],
+    ratio: 1,
+    instructions: 'Blend 1 cup sugar with 1 tbsp cornstarch until fine',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'honey',
+    substitutes: ['maple-syrup'],
+    ratio: 1,
+    instructions: 'Use maple syrup 1:1',
+    context: 'any',
+    dietaryEffect: { adds: ['vegan'], removes: [] }
+  },
+  {
+    ingredient: 'maple-syrup',
+    substitutes: ['honey'],
+    ratio: 1,
+    instructions: 'Use honey 1:1',
+    context: 'any',
+    dietaryEffect: { adds: [], removes: ['vegan'] }
+  },
+  {
+    ingredient: 'sugar',
+    substitutes: ['honey'],
+    ratio: 0.75,
+    instructions: '3/4 cup honey per cup, and cut other liquids by 3 tbsp',
+    context: 'any',
+    dietaryEffect: { adds: [], removes: ['vegan'] }
+  },
+
+  // Vegetables and aromatics
+  {
+    ingredient: 'shallot',
+    substitutes: ['onion'],
+    ratio: 1,
+    instructions: 'Use the same amount of finely chopped onion',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'leek',
+    substitutes: ['onion'],
+    ratio: 1,
+    instructions: 'Use the same amount of sliced onion',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'green-onion',
+    substitutes: ['onion'],
+    ratio: 0.5,
+    instructions: 'Use half as much finely chopped onion',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'onion',
+    substitutes: ['shallot'],
+    ratio: 1,
+    instructions: 'Use the same amount of shallot',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'spinach',
+    substitutes: ['kale'],
+    ratio: 1,
+    instructions: 'Use kale 1:1, stems removed, cooked a little longer',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'zucchini',
+    substitutes: ['eggplant'],
+    ratio: 1,
+    instructions: 'Use eggplant 1:1',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'lemon',
+    substitutes: ['lime'],
+    ratio: 1,
+    instructions: 'Use lime juice or zest 1:1',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'lime',
+    substitutes: ['lemon'],
+    ratio: 1,
+    instructions: 'Use lemon juice or zest 1:1',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'lemon',
+    substitutes: ['vinegar'],
+    ratio: 0.5,
+    instructions: 'Use half as much vinegar, for acidity only',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'tomato-paste',
+    substitutes: ['canned-tomato'],
+    ratio: 3,
+    instructions: '3 tbsp tomato sauce per tbsp paste, simmered down',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'canned-tomato',
+    substitutes: ['tomato'],
+    ratio: 1,
+    instructions: 'Chop fresh tomatoes and simmer 10 minutes longer',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+
+  // Herbs and spices
+  {
+    ingredient: 'cilantro',
+    substitutes: ['parsley'],
+    ratio: 1,
+    instructions: 'Use parsley 1:1, plus a squeeze of lime if you have it',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'parsley',
+    substitutes: ['cilantro'],
+    ratio: 1,
+    instructions: 'Use cilantro 1:1',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'thyme',
+    substitutes: ['oregano'],
+    ratio: 1,
+    instructions: 'Use oregano 1:1',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'oregano',
+    substitutes: ['thyme'],
+    ratio: 1,
+    instructions: 'Use thyme 1:1',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'basil',
+    substitutes: ['oregano'],
+    ratio: 0.5,
+    instructions: 'Use half as much oregano',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+
+  // Pantry
+  {
+    ingredient: 'stock',
+    substitutes: ['water', 'soy-sauce'],
+    ratio: 1,
+    instructions: '1 cup water + 1 tsp soy sauce per cup',
+    context: 'cooking',
+    dietaryEffect: { adds: [], removes: ['gluten-free'] }
+  },
+  {
+    ingredient: 'wine',
+    substitutes: ['stock', 'vinegar'],
+    ratio: 1,
+    instructions: '1 cup stock + 1 tbsp vinegar per cup',
+    context: 'cooking',
+    dietaryEffect: { adds: ['halal'], removes: [] }
+  },
+  {
+    ingredient: 'soy-sauce',
+    substitutes: ['salt'],
+    ratio: 0.25,
+    instructions: 'A pinch of salt per tsp, for seasoning only',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'vegetable-oil',
+    substitutes: ['olive-oil'],
+    ratio: 1,
+    instructions: 'Use olive oil 1:1 (not for deep frying)',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'olive-oil',
+    substitutes: ['vegetable-oil'],
+    ratio: 1,
+    instructions: 'Use vegetable oil 1:1',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'mayonnaise',
+    substitutes: ['yogurt'],
+    ratio: 1,
+    instructions: 'Use Greek yogurt 1:1',
+    context: 'raw',
+    dietaryEffect: { adds: ['egg-free'], removes: ['lactose-free'] }
+  },
+
+  // Proteins and grains
+  {
+    ingredient: 'chicken',
+    substitutes: ['turkey'],
+    ratio: 1,
+    instructions: 'Use turkey 1:1',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'beef',
+    substitutes: ['lamb'],
+    ratio: 1,
+    instructions: 'Use lamb 1:1',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'beef',
+    substitutes: ['lentil'],
+    ratio: 1,
+    instructions: 'Use cooked lentils 1:1 by volume in sauces and chilli',
+    context: 'cooking',
+    dietaryEffect: { adds: ['vegetarian', 'vegan'], removes: ['keto'] }
+  },
+  {
+    ingredient: 'bacon',
+    substitutes: ['ham'],
+    ratio: 1,
+    instructions: 'Use diced ham 1:1, fried until crisp',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'shrimp',
+    substitutes: ['fish'],
+    ratio: 1,
+    instructions: 'Use firm white fish 1:1, cut into chunks',
+    context: 'cooking',
+    dietaryEffect: NO_EFFECT
+  },
+  {
+    ingredient: 'quinoa',
+    substitutes: ['couscous'],
+    ratio: 1,
+    instructions: 'Use couscous 1:1',
+    context: 'any',
+    dietaryEffect: { adds: [], removes: ['gluten-free'] }
+  },
+  {
+    ingredient: 'couscous',
+    substitutes: ['rice'],
+    ratio: 1,
+    instructions: 'Use cooked rice 1:1',
+    context: 'any',
+    dietaryEffect: { adds: ['gluten-free'], removes: [] }
+  },
+  {
+    ingredient: 'chickpea',
+    substitutes: ['bean'],
+    ratio: 1,
+    instructions: 'Use white beans 1:1',
+    context: 'any',
+    dietaryEffect: NO_EFFECT
+  }
+];
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { useToast } from '@/components/ui/use-toast';
 import Layout from '@/components/Layout';
 import AdminSeedDatabase from '@/components/AdminSeedDatabase';
+import AdminBackfillIngredientKeys from '@/components/AdminBackfillIngredientKeys';
 import JsonRecipeImporter from '@/components/JsonRecipeImporter';
 import ChatGptRecipeExtractor from '@/components/ChatGptRecipeExtractor';
 import BulkRecipeScraper from '@/components/BulkRecipeScraper';
@@ -155,7 +156,10 @@ const AdminPage = () => {
           
           <div className="mt-16 border-t border-border pt-8">
             <h2 className="text-2xl font-semibold mb-6">Database Management</h2>
-            <AdminSeedDatabase />
+            <div className="space-y-6">
+              <AdminSeedDatabase />
+              <AdminBackfillIngredientKeys />
+            </div>
           </div>
           
           <div className="mt-16 border-t border-border pt-8">
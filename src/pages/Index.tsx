@@ -8,6 +8,11 @@ import ImageUploader from '@/components/ImageUploader';
 import Layout from '@/components/Layout';
 import SEOHead from '@/components/SEOHead';
 import { identifyIngredientsFromImage } from '@/services/geminiService';
+import { LlmOutputError } from '@/services/llmClient';
+import { usePantryStore } from '@/services/pantryService';
+import { useActivityLogStore } from '@/services/activityLogService';
+import { toScannedPantryItems } from '@/utils/pantry';
+import { toDateString } from '@/utils/expiry';
 import { sendTelegramMessage } from './PaymentSuccessPage';
 
 const Index = () => {
@@ -54,17 +59,11 @@ const Index = () => {
       // Process the image with Gemini AI
       const identifiedIngredients = await identifyIngredientsFromImage(imageData);
       
-      // Store the identified ingredients in sessionStorage
-      // The ingredients already have the structure we need
-      const ingredientsForStorage = identifiedIngredients.map((ingredient, index) => ({
-        id: index + 1,
-        name: ingredient.name,
-        quantity: ingredient.quantity || '1', // Use identified quantity or default to 1
-        unit: ingredient.unit || 'pieces', // Use identified unit or default to pieces
-        selected: true
-      }));
-      
-      sessionStorage.setItem('identified_ingredients', JSON.stringify(ingredientsForStorage));
+      // Add the identified ingredients to the pantry, bought today; anything
+      // already there is topped up rather than duplicated
+      const scannedItems = toScannedPantryItems(identifiedIngredients, toDateString(new Date()));
+      usePantryStore.getState().addItems(scannedItems);
+      useActivityLogStore.getState().logScan(scannedItems.map(({ name, quantity, unit }) => ({ name, quantity, unit })));
       
       // Success message
       toast({
@@ -82,7 +81,9 @@ const Index = () => {
       
       toast({
         title: "Error identifying ingredients",
-        description: "There was a problem processing your image. Please try again.",
+        description: error instanceof LlmOutputError
+          ? "We couldn't make out the ingredients in your image. Try a clearer photo."
+          : "There was a problem processing your image. Please try again.",
         variant: "destructive"
       });
       
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -11,52 +12,64 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select';
-import { ArrowLeft, ArrowRight, Edit, Trash2, Plus, Loader2, Check } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Edit, Trash2, Plus, Loader2, Check, ListChecks } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { findMatchingRecipes } from '@/services/recipeService';
 import IngredientBasedRecommendations from '@/components/IngredientBasedRecommendations';
+import UseItAllPlanner from '@/components/UseItAllPlanner';
 import type { Recipe } from '@/types/recipe';
+import type { UserIngredient, IngredientDates, PantryItem } from '@/types/ingredient';
+import type { Cuisine } from '@/types/cuisine';
+import { ALL_CUISINES, CUISINES } from '@/data/cuisines';
+import { estimateExpiryDate, toDateString } from '@/utils/expiry';
+import { formatDuration } from '@/utils/duration';
+import ExpiryBadge from '@/components/ExpiryBadge';
+import IngredientDateInputs from '@/components/IngredientDateInputs';
 import { cn } from '@/lib/utils';
 import Layout from '@/components/Layout';
 import { useUsageStore, canPerformSearch, getRemainingSearches, canUsePremiumFeature } from '@/services/usageService';
 import PaywallModal from '@/components/PaywallModal';
 import { useAuthStore } from '@/services/firebaseService';
+import { usePantryStore } from '@/services/pantryService';
 import AuthModal from '@/components/AuthModal';
 import SEOHead from '@/components/SEOHead';
 
-// Type for ingredient objects
+// Pantry items as shown and edited on this page. Quantities are kept as
+// strings for the inputs; selection only lasts for this visit. Leftovers
+// are cooked dishes, so they're listed but never searched with.
 type Ingredient = {
-  id: number;
+  id: string;
   name: string;
   quantity: string;
   unit: string;
   selected: boolean;
-};
+  leftover: boolean;
+} & IngredientDates;
 
-// We'll now load identified ingredients from sessionStorage if available
-const getInitialIngredients = (): Ingredient[] => {
-  try {
-    const savedIngredients = sessionStorage.getItem('identified_ingredients');
-    if (savedIngredients) {
-      return JSON.parse(savedIngredients);
-    }
-  } catch (error) {
-    console.error('Error loading ingredients from session storage:', error);
-  }
-  
-  // Fallback to mock data if no saved ingredients
-  return [
-    { id: 1, name: 'Beef', quantity: '300', unit: 'g', selected: true },
-    { id: 2, name: 'Tomato', quantity: '5', unit: 'pieces', selected: true },
-    { id: 3, name: 'Asparagus', quantity: '100', unit: 'g', selected: true },
-    { id: 4, name: 'Cucumber', quantity: '2', unit: 'pieces', selected: true },
-    { id: 5, name: 'Corn', quantity: '5', unit: 'pieces', selected: true },
-    { id: 6, name: 'Egg', quantity: '5', unit: 'pieces', selected: true },
-  ];
+const EMPTY_DATES: IngredientDates = { purchasedOn: null, openedOn: null, expiresOn: null };
+
+const toIngredient = (item: PantryItem, selected: boolean): Ingredient => ({
+  id: item.id,
+  name: item.name,
+  quantity: item.quantity === null ? '' : String(item.quantity),
+  unit: item.unit,
+  selected: selected && !item.leftover,
+  leftover: item.leftover ?? false,
+  purchasedOn: item.purchasedOn ?? null,
+  openedOn: item.openedOn ?? null,
+  expiresOn: item.expiresOn ?? null
+});
+
+const parseQuantity = (quantity: string): number | null => {
+  const parsed = parseFloat(quantity);
+  return isNaN(parsed) ? null : parsed;
 };
 
+// Expiry date for an ingredient, estimated from its other dates if not set
+const getExpiryDate = (ingredient: Ingredient): string | null =>
+  estimateExpiryDate(ingredient.name, ingredient);
+
 type DietaryPreference = 
-  | 'none' 
   | 'vegetarian' 
   | 'vegan' 
   | 'gluten-free' 
@@ -68,14 +81,44 @@ type DietaryPreference =
   | 'atlantic'
   | 'keto';
 
+const DIETARY_OPTIONS: { value: DietaryPreference; label: string }[] = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'gluten-free', label: 'Gluten-Free' },
+  { value: 'lactose-free', label: 'Lactose-Free' },
+  { value: 'high-protein', label: 'High-Protein' },
+  { value: 'low-carb', label: 'Low-Carb' },
+  { value: 'kosher', label: 'Kosher' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'atlantic', label: 'Atlantic' },
+  { value: 'keto', label: 'Keto' }
+];
+
+// Only vegetarian is free; the other diets require premium
+const FREE_DIETS: DietaryPreference[] = ['vegetarian'];
+
+/**
+ * The selected diets the user can filter by: all of them with premium,
+ * otherwise just the free ones
+ */
+const getUsableDiets = (diets: DietaryPreference[], premium: boolean): DietaryPreference[] =>
+  diets.filter(diet => premium || FREE_DIETS.includes(diet));
+
+// Choices for the max total time filter, in minutes
+const TIME_LIMIT_OPTIONS = [15, 30, 45, 60, 90];
+
 const IngredientsPage = () => {
   // Change the starting step to 1 and update step handling
   const [currentStep, setCurrentStep] = useState<number>(1);
-  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
-  const [dietaryPreference, setDietaryPreference] = useState<DietaryPreference>('none');
+  const { items: pantryItems, isLoading: isPantryLoading, addItems, updateItem, removeItem } = usePantryStore();
+  const [deselectedIds, setDeselectedIds] = useState<string[]>([]);
+  const ingredients = pantryItems.map(item => toIngredient(item, !deselectedIds.includes(item.id)));
+  const [dietaryPreferences, setDietaryPreferences] = useState<DietaryPreference[]>([]);
   const [calorieLimit, setCalorieLimit] = useState<string>('');
-  const [editing, setEditing] = useState<number | null>(null);
-  const [tempIngredient, setTempIngredient] = useState({ name: '', quantity: '', unit: 'g' });
+  const [maxTotalTime, setMaxTotalTime] = useState<number | null>(null);
+  const [cuisines, setCuisines] = useState<Cuisine[]>([]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [tempIngredient, setTempIngredient] = useState({ name: '', quantity: '', unit: 'g', ...EMPTY_DATES });
   const [isAddingNewIngredient, setIsAddingNewIngredient] = useState(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
   const [isGeneratingRecipe, setIsGeneratingRecipe] = useState(false);
@@ -107,11 +150,8 @@ const IngredientsPage = () => {
     checkPremiumStatus();
   }, [isPremium]);
   
-  // Load ingredients and step when component mounts
+  // Restore the step when component mounts; ingredients come from the pantry
   useEffect(() => {
-    const loadedIngredients = getInitialIngredients();
-    setIngredients(loadedIngredients);
-    
     // Check if we should restore the step from session storage
     const savedStep = sessionStorage.getItem('ingredients_page_step');
     if (savedStep) {
@@ -125,7 +165,7 @@ const IngredientsPage = () => {
   
   // Handle empty ingredients after user actions (not on initial load)
   useEffect(() => {
-    if (!isInitialLoad && ingredients.length === 0) {
+    if (!isInitialLoad && !isPantryLoading && ingredients.length === 0) {
       toast({
         title: "No ingredients found",
         description: "Returning to image upload page",
@@ -138,19 +178,19 @@ const IngredientsPage = () => {
       
       return () => clearTimeout(timer);
     }
-  }, [ingredients, navigate, toast, isInitialLoad]);
+  }, [ingredients.length, navigate, toast, isInitialLoad, isPantryLoading]);
   
-  const handleCheckboxChange = (id: number) => {
-    setIngredients(ingredients.map(ing => 
-      ing.id === id ? { ...ing, selected: !ing.selected } : ing
-    ));
+  const handleCheckboxChange = (id: string) => {
+    setDeselectedIds(deselectedIds.includes(id)
+      ? deselectedIds.filter(deselectedId => deselectedId !== id)
+      : [...deselectedIds, id]
+    );
   };
   
-  const handleDelete = (id: number) => {
-    const updatedIngredients = ingredients.filter(ing => ing.id !== id);
-    setIngredients(updatedIngredients);
+  const handleDelete = (id: string) => {
+    removeItem(id);
     
-    if (updatedIngredients.length > 0) {
+    if (ingredients.length > 1) {
       toast({
         description: "Ingredient removed",
       });
@@ -158,13 +198,16 @@ const IngredientsPage = () => {
     // If there are no ingredients left, the useEffect will handle navigation
   };
   
-  const startEditing = (id: number) => {
+  const startEditing = (id: string) => {
     const ingredient = ingredients.find(ing => ing.id === id);
     if (ingredient) {
       setTempIngredient({
         name: ingredient.name,
         quantity: ingredient.quantity,
-        unit: ingredient.unit
+        unit: ingredient.unit,
+        purchasedOn: ingredient.purchasedOn,
+        openedOn: ingredient.openedOn,
+        expiresOn: ingredient.expiresOn
       });
       setEditing(id);
     }
@@ -172,17 +215,14 @@ const IngredientsPage = () => {
   
   const saveEdit = () => {
     if (editing) {
-      setIngredients(ingredients.map(ing => 
-        ing.id === editing 
-          ? { ...ing, name: tempIngredient.name, quantity: tempIngredient.quantity, unit: tempIngredient.unit }
-          : ing
-      ));
+      updateItem(editing, { ...tempIngredient, quantity: parseQuantity(tempIngredient.quantity) });
       setEditing(null);
     }
   };
 
   const startAddingIngredient = () => {
-    setTempIngredient({ name: '', quantity: '1', unit: 'pieces' });
+    // Assume things added by hand were bought today
+    setTempIngredient({ name: '', quantity: '1', unit: 'pieces', ...EMPTY_DATES, purchasedOn: toDateString(new Date()) });
     setIsAddingNewIngredient(true);
   };
 
@@ -196,22 +236,10 @@ const IngredientsPage = () => {
       return;
     }
 
-    // Generate a new unique ID (highest ID + 1)
-    const newId = ingredients.length > 0 
-      ? Math.max(...ingredients.map(ing => ing.id)) + 1 
-      : 1;
-
-    const newIngredient = {
-      id: newId,
-      name: tempIngredient.name,
-      quantity: tempIngredient.quantity || '1',
-      unit: tempIngredient.unit,
-      selected: true
-    };
-
-    setIngredients([...ingredients, newIngredient]);
+    // Adding something already in the pantry tops it up
+    addItems([{ ...tempIngredient, quantity: parseQuantity(tempIngredient.quantity) ?? 1 }]);
     setIsAddingNewIngredient(false);
-    setTempIngredient({ name: '', quantity: '', unit: 'g' });
+    setTempIngredient({ name: '', quantity: '', unit: 'g', ...EMPTY_DATES });
 
     toast({
       description: "Ingredient added",
@@ -233,16 +261,26 @@ const IngredientsPage = () => {
     }
   };
 
-  const handleDietaryChange = async (value: DietaryPreference) => {
-    // Only vegetarian and none are free; others require premium
-    if (!['none', 'vegetarian'].includes(value)) {
+  // Recipes must satisfy every selected diet
+  const handleDietaryToggle = async (value: DietaryPreference) => {
+    if (dietaryPreferences.includes(value)) {
+      setDietaryPreferences(dietaryPreferences.filter(preference => preference !== value));
+      return;
+    }
+    if (!FREE_DIETS.includes(value)) {
       const isPremium = await canUsePremiumFeature();
       if (!isPremium) {
         showPaywall('Dietary preference filter');
         return;
       }
     }
-    setDietaryPreference(value);
+    setDietaryPreferences([...dietaryPreferences, value]);
+  };
+
+  const handleCuisineToggle = (value: Cuisine) => {
+    setCuisines(cuisines.includes(value)
+      ? cuisines.filter(cuisine => cuisine !== value)
+      : [...cuisines, value]);
   };
 
   const handleCalorieChange = async (value: string) => {
@@ -281,9 +319,11 @@ const IngredientsPage = () => {
     // Check premium status for dietary and calorie filters
     const isPremium = await canUsePremiumFeature();
     
-    // Only include dietary and calorie filters if premium
-    sessionStorage.setItem('dietary_preference', isPremium ? dietaryPreference : 'none');
+    // Free diets always apply; the rest and the calorie limit need premium
+    sessionStorage.setItem('dietary_preferences', JSON.stringify(getUsableDiets(dietaryPreferences, isPremium)));
     sessionStorage.setItem('calorie_limit', isPremium ? calorieLimit : '');
+    sessionStorage.setItem('max_total_time', maxTotalTime ? String(maxTotalTime) : '');
+    sessionStorage.setItem('cuisines', JSON.stringify(cuisines));
     
     setCurrentStep(2);
   };
@@ -310,8 +350,25 @@ const IngredientsPage = () => {
       .map(ing => ing.name);
   };
 
+  const getSelectedUserIngredients = (): UserIngredient[] => {
+    return ingredients
+      .filter(ing => ing.selected)
+      .map(ing => {
+        const quantity = parseFloat(ing.quantity);
+        return {
+          name: ing.name,
+          quantity: isNaN(quantity) ? null : quantity,
+          unit: ing.unit,
+          expiresOn: getExpiryDate(ing)
+        };
+      });
+  };
+
   const handleBack = () => {
-    if (currentStep === 2) {
+    if (currentStep === 3) {
+      // From the use-it-all plan, go back to the recommendations
+      setCurrentStep(2);
+    } else if (currentStep === 2) {
       // If we're on step 2 (recommendations), go back to step 1 (ingredient list)
       setCurrentStep(1);
     } else {
@@ -352,14 +409,14 @@ const IngredientsPage = () => {
               onClick={handleBack}
             >
               <ArrowLeft className="h-4 w-4" />
-              {currentStep === 2 ? 'Back to Ingredients' : 'Back'}
+              {currentStep === 3 ? 'Back to Recommendations' : currentStep === 2 ? 'Back to Ingredients' : 'Back'}
             </Button>
           </div>
 
           <div className="space-y-8">
             <div className="space-y-4">
               <h1 className="text-3xl font-bold text-center">
-                {currentStep === 1 ? 'Select Your Ingredients' : 'AI Recipe Recommendations'}
+                {currentStep === 1 ? 'Select Your Ingredients' : currentStep === 2 ? 'AI Recipe Recommendations' : 'Use-It-All Plan'}
               </h1>
               
               <div className="flex justify-center">
@@ -380,6 +437,16 @@ const IngredientsPage = () => {
                   )}>
                     2
                   </div>
+                  <div className={cn(
+                    "h-px w-16",
+                    currentStep >= 3 ? "bg-primary" : "bg-muted"
+                  )} />
+                  <div className={cn(
+                    "flex items-center justify-center w-8 h-8 rounded-full font-medium transition-colors",
+                    currentStep >= 3 ? "bg-primary text-primary-foreground" : "bg-muted"
+                  )}>
+                    3
+                  </div>
                 </div>
               </div>
             </div>
@@ -455,21 +522,30 @@ const IngredientsPage = () => {
                                   <Button size="sm" onClick={saveEdit}>Save</Button>
                                 </div>
                               </div>
+                              <IngredientDateInputs
+                                dates={tempIngredient}
+                                onChange={(dates) => setTempIngredient({ ...tempIngredient, ...dates })}
+                              />
                             </div>
                           ) : (
                             <>
                               <div className="flex items-center gap-3">
-                                <Checkbox 
-                                  id={`ingredient-${ingredient.id}`}
-                                  checked={ingredient.selected}
-                                  onCheckedChange={() => handleCheckboxChange(ingredient.id)}
-                                />
+                                {ingredient.leftover ? (
+                                  <Badge variant="secondary">Leftover</Badge>
+                                ) : (
+                                  <Checkbox 
+                                    id={`ingredient-${ingredient.id}`}
+                                    checked={ingredient.selected}
+                                    onCheckedChange={() => handleCheckboxChange(ingredient.id)}
+                                  />
+                                )}
                                 <label 
                                   htmlFor={`ingredient-${ingredient.id}`}
-                                  className={`font-medium ${!ingredient.selected ? 'text-muted-foreground line-through' : ''}`}
+                                  className={`font-medium ${!ingredient.selected && !ingredient.leftover ? 'text-muted-foreground line-through' : ''}`}
                                 >
                                   {ingredient.name}
                                 </label>
+                                <ExpiryBadge expiresOn={getExpiryDate(ingredient)} />
                               </div>
                               
                               <div className="flex items-center gap-4">
@@ -550,6 +626,10 @@ const IngredientsPage = () => {
                                 <Button size="sm" onClick={saveNewIngredient}>Add</Button>
                               </div>
                             </div>
+                            <IngredientDateInputs
+                              dates={tempIngredient}
+                              onChange={(dates) => setTempIngredient({ ...tempIngredient, ...dates })}
+                            />
                           </div>
                         </div>
                       )}
@@ -575,60 +655,34 @@ const IngredientsPage = () => {
                     <CardContent className="pt-6">
                       <div className="flex items-center justify-between mb-3">
                         <h3 className="text-lg font-medium">Dietary Requirements</h3>
-                        {dietaryPreference && !['none', 'vegetarian'].includes(dietaryPreference) && (
+                        {dietaryPreferences.some(preference => !FREE_DIETS.includes(preference)) && (
                           <span className="text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">
                             PRO
                           </span>
                         )}
                       </div>
-                      <Select 
-                        value={dietaryPreference} 
-                        onValueChange={handleDietaryChange}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select dietary preference" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="none">No restrictions</SelectItem>
-                          <SelectItem value="vegetarian">Vegetarian</SelectItem>
-                          <SelectItem value="vegan">
-                            Vegan
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="gluten-free">
-                            Gluten-Free
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="lactose-free">
-                            Lactose-Free
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="high-protein">
-                            High-Protein
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="low-carb">
-                            Low-Carb
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="kosher">
-                            Kosher
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="halal">
-                            Halal
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="atlantic">
-                            Atlantic
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                          <SelectItem value="keto">
-                            Keto
-                            <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
-                          </SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <div className="grid grid-cols-2 gap-2">
+                        {DIETARY_OPTIONS.map(({ value, label }) => (
+                          <div key={value} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`diet-${value}`}
+                              checked={dietaryPreferences.includes(value)}
+                              onCheckedChange={() => handleDietaryToggle(value)}
+                            />
+                            <label htmlFor={`diet-${value}`} className="text-sm cursor-pointer">
+                              {label}
+                              {!FREE_DIETS.includes(value) && (
+                                <span className="ml-2 text-xs bg-primary/10 text-primary rounded-full px-2 py-0.5">PRO</span>
+                              )}
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                      {dietaryPreferences.length > 1 && (
+                        <p className="text-xs text-muted-foreground mt-3">
+                          Recipes must suit all {dietaryPreferences.length} selected diets
+                        </p>
+                      )}
                     </CardContent>
                   </Card>
                   
@@ -664,10 +718,55 @@ const IngredientsPage = () => {
                       </div>
                     </CardContent>
                   </Card>
+
+                  <Card>
+                    <CardContent className="pt-6">
+                      <h3 className="text-lg font-medium mb-3">Cooking Time</h3>
+                      <Select
+                        value={maxTotalTime ? String(maxTotalTime) : 'any'}
+                        onValueChange={(value) => setMaxTotalTime(value === 'any' ? null : Number(value))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Max total time" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Any total time</SelectItem>
+                          {TIME_LIMIT_OPTIONS.map(minutes => (
+                            <SelectItem key={minutes} value={String(minutes)}>
+                              Ready in {formatDuration(minutes)} or less
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardContent className="pt-6">
+                      <h3 className="text-lg font-medium mb-3">Cuisines</h3>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {ALL_CUISINES.map(cuisine => (
+                          <div key={cuisine} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`cuisine-${cuisine}`}
+                              checked={cuisines.includes(cuisine)}
+                              onCheckedChange={() => handleCuisineToggle(cuisine)}
+                            />
+                            <label htmlFor={`cuisine-${cuisine}`} className="text-sm cursor-pointer">
+                              {CUISINES[cuisine].label}
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-3">
+                        {cuisines.length > 0 ? 'Recipes from any selected cuisine' : 'Any cuisine'}
+                      </p>
+                    </CardContent>
+                  </Card>
                 </div>
 
                 {/* Remove the old premium feature notice since we now show inline PRO badges */}
-                {!isPremiumUser && (dietaryPreference && !['none', 'vegetarian'].includes(dietaryPreference) || calorieLimit) && (
+                {!isPremiumUser && (dietaryPreferences.some(preference => !FREE_DIETS.includes(preference)) || calorieLimit) && (
                   <div className="mt-4 p-4 bg-muted rounded-lg">
                     <h3 className="font-semibold mb-2">Premium Features Selected</h3>
                     <p className="text-sm text-muted-foreground mb-2">
@@ -691,12 +790,15 @@ const IngredientsPage = () => {
                 
                 <IngredientBasedRecommendations 
                   ingredients={getSelectedIngredientNames()}
-                  dietaryFilter={isPremiumUser ? dietaryPreference : ''}
+                  userIngredients={getSelectedUserIngredients()}
+                  dietaryFilters={getUsableDiets(dietaryPreferences, isPremiumUser)}
                   calorieLimit={isPremiumUser ? parseInt(calorieLimit) : undefined}
+                  maxTotalTime={maxTotalTime ?? undefined}
+                  cuisines={cuisines}
                   onSelectRecipe={handleSelectRecipe}
                 />
                 
-                <div className="mt-8 flex justify-start">
+                <div className="mt-8 flex justify-between">
                   <Button 
                     variant="outline"
                     className="gap-2"
@@ -705,6 +807,40 @@ const IngredientsPage = () => {
                     <ArrowLeft size={16} />
                     Back to Ingredients
                   </Button>
+                  <Button 
+                    className="gap-2"
+                    onClick={() => setCurrentStep(3)}
+                  >
+                    <ListChecks size={16} />
+                    Plan to Use Everything
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {/* Step 3: A few recipes that together use up the selected ingredients */}
+            {currentStep === 3 && (
+              <>
+                <h2 className="text-2xl font-semibold mb-4">Step 3: Use-It-All Plan</h2>
+                
+                <UseItAllPlanner 
+                  userIngredients={getSelectedUserIngredients()}
+                  dietaryFilters={getUsableDiets(dietaryPreferences, isPremiumUser)}
+                  calorieLimit={isPremiumUser ? parseInt(calorieLimit) : undefined}
+                  maxTotalTime={maxTotalTime ?? undefined}
+                  cuisines={cuisines}
+                  onSelectRecipe={handleSelectRecipe}
+                />
+                
+                <div className="mt-8 flex justify-start">
+                  <Button 
+                    variant="outline"
+                    className="gap-2"
+                    onClick={() => setCurrentStep(2)}
+                  >
+                    <ArrowLeft size={16} />
+                    Back to Recommendations
+                  </Button>
                 </div>
               </>
             )}
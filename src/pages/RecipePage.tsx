@@ -2,23 +2,64 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import { ArrowLeft, Printer, Share2, Info, Play, Video, Circle, Loader2, Plus, Wand2, Minus, Bookmark } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, Share2, CookingPot, Info, Play, Video, Circle, Loader2, Plus, Wand2, Minus, Bookmark, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import IngredientCategoryIcon from '@/components/IngredientCategoryIcon';
 import type { Recipe } from '@/types/recipe';
 import Layout from '@/components/Layout';
-import Fraction from 'fraction.js';
+import { parseIngredient } from '@/utils/ingredientParser';
 import { canUsePremiumFeature } from '@/services/usageService';
 import PaywallModal from '@/components/PaywallModal';
 import { saveRecipe, unsaveRecipe, isRecipeSaved } from '@/services/recipeService';
 import { useAuthStore } from '@/services/firebaseService';
+import { usePreferencesStore } from '@/services/userPreferencesService';
+import { isPantryStaple } from '@/utils/recipeUtils';
+import { formatRecipeTimes } from '@/utils/duration';
+import { findMatchingUserIngredient } from '@/utils/ingredientMatcher';
+import { findAvailableSubstitute, formatSubstitution, getSubstitutionContext } from '@/utils/substitutions';
+import { findRecipeAllergens, formatAllergenMatches, UNCHECKED_ALLERGEN } from '@/utils/allergens';
+import { createShoppingItem } from '@/utils/shoppingList';
+import { useShoppingListStore } from '@/services/shoppingListService';
+import { toMeasurementSystem, roundAmount, convertUnit } from '@/utils/unitConversion';
 import AuthModal from '@/components/AuthModal';
+import CookedRecipeDialog from '@/components/CookedRecipeDialog';
 import { cn } from '@/lib/utils';
 
+/**
+ * Names of the ingredients the user picked on the ingredients page
+ */
+const getSelectedIngredientNames = (): string[] => {
+  try {
+    const stored = sessionStorage.getItem('selected_ingredients');
+    if (!stored) return [];
+    const selected: { name: string }[] = JSON.parse(stored);
+    return selected.map(ingredient => ingredient.name).filter(Boolean);
+  } catch (error) {
+    console.error('Error reading selected ingredients:', error);
+    return [];
+  }
+};
+
+/**
+ * Diets the user picked on the ingredients page, so suggested swaps don't
+ * break them
+ */
+const getSelectedDiets = (): string[] => {
+  try {
+    const stored = sessionStorage.getItem('dietary_preferences');
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading dietary preferences:', error);
+    return [];
+  }
+};
+
 const RecipePage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -35,7 +76,9 @@ const RecipePage = () => {
   const [isSaved, setIsSaved] = useState<boolean>(false);
   const [isCheckingSaved, setIsCheckingSaved] = useState(false);
   const [authModalOpen, setAuthModalOpen] = useState(false);
+  const [cookedDialogOpen, setCookedDialogOpen] = useState(false);
   const { user } = useAuthStore();
+  const { measurementSystem, setMeasurementSystem, allergens, customAllergens } = usePreferencesStore();
   
   // The current recipe to display
   const currentRecipe = recipes[0];
@@ -60,64 +103,38 @@ const RecipePage = () => {
         try {
           console.log('Starting to parse ingredients:', parsedRecipes[0].ingredients);
           
-          // Handle both string and object formats for ingredients
-          const parsedIngredients = parsedRecipes[0].ingredients.map((ingredient: any) => {
-            // If ingredient is already an object (from saved recipes) return it as is
-            if (typeof ingredient === 'object' && ingredient !== null) {
-              console.log('Ingredient is already an object:', ingredient);
-              return ingredient;
-            }
-            
-            if (typeof ingredient !== 'string') {
-              console.warn('Unexpected ingredient format:', ingredient);
-              return { quantity: null, unit: '', name: String(ingredient) };
-            }
-            
-            // Otherwise parse the string
-            const match = ingredient.match(/^([\d./\s]+)?\s*([a-zA-Z]+)?\s+(.+)$/);
-            if (match) {
-              const [_, quantity, unit, name] = match;
-              let parsedQuantity = null;
-              if (quantity) {
-                try {
-                  // Handle fractions like "1/2" or "1 1/2"
-                  const parts = quantity.trim().split(' ');
-                  if (parts.length > 1) {
-                    // Mixed number (e.g., "1 1/2")
-                    const whole = parseFloat(parts[0]);
-                    try {
-                      const fraction = new Fraction(parts[1]);
-                      parsedQuantity = whole + fraction.valueOf();
-                    } catch (e) {
-                      parsedQuantity = whole;
-                    }
-                  } else if (quantity.includes('/')) {
-                    // Simple fraction (e.g., "1/2")
-                    try {
-                      parsedQuantity = new Fraction(quantity).valueOf();
-                    } catch (e) {
-                      parsedQuantity = parseFloat(quantity) || null;
-                    }
-                  } else {
-                    // Simple number
-                    parsedQuantity = parseFloat(quantity);
-                  }
-                } catch (e) {
-                  console.warn('Failed to parse quantity:', quantity);
-                  parsedQuantity = null;
+          // Prefer the parse stored with the recipe; saved recipes may hold
+          // ingredient objects already, everything else goes through the shared parser
+          const parsedIngredients = parsedRecipes[0].structuredIngredients?.length
+            ? parsedRecipes[0].structuredIngredients
+            : parsedRecipes[0].ingredients.map((ingredient: any) => {
+                if (typeof ingredient === 'object' && ingredient !== null) {
+                  console.log('Ingredient is already an object:', ingredient);
+                  return ingredient;
                 }
-              }
-              return {
-                quantity: parsedQuantity,
-                unit: unit || '',
-                name: name.trim()
-              };
-            }
-            return { quantity: null, unit: '', name: ingredient };
-          });
+                return parseIngredient(String(ingredient));
+              });
           
           console.log('Parsed ingredients:', parsedIngredients);
-          setIngredients(parsedIngredients);
+          const { pantryStaples } = usePreferencesStore.getState();
+          const userIngredientNames = getSelectedIngredientNames();
+          const diets = getSelectedDiets();
+          const context = getSubstitutionContext(parsedRecipes[0]);
+          const preparedIngredients = parsedIngredients.map(ingredient => {
+            const name = ingredient.name || '';
+            const staple = isPantryStaple(name, pantryStaples);
+            // Anything the user has (or always has) starts checked off so it
+            // stays off the shopping list; suggest a swap for everything else
+            const owned = staple || !!findMatchingUserIngredient(name, userIngredientNames);
+            return {
+              ...ingredient,
+              staple,
+              checked: ingredient.checked || owned,
+              substitution: owned ? null : findAvailableSubstitute(name, userIngredientNames, pantryStaples, context, diets)
+            };
+          });
+          setIngredients(preparedIngredients);
+
         } catch (error) {
           console.error('Error parsing ingredients:', error);
           // Fallback to raw ingredients if parsing fails
@@ -179,18 +196,38 @@ const RecipePage = () => {
     setPaywallOpen(true);
   };
 
-  const handlePrint = () => {
-    if (!canUsePremiumFeature()) {
-      showPaywall('Print shopping lists');
+  // Unchecked ingredients are the ones the user still needs
+  const handleAddToShoppingList = () => {
+    const items = ingredients
+      .filter(ingredient => !ingredient.checked && ingredient.name)
+      .map(ingredient => createShoppingItem(
+        ingredient.name,
+        typeof ingredient.quantity === 'number' ? ingredient.quantity * scaleMultiplier : null,
+        ingredient.unit || '',
+        currentRecipe?.title
+      ));
+
+    if (items.length === 0) {
+      toast({ description: "You have everything for this recipe" });
       return;
     }
-    window.print();
+
+    useShoppingListStore.getState().addItems(items);
+    toast({
+      title: "Added to shopping list",
+      description: `${items.length} ingredient${items.length === 1 ? '' : 's'} added`,
+      action: (
+        <ToastAction altText="View shopping list" onClick={() => navigate('/shopping-list')}>
+          View list
+        </ToastAction>
+      ),
+    });
   };
 
-  const toggleIngredientCheck = (id: string) => {
+  const toggleIngredientCheck = (index: number) => {
     setIngredients(
-      ingredients.map(ingredient => 
-        ingredient.id === id 
+      ingredients.map((ingredient, i) => 
+        i === index 
           ? { ...ingredient, checked: !ingredient.checked } 
           : ingredient
       )
@@ -201,59 +238,75 @@ const RecipePage = () => {
     setScaleMultiplier(scale);
   };
   
-  const formatIngredient = (ingredient: any) => {
-    if (!showQuantity || ingredient.quantity === null) {
-      return `${ingredient.unit} ${ingredient.name}`.trim();
+  const formatQuantity = (quantity: number) => {
+    // Format the number to handle different cases
+    if (Number.isInteger(quantity)) {
+      // Case 1: Whole numbers (e.g., 1, 2, 3)
+      return quantity.toString();
     }
+
+    // Case 2: Decimal numbers
+    // Convert to decimal with up to 2 decimal places and remove trailing zeros
+    const decimal = Number(quantity.toFixed(2));
     
-    const scaledQuantity = ingredient.quantity * scaleMultiplier;
-    let formattedQuantity;
+    // Common fractions to display nicely
+    const fractionMap: { [key: number]: string } = {
+      0.25: "¼",
+      0.5: "½",
+      0.75: "¾",
+      0.33: "⅓",
+      0.67: "⅔",
+      0.2: "⅕",
+      0.4: "⅖",
+      0.6: "⅗",
+      0.8: "⅘"
+    };
     
-    // Format the number to handle different cases
-    if (Number.isInteger(scaledQuantity)) {
-      // Case 1: Whole numbers (e.g., 1, 2, 3)
-      formattedQuantity = scaledQuantity.toString();
-    } else {
-      // Case 2: Decimal numbers
-      // Convert to decimal with up to 2 decimal places and remove trailing zeros
-      const decimal = Number(scaledQuantity.toFixed(2));
-      
-      // Common fractions to display nicely
-      const fractionMap: { [key: number]: string } = {
-        0.25: "¼",
-        0.5: "½",
-        0.75: "¾",
-        0.33: "⅓",
-        0.67: "⅔",
-        0.2: "⅕",
-        0.4: "⅖",
-        0.6: "⅗",
-        0.8: "⅘"
-      };
-      
-      // Check if we have a clean fraction representation
-      const fractionalPart = decimal % 1;
-      const wholePart = Math.floor(decimal);
-      
-      // Find the closest fraction representation
-      const closestFraction = Object.entries(fractionMap).reduce((closest, [value, symbol]) => {
-        const currentDiff = Math.abs(fractionalPart - parseFloat(value));
-        const closestDiff = Math.abs(fractionalPart - closest.value);
-        return currentDiff < closestDiff ? { value: parseFloat(value), symbol } : closest;
-      }, { value: 999, symbol: "" });
-      
-      // If the fractional part is very close to a common fraction (within 0.01)
-      if (Math.abs(fractionalPart - closestFraction.value) < 0.01) {
-        formattedQuantity = wholePart === 0 
-          ? closestFraction.symbol 
-          : `${wholePart}${closestFraction.symbol}`;
-      } else {
-        // Just use decimal format
-        formattedQuantity = decimal.toString().replace(/\.?0+$/, '');
-      }
+    // Check if we have a clean fraction representation
+    const fractionalPart = decimal % 1;
+    const wholePart = Math.floor(decimal);
+    
+    // Find the closest fraction representation
+    const closestFraction = Object.entries(fractionMap).reduce((closest, [value, symbol]) => {
+      const currentDiff = Math.abs(fractionalPart - parseFloat(value));
+      const closestDiff = Math.abs(fractionalPart - closest.value);
+      return currentDiff < closestDiff ? { value: parseFloat(value), symbol } : closest;
+    }, { value: 999, symbol: "" });
+    
+    // If the fractional part is very close to a common fraction (within 0.01)
+    if (Math.abs(fractionalPart - closestFraction.value) < 0.01) {
+      return wholePart === 0 
+        ? closestFraction.symbol 
+        : `${wholePart}${closestFraction.symbol}`;
+    }
+
+    // Just use decimal format
+    return decimal.toString().replace(/\.?0+$/, '');
+  };
+  
+  const formatIngredient = (ingredient: any) => {
+    const notes = [ingredient.preparation, ingredient.toTaste ? 'to taste' : '', ingredient.optional ? 'optional' : '']
+      .filter(Boolean)
+      .join(', ');
+    const name = notes ? `${ingredient.name}, ${notes}` : ingredient.name;
+
+    if (!showQuantity || ingredient.quantity === null || ingredient.quantity === undefined) {
+      return `${ingredient.unit || ''} ${name}`.trim();
     }
     
-    return `${formattedQuantity} ${ingredient.unit} ${ingredient.name}`.trim();
+    // Scale first, then show the amount in the user's measurement system
+    const { quantity, unit } = roundAmount(
+      toMeasurementSystem(ingredient.quantity * scaleMultiplier, ingredient.unit || '', measurementSystem, ingredient.name)
+    );
+    let formattedQuantity = formatQuantity(quantity);
+    if (ingredient.quantityMax) {
+      const max = convertUnit(ingredient.quantityMax * scaleMultiplier, ingredient.unit || '', unit, ingredient.name);
+      formattedQuantity += `–${formatQuantity(max === null ? ingredient.quantityMax * scaleMultiplier : roundAmount({ quantity: max, unit }).quantity)}`;
+    }
+    // Package sizes don't scale: two 14 oz cans are still 14 oz each
+    const size = ingredient.size ? `(${formatQuantity(ingredient.size.quantity)} ${ingredient.size.unit})` : '';
+    
+    return [formattedQuantity, size, unit, name].filter(Boolean).join(' ');
   };
   
   const handleBackClick = () => {
@@ -367,6 +420,10 @@ const RecipePage = () => {
     );
   }
 
+  // Recipes opened from saved recipes or a shared link never went through the
+  // allergen filter, so check again here
+  const allergenMatches = findRecipeAllergens(currentRecipe, { allergens, customAllergens });
+
   return (
     <Layout>
       <div className="container max-w-4xl mx-auto p-4 space-y-8">
@@ -402,8 +459,9 @@ const RecipePage = () => {
                 {isSaved ? "Unsave Recipe" : "Save Recipe"}
               </span>
             </Button>
-            <Button variant="ghost" size="icon" onClick={handlePrint}>
-              <Printer className="h-4 w-4" />
+            <Button variant="ghost" size="icon" onClick={handleAddToShoppingList}>
+              <ShoppingCart className="h-4 w-4" />
+              <span className="sr-only">Add missing ingredients to shopping list</span>
             </Button>
             <Button variant="ghost" size="icon" onClick={handleShare}>
               <Share2 className="h-4 w-4" />
@@ -411,6 +469,18 @@ const RecipePage = () => {
           </div>
         </div>
         
+        {allergenMatches.length > 0 && (
+          <Alert variant="destructive" className="mb-6 border-2">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {allergenMatches.every(match => match.allergen === UNCHECKED_ALLERGEN) ? 'May contain your allergens' : 'Contains your allergens'}
+            </AlertTitle>
+            <AlertDescription>
+              {formatAllergenMatches(allergenMatches)}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Hero section with image */}
         <div className="relative mb-6">
           <div className="w-36 h-36 mx-auto rounded-full overflow-hidden border-4 border-white shadow-lg bg-muted">
@@ -458,7 +528,7 @@ const RecipePage = () => {
                   <circle cx="12" cy="12" r="10" />
                   <polyline points="12 6 12 12 16 14" />
                 </svg>
-                <span>{currentRecipe.prepTime} + {currentRecipe.cookTime}</span>
+                <span>{formatRecipeTimes(currentRecipe) || 'Time not given'}</span>
               </div>
               <div className="flex items-center gap-1 text-muted-foreground">
                 <svg className="w-5 h-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -541,6 +611,14 @@ const RecipePage = () => {
                 />
                 <Label htmlFor="quantity-toggle">Show quantities</Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={measurementSystem === 'metric'}
+                  onCheckedChange={(checked) => setMeasurementSystem(checked ? 'metric' : 'imperial')}
+                  id="metric-toggle"
+                />
+                <Label htmlFor="metric-toggle">Metric units</Label>
+              </div>
             </div>
           </Card>
           
@@ -596,7 +674,7 @@ const RecipePage = () => {
                   <Checkbox 
                     id={`ingredient-${index}`} 
                     checked={ingredient.checked || false} 
-                    onCheckedChange={() => toggleIngredientCheck(index.toString())}
+                    onCheckedChange={() => toggleIngredientCheck(index)}
                     className="mt-0.5"
                   />
                   <div className="flex-1">
@@ -606,6 +684,16 @@ const RecipePage = () => {
                     >
                       <span className="font-medium">{formatIngredient(ingredient)}</span>
                     </label>
+                    {ingredient.staple && (
+                      <span className="ml-2 text-xs bg-muted text-muted-foreground rounded-full px-2 py-0.5">
+                        Pantry staple
+                      </span>
+                    )}
+                    {ingredient.substitution && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {formatSubstitution(ingredient.substitution)}
+                      </p>
+                    )}
                   </div>
                 </div>
               ))}
@@ -662,7 +750,7 @@ const RecipePage = () => {
         </div>
         
         {/* Back to ingredients button */}
-        <div className="flex justify-center mt-12">
+        <div className="flex flex-col sm:flex-row justify-center gap-3 mt-12">
           <Button 
             variant="outline" 
             onClick={handleBackClick}
@@ -671,9 +759,24 @@ const RecipePage = () => {
             <ArrowLeft className="h-4 w-4" />
             Back to Ingredients
           </Button>
+          <Button 
+            onClick={() => setCookedDialogOpen(true)}
+            className="gap-2"
+          >
+            <CookingPot className="h-4 w-4" />
+            I Cooked This
+          </Button>
         </div>
       </div>
 
+      <CookedRecipeDialog
+        isOpen={cookedDialogOpen}
+        onClose={() => setCookedDialogOpen(false)}
+        recipe={currentRecipe}
+        servings={baseServings}
+        scale={scaleMultiplier}
+      />
+
       <PaywallModal 
         isOpen={paywallOpen}
         onClose={() => setPaywallOpen(false)}
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Printer, FileText, FileSpreadsheet, Trash2, X, ShoppingCart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/components/ui/use-toast';
+import Layout from '@/components/Layout';
+import IngredientCategoryIcon from '@/components/IngredientCategoryIcon';
+import PaywallModal from '@/components/PaywallModal';
+import AuthModal from '@/components/AuthModal';
+import { useAuthStore } from '@/services/firebaseService';
+import { canUsePremiumFeature } from '@/services/usageService';
+import { useShoppingListStore } from '@/services/shoppingListService';
+import {
+  groupShoppingList,
+  formatShoppingAmount,
+  formatShoppingListText,
+  formatShoppingListCsv
+} from '@/utils/shoppingList';
+
+// Save text as a file through a temporary download link
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ShoppingListPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  const { items, toggleItem, removeItem, clearChecked, clearList } = useShoppingListStore();
+  const [paywallOpen, setPaywallOpen] = useState(false);
+  const [authModalOpen, setAuthModalOpen] = useState(false);
+
+  const aisles = groupShoppingList(items);
+  const checkedCount = items.filter(item => item.checked).length;
+
+  // Printing and exporting are premium features
+  const withPremium = async (action: () => void) => {
+    const isPremium = await canUsePremiumFeature();
+    if (!isPremium) {
+      if (user) {
+        setPaywallOpen(true);
+      } else {
+        setAuthModalOpen(true);
+      }
+      return;
+    }
+    action();
+  };
+
+  const handlePrint = () => withPremium(() => window.print());
+
+  const handleExportText = () => withPremium(() => {
+    downloadFile(formatShoppingListText(items), 'shopping-list.txt', 'text/plain');
+    toast({ description: 'Shopping list exported' });
+  });
+
+  const handleExportCsv = () => withPremium(() => {
+    downloadFile(formatShoppingListCsv(items), 'shopping-list.csv', 'text/csv');
+    toast({ description: 'Shopping list exported' });
+  });
+
+  return (
+    <Layout>
+      <div className="container max-w-4xl mx-auto p-4 space-y-6">
+        <div className="flex items-center justify-between print:hidden">
+          <Button variant="ghost" className="flex items-center gap-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={handlePrint} disabled={items.length === 0}>
+              <Printer className="h-4 w-4" />
+              <span className="sr-only">Print</span>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleExportText} disabled={items.length === 0}>
+              <FileText className="h-4 w-4" />
+              <span className="sr-only">Export as text</span>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleExportCsv} disabled={items.length === 0}>
+              <FileSpreadsheet className="h-4 w-4" />
+              <span className="sr-only">Export as CSV</span>
+            </Button>
+          </div>
+        </div>
+
+        <h1 className="text-3xl font-bold">Shopping List</h1>
+
+        {items.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-muted/30">
+            <ShoppingCart className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Your shopping list is empty. Add missing ingredients from a recipe.
+            </p>
+          </div>
+        ) : (
+          <>
+            {aisles.map(aisle => (
+              <Card key={aisle.category}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <IngredientCategoryIcon ingredientName={aisle.items[0].name} size={18} />
+                    {aisle.label}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {aisle.items.map(item => (
+                    <div key={item.id} className="flex items-start gap-3">
+                      <Checkbox
+                        id={`shopping-${item.id}`}
+                        checked={item.checked}
+                        onCheckedChange={() => toggleItem(item.id)}
+                        className="mt-0.5"
+                      />
+                      <div className="flex-1">
+                        <label
+                          htmlFor={`shopping-${item.id}`}
+                          className={item.checked ? 'line-through text-muted-foreground' : ''}
+                        >
+                          {formatShoppingAmount(item) && (
+                            <span className="font-medium">{formatShoppingAmount(item)} </span>
+                          )}
+                          {item.name}
+                        </label>
+                        {item.recipes.length > 0 && (
+                          <p className="text-xs text-muted-foreground">For {item.recipes.join(', ')}</p>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 print:hidden"
+                        onClick={() => removeItem(item.id)}
+                      >
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+
+            <div className="flex justify-between print:hidden">
+              <Button variant="outline" onClick={clearChecked} disabled={checkedCount === 0}>
+                Remove checked ({checkedCount})
+              </Button>
+              <Button variant="ghost" className="text-destructive gap-2" onClick={clearList}>
+                <Trash2 className="h-4 w-4" />
+                Clear list
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {user ? (
+        <PaywallModal
+          isOpen={paywallOpen}
+          onClose={() => setPaywallOpen(false)}
+          feature="Print shopping lists"
+        />
+      ) : (
+        <AuthModal
+          isOpen={authModalOpen}
+          onClose={() => setAuthModalOpen(false)}
+          feature="Print shopping lists"
+        />
+      )}
+    </Layout>
+  );
+};
+
+export default ShoppingListPage;
@@ -6,8 +6,15 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
 import { useAuthStore, signOutUser } from '@/services/firebaseService';
-import { CreditCard, BookMarked, LogOut, Crown, Check, Info, CalendarDays, AlertCircle, ExternalLink } from 'lucide-react';
+import { CreditCard, BookMarked, LogOut, Crown, Check, Info, CalendarDays, AlertCircle, ExternalLink, ChefHat, Leaf } from 'lucide-react';
 import PaywallModal from '@/components/PaywallModal';
+import PantryStaplesEditor from '@/components/PantryStaplesEditor';
+import AllergenEditor from '@/components/AllergenEditor';
+import EquipmentEditor from '@/components/EquipmentEditor';
+import ImpactDashboard from '@/components/ImpactDashboard';
+import { usePreferencesStore } from '@/services/userPreferencesService';
+import type { MeasurementSystem } from '@/utils/unitConversion';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useUsageStore } from '@/services/usageService';
 import { Badge } from '@/components/ui/badge';
 import { SubscriptionDetails, getSubscriptionDetails, cancelSubscription, reactivateSubscription } from '@/services/stripeService';
@@ -35,6 +42,7 @@ export default function UserPortalPage() {
   const [isLoadingSavedRecipes, setIsLoadingSavedRecipes] = useState(false);
   const { user } = useAuthStore();
   const { isPremium } = useUsageStore();
+  const { measurementSystem, setMeasurementSystem } = usePreferencesStore();
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -246,7 +254,7 @@ export default function UserPortalPage() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 mb-8">
+          <TabsList className="grid w-full grid-cols-4 mb-8">
             <TabsTrigger value="subscription" className="gap-2">
               <Crown className="h-4 w-4" />
               Subscription
@@ -255,6 +263,14 @@ export default function UserPortalPage() {
               <BookMarked className="h-4 w-4" />
               Saved Recipes
             </TabsTrigger>
+            <TabsTrigger value="kitchen" className="gap-2">
+              <ChefHat className="h-4 w-4" />
+              Kitchen
+            </TabsTrigger>
+            <TabsTrigger value="impact" className="gap-2">
+              <Leaf className="h-4 w-4" />
+              Impact
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="subscription">
@@ -501,6 +517,81 @@ export default function UserPortalPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="kitchen">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pantry Staples</CardTitle>
+                <CardDescription>
+                  Ingredients you always have on hand
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PantryStaplesEditor />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Allergies</CardTitle>
+                <CardDescription>
+                  Ingredients you can't eat
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AllergenEditor />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Kitchen Equipment</CardTitle>
+                <CardDescription>
+                  What you have to cook with
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EquipmentEditor />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Units</CardTitle>
+                <CardDescription>
+                  Recipe amounts are converted to your preferred units
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Select
+                  value={measurementSystem}
+                  onValueChange={(value) => setMeasurementSystem(value as MeasurementSystem)}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Measurement system" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="metric">Metric (g, ml)</SelectItem>
+                    <SelectItem value="imperial">US (oz, cups)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="impact">
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Impact</CardTitle>
+                <CardDescription>
+                  The food you've saved from the bin by cooking with what you have
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ImpactDashboard />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         <div className="mt-8 flex justify-center">
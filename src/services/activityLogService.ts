@@ -0,0 +1,123 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { collection, doc, getDocs, writeBatch } from 'firebase/firestore';
+import { db, useAuthStore } from './firebaseService';
+import type { ActivityEvent, ActivityIngredient } from '@/types/activity';
+
+interface ActivityLogStore {
+  events: ActivityEvent[];
+  // User the current log was loaded for, null in local-only mode
+  activityUserId: string | null;
+  logScan: (ingredients: ActivityIngredient[]) => void;
+  /** Record a recipe the user confirmed they cooked */
+  logRecipe: (recipeId: string, recipeTitle: string, ingredients: ActivityIngredient[]) => void;
+  loadActivity: (userId: string) => Promise<void>;
+}
+
+const activityCollection = (userId: string) => collection(db, 'users', userId, 'activity');
+
+/**
+ * Get the user's whole activity log, or null if it couldn't be loaded
+ */
+export async function getActivityEvents(userId: string): Promise<ActivityEvent[] | null> {
+  try {
+    const snapshot = await getDocs(activityCollection(userId));
+    return snapshot.docs.map(eventDoc => ({ ...eventDoc.data(), id: eventDoc.id } as ActivityEvent));
+  } catch (error) {
+    console.error('Error loading activity log:', error);
+    return null;
+  }
+}
+
+/**
+ * Save activity events to Firestore
+ */
+export async function saveActivityEvents(userId: string, events: ActivityEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  try {
+    const batch = writeBatch(db);
+    for (const { id, ...data } of events) {
+      batch.set(doc(activityCollection(userId), id), data);
+    }
+    await batch.commit();
+  } catch (error) {
+    console.error('Error saving activity events:', error);
+  }
+}
+
+const createEvent = (event: Omit<ActivityEvent, 'id' | 'at'>): ActivityEvent => ({
+  ...event,
+  id: `${event.type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  at: new Date().toISOString()
+});
+
+// User whose log was fetched this session. Events logged on other devices
+// aren't in the persisted copy, so it's always refetched once per session.
+let fetchedUserId: string | null = null;
+
+export const useActivityLogStore = create<ActivityLogStore>()(
+  persist(
+    (set, get) => {
+      const addEvent = (event: ActivityEvent) => {
+        set({ events: [...get().events, event] });
+        console.log('📈 [ACTIVITY] Logged', event.type, event);
+
+        const { user } = useAuthStore.getState();
+        if (user) saveActivityEvents(user.uid, [event]);
+      };
+
+      return {
+        events: [],
+        activityUserId: null,
+        logScan: (ingredients) => {
+          if (ingredients.length === 0) return;
+          addEvent(createEvent({ type: 'scan', ingredients, recipeId: null, recipeTitle: null }));
+        },
+        logRecipe: (recipeId, recipeTitle, ingredients) => {
+          addEvent(createEvent({ type: 'recipe', ingredients, recipeId, recipeTitle }));
+        },
+        loadActivity: async (userId) => {
+          fetchedUserId = userId;
+          const stored = await getActivityEvents(userId);
+          if (!stored) return;
+          console.log('Loaded activity log:', stored.length, 'events');
+
+          // Bring along anything logged in local-only mode before signing in
+          const storedIds = new Set(stored.map(event => event.id));
+          const localEvents = get().activityUserId
+            ? []
+            : get().events.filter(event => !storedIds.has(event.id));
+          set({ events: [...stored, ...localEvents], activityUserId: userId });
+          saveActivityEvents(userId, localEvents);
+        }
+      };
+    },
+    {
+      name: 'activity-log-storage'
+    }
+  )
+);
+
+// Initialize the service
+export const initializeActivityLogService = () => {
+  const { user } = useAuthStore.getState();
+  if (user) {
+    useActivityLogStore.getState().loadActivity(user.uid);
+  }
+
+  // Load the signed-in user's log, start an empty local one on sign-out
+  return useAuthStore.subscribe((state) => {
+    const { user } = state;
+    const { activityUserId, loadActivity } = useActivityLogStore.getState();
+
+    if (user && user.uid !== fetchedUserId) {
+      loadActivity(user.uid);
+    } else if (!user && activityUserId) {
+      fetchedUserId = null;
+      useActivityLogStore.setState({ events: [], activityUserId: null });
+    }
+  });
+};
+
+// Initialize on load
+initializeActivityLogService();
@@ -1,4 +1,7 @@
 import { toast } from "@/components/ui/use-toast";
+import { completeWithSchema, getLlmClient } from './llmClient';
+import { RecipeExtractionSchema } from './llmSchemas';
+import type { LlmClient } from '@/types/llm';
 
 // Instead of storing in memory, we'll use an environment variable
 const getApiKeyFromEnv = (): string => {
@@ -69,47 +72,31 @@ export const clearApiKey = (): void => {
 };
 
 /**
- * Call the OpenAI API using the stored API key
- * @param prompt The prompt to send to the API
- * @returns The response from the API
+ * Get a model client using the stored API key, unless VITE_LLM_BACKEND picks
+ * another backend
  */
-export const callOpenAiApi = async (prompt: string): Promise<string> => {
+const getOpenAiClient = (): LlmClient => {
   const apiKey = getApiKey();
+  const client = getLlmClient('openai', { apiKey: apiKey || undefined, model: 'gpt-4o' });
   
-  if (!apiKey) {
+  if (!apiKey && client.backend === 'openai') {
     throw new Error('OpenAI API key is not set. Please set it in your .env file or enter it in the admin panel.');
   }
+  return client;
+};
+
+/**
+ * Call the OpenAI API using the stored API key
+ * @param prompt The prompt to send to the API
+ * @returns The response from the API
+ */
+export const callOpenAiApi = async (prompt: string): Promise<string> => {
+  const client = getOpenAiClient();
   
   try {
     console.log('Calling OpenAI API with prompt:', prompt.substring(0, 100) + '...');
     
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2
-      })
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('OpenAI API error response:', errorData);
-      throw new Error(errorData.error?.message || 'Error calling OpenAI API');
-    }
-    
-    const data = await response.json();
-    console.log('Full API response data:', data);
-    
-    const content = data.choices[0]?.message?.content?.trim();
-    
-    if (!content) {
-      throw new Error('No content found in the response');
-    }
+    const content = await client.complete({ prompt, temperature: 0.2 });
     
     console.log('OpenAI API full response content:', content);
     return content;
@@ -194,41 +181,11 @@ If you cannot access the URL due to restrictions, provide your best attempt at e
 {"error": "Could not access the URL or extract recipe data"}`;
 
   try {
-    const jsonContent = await callOpenAiApi(prompt);
-    
-    // Before trying to parse, clean up any markdown or text that might be around the JSON
-    const cleanupContent = (content: string) => {
-      // Remove markdown code blocks
-      let cleaned = content.replace(/```json\s+/g, '').replace(/```\s*$/g, '').replace(/```/g, '').trim();
-      
-      // If still not parseable, try to extract the JSON object or array pattern
-      try {
-        JSON.parse(cleaned);
-        return cleaned;
-      } catch (e) {
-        const jsonPattern = /(\{[\s\S]*\}|\[[\s\S]*\])/s;
-        const match = cleaned.match(jsonPattern);
-        if (match && match[0]) {
-          cleaned = match[0];
-        }
-        return cleaned;
-      }
-    };
-    
-    // Try clean the content first
-    const cleanedContent = cleanupContent(jsonContent);
-    console.log('Cleaned content before parsing:', cleanedContent.substring(0, 100) + '...');
-    
-    // Try to parse the cleaned content
-    try {
-      const parsed = JSON.parse(cleanedContent);
-      console.log('Successfully parsed JSON content');
-      return cleanedContent;
-    } catch (error) {
-      console.error('Failed to parse JSON even after cleanup:', error);
-      console.log('Raw content that failed to parse:', jsonContent);
-      throw new Error('Failed to parse the recipe data. The API response could not be converted to valid JSON.');
-    }
+    // Validated against the schema, with the model asked to fix its answer
+    // when it doesn't fit; throws an LlmOutputError when it never does
+    const recipeData = await completeWithSchema(getOpenAiClient(), { prompt, temperature: 0.2 }, RecipeExtractionSchema);
+    console.log('Successfully validated recipe data');
+    return JSON.stringify(recipeData);
   } catch (error) {
     console.error('Recipe extraction error:', error);
     throw error;
@@ -0,0 +1,90 @@
+import { collection, addDoc, getDocs, query, orderBy, limit } from 'firebase/firestore';
+import { db, useAuthStore } from './firebaseService';
+import { usePantryStore } from './pantryService';
+import { useActivityLogStore } from './activityLogService';
+import { usePreferencesStore } from './userPreferencesService';
+import type { Recipe, CookingHistoryEntry } from '@/types/recipe';
+import { calculatePantryUsage, createLeftoverItem } from '@/utils/pantry';
+import { isPantryStaple } from '@/utils/recipeUtils';
+
+const cookingHistoryCollection = (userId: string) => collection(db, 'users', userId, 'cookingHistory');
+
+export interface CookedRecipeOptions {
+  /** Servings cooked */
+  servings: number;
+  /** Servings cooked divided by the recipe's servings */
+  scale: number;
+  /** Portions of the finished dish to keep as a leftover, 0 for none */
+  leftoverPortions?: number;
+  /** Use-by date (YYYY-MM-DD) for the leftovers */
+  leftoverUseBy?: string | null;
+}
+
+/**
+ * Save a cooking-history entry for the user
+ */
+export async function addCookingHistoryEntry(userId: string, entry: Omit<CookingHistoryEntry, 'id'>): Promise<string | null> {
+  try {
+    const docRef = await addDoc(cookingHistoryCollection(userId), entry);
+    return docRef.id;
+  } catch (error) {
+    console.error('Error saving cooking history:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the user's most recently cooked recipes, newest first
+ */
+export async function getCookingHistory(userId: string, maxEntries: number = 50): Promise<CookingHistoryEntry[]> {
+  try {
+    const snapshot = await getDocs(query(cookingHistoryCollection(userId), orderBy('cookedAt', 'desc'), limit(maxEntries)));
+    return snapshot.docs.map(historyDoc => ({ ...historyDoc.data(), id: historyDoc.id } as CookingHistoryEntry));
+  } catch (error) {
+    console.error('Error loading cooking history:', error);
+    return [];
+  }
+}
+
+/**
+ * Record that the user cooked a recipe: take what it used out of the pantry,
+ * add any leftover portions as their own pantry item, log the meal for the
+ * impact dashboard, and save a history entry for signed-in users
+ */
+export async function completeCooking(recipe: Recipe, options: CookedRecipeOptions): Promise<CookingHistoryEntry> {
+  const { servings, scale, leftoverPortions = 0, leftoverUseBy = null } = options;
+  const pantry = usePantryStore.getState();
+
+  const usage = calculatePantryUsage(recipe, pantry.items, scale);
+  pantry.consumeItems(usage);
+  console.log('🍳 [COOKING] Used from pantry:', usage);
+
+  if (leftoverPortions > 0) {
+    pantry.addItems([createLeftoverItem(recipe.title, leftoverPortions, leftoverUseBy)]);
+  }
+
+  // The impact dashboard counts what was used up, leaving out staples like salt
+  const { pantryStaples } = usePreferencesStore.getState();
+  useActivityLogStore.getState().logRecipe(
+    String(recipe.id),
+    recipe.title,
+    usage
+      .filter(({ name }) => !isPantryStaple(name, pantryStaples))
+      .map(({ name, used, unit }) => ({ name, quantity: used, unit }))
+  );
+
+  const entry: CookingHistoryEntry = {
+    recipeId: String(recipe.id),
+    recipeTitle: recipe.title,
+    servings,
+    cookedAt: new Date().toISOString(),
+    used: usage.map(({ name, used, unit }) => ({ name, quantity: used, unit })),
+    leftoverPortions
+  };
+
+  const { user } = useAuthStore.getState();
+  if (user) {
+    entry.id = await addCookingHistoryEntry(user.uid, entry) ?? undefined;
+  }
+  return entry;
+}
@@ -1,5 +1,5 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore, collection, getDocs, addDoc, query, where, updateDoc, doc, getDoc, setDoc, deleteDoc } from 'firebase/firestore';
+import { getFirestore, collection, getDocs, addDoc, query, where, updateDoc, doc, getDoc, setDoc, deleteDoc, limit, startAfter, writeBatch, DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
 import type { LocalRecipe, RecipeSearchParams, Recipe } from '@/types/recipe';
 import { RecipeSource } from '@/types/recipe';
 import { 
@@ -16,6 +16,12 @@ import {
   signInWithEmailLink
 } from 'firebase/auth';
 import { create } from 'zustand';
+import { parseIngredients } from '@/utils/ingredientParser';
+import { withNutrition } from '@/utils/nutrition';
+import { getRecipeCuisines } from '@/utils/cuisine';
+import { getStructuredIngredients, getIngredientKeys, getRecipeIngredientKeys } from '@/utils/recipeUtils';
+import { ingredientsMatch } from '@/utils/ingredientMatcher';
+import { checkCuisine, checkDiet, checkEquipment, checkTime } from '@/utils/matchReport';
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -67,44 +73,147 @@ onAuthStateChanged(auth, (user) => {
   useAuthStore.getState().setLoading(false);
 });
 
+// Firestore allows at most 30 values in an array-contains-any filter
+const MAX_QUERY_KEYS = 30;
+const SEARCH_PAGE_SIZE = 50;
+// Pages fetched per search before ranking; keeps a search from reading the whole collection
+const MAX_SEARCH_PAGES = 3;
+const BACKFILL_BATCH_SIZE = 200;
+
+/**
+ * Convert a Firestore recipe document to a LocalRecipe
+ */
+function docToLocalRecipe(id: string, data: DocumentData): LocalRecipe {
+  return withNutrition({
+    id,
+    title: data.title,
+    description: data.description,
+    ingredients: data.ingredients,
+    structuredIngredients: data.structuredIngredients,
+    ingredientKeys: data.ingredientKeys,
+    image: data.image,
+    prepTime: data.prepTime,
+    cookTime: data.cookTime,
+    totalTime: data.totalTime,
+    servings: data.servings,
+    calories: data.calories,
+    nutrition: data.nutrition ?? null,
+    cuisines: data.cuisines || [],
+    dietaryTags: data.dietaryTags || [],
+    instructions: data.instructions,
+    source: 'LOCAL' as const
+  } as LocalRecipe);
+}
+
 /**
  * Get all recipes from Firestore
  */
 export async function getAllRecipes(): Promise<LocalRecipe[]> {
   try {
     const querySnapshot = await getDocs(recipesCollection);
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        title: data.title,
-        description: data.description,
-        ingredients: data.ingredients,
-        image: data.image,
-        prepTime: data.prepTime,
-        cookTime: data.cookTime,
-        servings: data.servings,
-        dietaryTags: data.dietaryTags || [],
-        instructions: data.instructions,
-        source: 'LOCAL' as const
-      } as LocalRecipe;
-    });
+    return querySnapshot.docs.map(doc => docToLocalRecipe(doc.id, doc.data()));
   } catch (error) {
     console.error('Error getting recipes:', error);
     throw error;
   }
 }
 
+export interface RecipeSearchPage {
+  recipes: LocalRecipe[];
+  /** Pass to the next call to get the following page, null when there are no more */
+  cursor: QueryDocumentSnapshot<DocumentData> | null;
+}
+
+/**
+ * Get one page of recipes containing any of the given ingredient keys
+ */
+export async function searchRecipesByIngredientKeys(
+  ingredientKeys: string[],
+  pageSize: number = SEARCH_PAGE_SIZE,
+  cursor: QueryDocumentSnapshot<DocumentData> | null = null
+): Promise<RecipeSearchPage> {
+  if (ingredientKeys.length === 0) {
+    return { recipes: [], cursor: null };
+  }
+
+  if (ingredientKeys.length > MAX_QUERY_KEYS) {
+    console.warn(`Searching with the first ${MAX_QUERY_KEYS} of ${ingredientKeys.length} ingredient keys`);
+  }
+
+  const constraints = [
+    where('ingredientKeys', 'array-contains-any', ingredientKeys.slice(0, MAX_QUERY_KEYS)),
+    limit(pageSize)
+  ];
+  const recipesQuery = cursor
+    ? query(recipesCollection, ...constraints, startAfter(cursor))
+    : query(recipesCollection, ...constraints);
+
+  const snapshot = await getDocs(recipesQuery);
+  return {
+    recipes: snapshot.docs.map(doc => docToLocalRecipe(doc.id, doc.data())),
+    cursor: snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : null
+  };
+}
+
+/**
+ * Add `ingredientKeys`, a nutrition estimate, cuisines and (where missing)
+ * parsed ingredients to recipe documents saved before ingredient search was indexed.
+ * Returns the number of documents updated.
+ */
+export async function backfillRecipeIngredientKeys(): Promise<number> {
+  let updated = 0;
+  let cursor: QueryDocumentSnapshot<DocumentData> | null = null;
+
+  do {
+    const pageQuery = cursor
+      ? query(recipesCollection, limit(BACKFILL_BATCH_SIZE), startAfter(cursor))
+      : query(recipesCollection, limit(BACKFILL_BATCH_SIZE));
+    const snapshot = await getDocs(pageQuery);
+
+    const batch = writeBatch(db);
+    let batchSize = 0;
+    snapshot.docs.forEach(recipeDoc => {
+      const recipe = docToLocalRecipe(recipeDoc.id, recipeDoc.data());
+      if (!Array.isArray(recipe.ingredients)) return;
+
+      const structuredIngredients = getStructuredIngredients(recipe);
+      batch.update(recipeDoc.ref, {
+        structuredIngredients,
+        ingredientKeys: getIngredientKeys(structuredIngredients.map(ingredient => ingredient.name)),
+        nutrition: recipe.nutrition,
+        cuisines: getRecipeCuisines(recipe)
+      });
+      batchSize++;
+    });
+
+    if (batchSize > 0) {
+      await batch.commit();
+      updated += batchSize;
+      console.log(`Backfilled ingredient keys for ${updated} recipes`);
+    }
+
+    cursor = snapshot.docs.length === BACKFILL_BATCH_SIZE ? snapshot.docs[snapshot.docs.length - 1] : null;
+  } while (cursor);
+
+  return updated;
+}
+
 /**
  * Add a recipe to Firestore
  */
 export async function addRecipe(recipe: Omit<Recipe, 'id'>): Promise<string> {
   try {
     // Convert to LocalRecipe format
-    const localRecipe: Omit<LocalRecipe, 'id'> = {
+    const localRecipe: Omit<LocalRecipe, 'id'> = withNutrition({
       ...recipe,
+      // Importers normally parse already; this covers the ones that don't
+      structuredIngredients: recipe.structuredIngredients?.length
+        ? recipe.structuredIngredients
+        : parseIngredients(recipe.ingredients || []),
       source: RecipeSource.LOCAL
-    };
+    });
+    localRecipe.ingredientKeys = getRecipeIngredientKeys(localRecipe);
+    localRecipe.cuisines = getRecipeCuisines(localRecipe);
 
     const docRef = await addDoc(recipesCollection, localRecipe);
     return docRef.id;
@@ -115,56 +224,46 @@ export async function addRecipe(recipe: Omit<Recipe, 'id'>): Promise<string> {
 }
 
 /**
- * Search for recipes based on ingredients
- * Note: This is a simple implementation - Firestore doesn't support complex array filtering well
- * For production, you might want to use Algolia or a similar service for better search
+ * Search for recipes based on ingredients.
+ * Queries the indexed `ingredientKeys` field for a few pages of candidates,
+ * then ranks that subset on the client.
  */
 export async function searchRecipes(params: RecipeSearchParams): Promise<LocalRecipe[]> {
-  // For now, we'll get all recipes and filter client-side
-  // In production, consider a more scalable approach
-  const allRecipes = await getAllRecipes();
-  
   // Normalize ingredient names for comparison
-  const normalizedIngredients = params.ingredients.map(ing => ing.toLowerCase().trim());
+  const normalizedIngredients = (params.ingredients || []).map(ing => ing.trim()).filter(Boolean);
+  const ingredientKeys = getIngredientKeys(normalizedIngredients);
+
+  const candidates: LocalRecipe[] = [];
+  let cursor: QueryDocumentSnapshot<DocumentData> | null = null;
+  for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+    const result = await searchRecipesByIngredientKeys(ingredientKeys, SEARCH_PAGE_SIZE, cursor);
+    candidates.push(...result.recipes);
+    cursor = result.cursor;
+    if (!cursor) break;
+  }
+  console.log(`Fetched ${candidates.length} candidate recipes for ${ingredientKeys.length} ingredient keys`);
+
+  const countMatches = (recipe: LocalRecipe) => getStructuredIngredients(recipe).filter(recipeIng => {
+    // Match on the parsed name so quantities and prep notes don't get in the way
+    return normalizedIngredients.some(userIng => ingredientsMatch(recipeIng.name, userIng));
+  }).length;
   
   // Filter recipes based on ingredients
-  let matchingRecipes = allRecipes.filter(recipe => {
-    // Count how many ingredients from the recipe match the user's ingredients
-    const matchCount = recipe.ingredients.filter(recipeIng => {
-      // Check if any of the user's ingredients contain this recipe ingredient
-      return normalizedIngredients.some(userIng => 
-        userIng.includes(recipeIng) || recipeIng.includes(userIng)
-      );
-    }).length;
-    
+  const matchingRecipes = candidates.filter(recipe => {
     // Require that at least 2 ingredients match or 30% of the recipe's ingredients
     const minMatchCount = Math.max(2, Math.ceil(recipe.ingredients.length * 0.3));
-    return matchCount >= minMatchCount;
+    if (countMatches(recipe) < minMatchCount) return false;
+
+    // Apply dietary preference filter if specified, checking the ingredients
+    // rather than trusting the stored tags
+    return checkDiet(recipe, params.dietaryPreferences).passed &&
+      checkTime(recipe, params.maxTotalTime).passed &&
+      checkEquipment(recipe, params.equipment).passed &&
+      checkCuisine(recipe, params.cuisines).passed;
   });
   
-  // Apply dietary preference filter if specified
-  if (params.dietaryPreference && params.dietaryPreference !== 'none') {
-    matchingRecipes = matchingRecipes.filter(recipe => {
-      // Map the UI dietary preference values to the tags used in our data
-      const tagMap: Record<string, string[]> = {
-        'vegetarian': ['vegetarian'],
-        'vegan': ['vegan'],
-        'gluten-free': ['gluten-free'],
-        'lactose-free': ['lactose-free', 'dairy-free'],
-        'high-protein': ['high-protein', 'protein-rich'],
-        'low-carb': ['low-carb'],
-        'kosher': ['kosher'],
-        'halal': ['halal'],
-        'atlantic': ['atlantic'],
-        'keto': ['keto', 'ketogenic']
-      };
-      
-      const validTags = tagMap[params.dietaryPreference] || [];
-      return recipe.dietaryTags.some(tag => validTags.includes(tag));
-    });
-  }
-  
-  return matchingRecipes;
+  // Best matches first
+  return matchingRecipes.sort((a, b) => countMatches(b) - countMatches(a));
 }
 
 // Auth methods
@@ -325,20 +424,7 @@ export async function getRecipeById(recipeId: string): Promise<LocalRecipe | nul
       return null;
     }
     
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      title: data.title,
-      description: data.description,
-      ingredients: data.ingredients,
-      image: data.image,
-      prepTime: data.prepTime,
-      cookTime: data.cookTime,
-      servings: data.servings,
-      dietaryTags: data.dietaryTags || [],
-      instructions: data.instructions,
-      source: 'LOCAL' as const
-    } as LocalRecipe;
+    return docToLocalRecipe(docSnap.id, docSnap.data());
   } catch (error) {
     console.error('Error getting recipe:', error);
     throw error;
@@ -351,7 +437,17 @@ export async function getRecipeById(recipeId: string): Promise<LocalRecipe | nul
 export async function updateRecipe(recipeId: string, recipeData: Partial<Recipe>): Promise<boolean> {
   try {
     const docRef = doc(db, 'recipes', recipeId);
-    await updateDoc(docRef, recipeData);
+    // Keep the parsed ingredients and search keys in step with the raw lines
+    const update: Partial<LocalRecipe> = recipeData.ingredients
+      ? {
+          ...recipeData,
+          structuredIngredients: parseIngredients(recipeData.ingredients),
+          ingredientKeys: getRecipeIngredientKeys({ ingredients: recipeData.ingredients }),
+          // Re-estimated from the new ingredients when the recipe is next read
+          nutrition: null
+        } as Partial<LocalRecipe>
+      : recipeData as Partial<LocalRecipe>;
+    await updateDoc(docRef, update);
     return true;
   } catch (error) {
     console.error('Error updating recipe:', error);
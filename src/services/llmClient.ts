@@ -0,0 +1,274 @@
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold, Part } from '@google/generative-ai';
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { LlmBackend, LlmClient, LlmClientOptions, LlmFixture, LlmRequest } from '@/types/llm';
+import { LLM_FIXTURES } from '@/data/llmFixtures';
+import { formatSchemaIssues } from './llmSchemas';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+// Ollama's OpenAI-compatible endpoint; LM Studio and llama.cpp work too
+const LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// How many times a model is shown what was wrong with its answer and asked
+// again before giving up
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const GEMINI_SAFETY_SETTINGS = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE }));
+
+/**
+ * A model call that failed: the request was rejected, or the backend isn't
+ * set up
+ */
+export class LlmError extends Error {
+  constructor(public backend: LlmBackend, message: string, public status?: number) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+/**
+ * A model kept answering with output that doesn't fit the schema, even after
+ * being shown the issues
+ */
+export class LlmOutputError extends LlmError {
+  constructor(backend: LlmBackend, public issues: string[], public attempts: number, public output: string) {
+    super(backend, `Invalid ${backend} response after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${issues.join('; ')}`);
+    this.name = 'LlmOutputError';
+  }
+}
+
+/**
+ * Parse a model's JSON answer, tolerating markdown code fences and text
+ * around the JSON
+ */
+export function parseJsonResponse<T = unknown>(text: string): T {
+  const cleaned = text.replace(/```(?:json)?/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const match = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    if (match) {
+      try {
+        return JSON.parse(match[0]);
+      } catch {
+        // Reported below
+      }
+    }
+    throw new SyntaxError('Model response is not valid JSON');
+  }
+}
+
+/**
+ * Split an image data URL into its MIME type and base64 data
+ */
+function splitDataUrl(dataUrl: string): { mimeType: string; data: string } {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+  if (!match) {
+    throw new Error('Invalid data URL format');
+  }
+  return { mimeType: match[1], data: match[2] };
+}
+
+/**
+ * Give a client both methods from one function that sends a request and
+ * returns the answer's text
+ */
+function toLlmClient(
+  client: Pick<LlmClient, 'backend' | 'model' | 'vision'>,
+  send: (request: LlmRequest) => Promise<string>
+): LlmClient {
+  return {
+    ...client,
+    complete: send,
+    completeJson: async <T>(request: LlmRequest) => parseJsonResponse<T>(await send({ ...request, json: true }))
+  };
+}
+
+/**
+ * Client for OpenAI or any server with the same chat completions API
+ */
+function createOpenAiCompatibleClient(
+  backend: 'openai' | 'local',
+  { apiKey, model, baseUrl }: LlmClientOptions & { model: string; baseUrl: string },
+  vision: boolean
+): LlmClient {
+  return toLlmClient({ backend, model, vision }, async request => {
+    if (backend === 'openai' && !apiKey) {
+      throw new LlmError(backend, 'OpenAI API key not configured');
+    }
+
+    const images = request.images || [];
+    const userContent = images.length > 0
+      ? [{ type: 'text', text: request.prompt }, ...images.map(url => ({ type: 'image_url', image_url: { url } }))]
+      : request.prompt;
+
+    console.log(`🤖 [LLM] ${backend} (${model}) request:`, request.prompt.substring(0, 100) + '...');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          { role: 'user', content: userContent }
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${backend} API error response:`, {
+        status: response.status,
+        statusText: response.statusText,
+        errorText
+      });
+      throw new LlmError(backend, `${backend} API error: ${response.statusText} - ${errorText}`, response.status);
+    }
+
+    const data = await response.json();
+    const content: string | undefined = data.choices?.[0]?.message?.content?.trim();
+    if (!content) {
+      throw new LlmError(backend, `No content in the ${backend} response`);
+    }
+    return content;
+  });
+}
+
+/**
+ * Client for Google's Gemini models
+ */
+function createGeminiClient({ apiKey, model }: LlmClientOptions & { model: string }): LlmClient {
+  return toLlmClient({ backend: 'gemini', model, vision: true }, async request => {
+    if (!apiKey) {
+      throw new LlmError('gemini', 'Gemini API key not found. Please set VITE_GEMINI_API_KEY in your environment.');
+    }
+
+    const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model,
+      safetySettings: GEMINI_SAFETY_SETTINGS,
+      systemInstruction: request.system,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        ...(request.json ? { responseMimeType: 'application/json' } : {})
+      }
+    });
+    const parts: Part[] = [
+      { text: request.prompt },
+      ...(request.images || []).map(url => ({ inlineData: splitDataUrl(url) }))
+    ];
+
+    console.log(`🤖 [LLM] gemini (${model}) request:`, request.prompt.substring(0, 100) + '...');
+    const result = await generativeModel.generateContent(parts);
+    return result.response.text().trim();
+  });
+}
+
+/**
+ * Client that answers from fixtures instead of a model, so AI features work
+ * offline and in tests. The same prompt always gets the same answer.
+ */
+export function createMockLlmClient(fixtures: LlmFixture[] = LLM_FIXTURES): LlmClient {
+  return toLlmClient({ backend: 'mock', model: 'fixtures', vision: true }, async request => {
+    const fixture = fixtures.find(({ match }) => match.test(request.prompt));
+    if (!fixture) {
+      throw new LlmError('mock', `No mock LLM fixture matches the prompt: ${request.prompt.substring(0, 100)}`);
+    }
+    console.log(`🤖 [LLM] mock answered with fixture "${fixture.name}"`);
+    return fixture.response;
+  });
+}
+
+const LLM_BACKENDS: Record<LlmBackend, (options: LlmClientOptions) => LlmClient> = {
+  openai: options => createOpenAiCompatibleClient('openai', {
+    apiKey: options.apiKey ?? import.meta.env.VITE_OPENAI_API_KEY,
+    model: options.model ?? 'gpt-4o',
+    baseUrl: options.baseUrl ?? OPENAI_BASE_URL
+  }, true),
+  local: options => createOpenAiCompatibleClient('local', {
+    apiKey: options.apiKey ?? import.meta.env.VITE_LOCAL_LLM_API_KEY,
+    model: options.model ?? (import.meta.env.VITE_LOCAL_LLM_MODEL || 'llama3.1'),
+    baseUrl: options.baseUrl ?? (import.meta.env.VITE_LOCAL_LLM_URL || LOCAL_BASE_URL)
+  }, import.meta.env.VITE_LOCAL_LLM_VISION === 'true'),
+  gemini: options => createGeminiClient({
+    apiKey: options.apiKey ?? import.meta.env.VITE_GEMINI_API_KEY,
+    model: options.model ?? 'gemini-2.0-flash'
+  }),
+  mock: () => createMockLlmClient()
+};
+
+/**
+ * The backend set for the whole app with VITE_LLM_BACKEND, if any. Tests use
+ * the mock unless told otherwise.
+ */
+function getConfiguredBackend(): LlmBackend | null {
+  const configured = import.meta.env.VITE_LLM_BACKEND;
+  if (configured && configured in LLM_BACKENDS) return configured as LlmBackend;
+  return import.meta.env.MODE === 'test' ? 'mock' : null;
+}
+
+/**
+ * Get a client for the backend a feature prefers, unless VITE_LLM_BACKEND
+ * sends every feature to one backend (e.g. "mock" or "local"). `options`
+ * only apply to the preferred backend, since model names don't carry over.
+ */
+export function getLlmClient(preferred: LlmBackend, options: LlmClientOptions = {}): LlmClient {
+  const backend = getConfiguredBackend() ?? preferred;
+  return LLM_BACKENDS[backend](backend === preferred ? options : {});
+}
+
+/**
+ * Ask for JSON and check it against a schema. When the answer isn't valid
+ * JSON or doesn't fit, the model is shown its answer and the issues and asked
+ * again, up to `maxRepairs` times; after that an LlmOutputError is thrown.
+ */
+export async function completeWithSchema<T>(
+  client: LlmClient,
+  request: LlmRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  maxRepairs = MAX_REPAIR_ATTEMPTS
+): Promise<T> {
+  let prompt = request.prompt;
+  let output = '';
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    output = await client.complete({ ...request, prompt, json: true });
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(output);
+    } catch (error) {
+      issues = [error instanceof Error ? error.message : 'Model response is not valid JSON'];
+    }
+
+    if (parsed !== undefined) {
+      const result = schema.safeParse(parsed);
+      if (result.success) return result.data;
+      issues = formatSchemaIssues(result.error);
+    }
+
+    console.warn(`🔧 [LLM] ${client.backend} response failed validation (attempt ${attempt}):`, issues);
+    prompt = `${request.prompt}
+
+Your previous answer was:
+${output}
+
+It was rejected for these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Answer again with corrected JSON only, in the structure asked for above.`;
+  }
+
+  throw new LlmOutputError(client.backend, issues, maxRepairs + 1, output);
+}
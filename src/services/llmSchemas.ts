@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+// Shapes the app asks models for. Every AI answer is checked against one of
+// these before it's used, and the issues go back to the model when it isn't.
+
+const nonEmptyString = z.string().trim().min(1);
+
+// Models sometimes give numbers as strings ("4"), strings as numbers (2),
+// words around the number ("about 3", "1/2 bunch") or no number at all
+// ("some"). The number is kept when there is one; otherwise it's 1.
+const quantitySchema = z.union([z.string(), z.number()]).nullish()
+  .transform(quantity => {
+    const match = String(quantity ?? '').match(/(\d+)\s*\/\s*(\d+)|\d+(?:\.\d+)?/);
+    const value = match?.[2] ? Number(match[1]) / Number(match[2]) : Number(match?.[0]);
+    return String(value > 0 ? value : 1);
+  });
+
+/**
+ * A recipe written by a model from the user's ingredients
+ */
+export const GeneratedRecipeSchema = z.object({
+  title: nonEmptyString,
+  description: z.string().default(''),
+  ingredients: z.array(nonEmptyString).min(1),
+  instructions: z.array(nonEmptyString).min(1),
+  prepTime: z.string().default(''),
+  cookTime: z.string().default(''),
+  servings: z.coerce.number().int().positive(),
+  dietaryTags: z.array(z.string()).default([]),
+  /** The model's own classification, one of the labels we offer */
+  cuisine: z.string().optional()
+});
+
+export type GeneratedRecipe = z.infer<typeof GeneratedRecipeSchema>;
+
+export const IdentifiedIngredientSchema = z.object({
+  name: nonEmptyString,
+  quantity: quantitySchema,
+  // Blank or missing for things that are just counted
+  unit: z.string().nullish().transform(unit => unit?.trim() || 'pieces')
+});
+
+export type IdentifiedIngredient = z.infer<typeof IdentifiedIngredientSchema>;
+
+/**
+ * Ingredients a model found in a photo. Some models answer with the bare
+ * array rather than the object asked for, which is accepted too. Items that
+ * still don't fit (no name) are dropped rather than failing the whole scan;
+ * only a list with nothing usable in it is rejected.
+ */
+export const IdentifiedIngredientsSchema = z.preprocess(
+  value => (Array.isArray(value) ? { ingredients: value } : value),
+  z.object({
+    ingredients: z.array(z.unknown()).transform((items, ctx) => {
+      const ingredients: IdentifiedIngredient[] = [];
+      items.forEach((item, index) => {
+        const result = IdentifiedIngredientSchema.safeParse(item);
+        if (result.success) {
+          ingredients.push(result.data);
+        } else {
+          console.warn(`🔧 [LLM] Dropped identified ingredient ${index}:`, formatSchemaIssues(result.error));
+        }
+      });
+
+      if (items.length > 0 && ingredients.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'no ingredient has a name' });
+        return z.NEVER;
+      }
+      return ingredients;
+    })
+  })
+);
+
+/**
+ * A recipe in the external import format, as extracted from a web page or
+ * pasted in by hand. Field names vary between sources, so the alternatives
+ * `convertExternalRecipeFormat` reads are kept.
+ */
+export const ExternalRecipeSchema = z.object({
+  title: nonEmptyString,
+  description: z.string().optional(),
+  ingredients: z.array(nonEmptyString).min(1),
+  instructions: z.array(z.union([
+    nonEmptyString,
+    z.object({ step: nonEmptyString, image_url: z.string().optional() })
+  ])).min(1),
+  servings: z.union([z.number(), z.string()]).optional(),
+  cuisine: z.union([z.string(), z.array(z.string())]).optional(),
+  cuisines: z.array(z.string()).optional()
+}).passthrough();
+
+export type ExternalRecipe = z.infer<typeof ExternalRecipeSchema>;
+
+/**
+ * What the recipe extractor asks for: a recipe, or an error when the page
+ * couldn't be read. The recipe comes last so its issues are the ones reported.
+ */
+export const RecipeExtractionSchema = z.union([
+  z.object({ error: nonEmptyString }).strict(),
+  ExternalRecipeSchema
+]);
+
+/**
+ * List a validation failure's issues, e.g. "ingredients.2: Required". For a
+ * union, the issues against its last alternative are listed.
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.flatMap(issue => issue.code === 'invalid_union'
+    ? formatSchemaIssues(issue.unionErrors[issue.unionErrors.length - 1])
+    : [`${issue.path.join('.') || 'response'}: ${issue.message}`]);
+}
@@ -0,0 +1,173 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { collection, doc, getDocs, setDoc, deleteDoc, writeBatch } from 'firebase/firestore';
+import { db, useAuthStore } from './firebaseService';
+import type { PantryItem, PantryUsage } from '@/types/ingredient';
+import { mergePantryItems, NewPantryItem } from '@/utils/pantry';
+
+interface PantryStore {
+  items: PantryItem[];
+  // User the current pantry was loaded for, null in local-only mode
+  pantryUserId: string | null;
+  isLoading: boolean;
+  /** Add items, topping up ones already in the pantry */
+  addItems: (items: NewPantryItem[]) => PantryItem[];
+  updateItem: (id: string, changes: Partial<Omit<PantryItem, 'id'>>) => void;
+  removeItem: (id: string) => void;
+  /** Take used amounts out of the pantry, removing items that are used up */
+  consumeItems: (usage: PantryUsage[]) => void;
+  clearPantry: () => void;
+  loadPantry: (userId: string) => Promise<void>;
+}
+
+const pantryCollection = (userId: string) => collection(db, 'users', userId, 'pantry');
+
+/**
+ * Get every item in the user's pantry, or null if it couldn't be loaded
+ */
+export async function getPantryItems(userId: string): Promise<PantryItem[] | null> {
+  try {
+    const snapshot = await getDocs(pantryCollection(userId));
+    return snapshot.docs.map(pantryDoc => ({ ...pantryDoc.data(), id: pantryDoc.id } as PantryItem));
+  } catch (error) {
+    console.error('Error loading pantry:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or replace pantry items in Firestore
+ */
+export async function savePantryItems(userId: string, items: PantryItem[]): Promise<void> {
+  if (items.length === 0) return;
+  try {
+    const batch = writeBatch(db);
+    for (const { id, ...data } of items) {
+      batch.set(doc(pantryCollection(userId), id), data);
+    }
+    await batch.commit();
+  } catch (error) {
+    console.error('Error saving pantry items:', error);
+  }
+}
+
+/**
+ * Update a single pantry item in Firestore
+ */
+export async function updatePantryItem(userId: string, id: string, changes: Partial<Omit<PantryItem, 'id'>>): Promise<void> {
+  try {
+    await setDoc(doc(pantryCollection(userId), id), changes, { merge: true });
+  } catch (error) {
+    console.error('Error updating pantry item:', error);
+  }
+}
+
+/**
+ * Delete a pantry item from Firestore
+ */
+export async function deletePantryItem(userId: string, id: string): Promise<void> {
+  try {
+    await deleteDoc(doc(pantryCollection(userId), id));
+  } catch (error) {
+    console.error('Error deleting pantry item:', error);
+  }
+}
+
+// Signed-in users' changes go to Firestore; anonymous users' pantries live in
+// localStorage only
+const getSignedInUserId = (): string | null => useAuthStore.getState().user?.uid ?? null;
+
+// User whose pantry was fetched this session. The persisted pantry may be
+// stale (edited on another device), so it's always refetched once per session.
+let fetchedUserId: string | null = null;
+
+export const usePantryStore = create<PantryStore>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      pantryUserId: null,
+      isLoading: false,
+      addItems: (additions) => {
+        const { items, changed } = mergePantryItems(get().items, additions);
+        set({ items });
+
+        const userId = getSignedInUserId();
+        if (userId) savePantryItems(userId, changed);
+        return changed;
+      },
+      updateItem: (id, changes) => {
+        set({ items: get().items.map(item => item.id === id ? { ...item, ...changes } : item) });
+
+        const userId = getSignedInUserId();
+        if (userId) updatePantryItem(userId, id, changes);
+      },
+      removeItem: (id) => {
+        set({ items: get().items.filter(item => item.id !== id) });
+
+        const userId = getSignedInUserId();
+        if (userId) deletePantryItem(userId, id);
+      },
+      consumeItems: (usage) => {
+        for (const { itemId, remaining } of usage) {
+          if (remaining > 0) {
+            get().updateItem(itemId, { quantity: remaining });
+          } else {
+            get().removeItem(itemId);
+          }
+        }
+      },
+      clearPantry: () => {
+        const { items } = get();
+        set({ items: [] });
+
+        const userId = getSignedInUserId();
+        if (userId) items.forEach(item => deletePantryItem(userId, item.id));
+      },
+      loadPantry: async (userId) => {
+        fetchedUserId = userId;
+        set({ isLoading: true });
+        const stored = await getPantryItems(userId);
+        if (!stored) {
+          // Offline or failed; keep working from the cached pantry
+          set({ isLoading: false });
+          return;
+        }
+        console.log('Loaded pantry:', stored.length, 'items');
+
+        // Bring along anything added in local-only mode before signing in
+        const localItems = get().pantryUserId ? [] : get().items;
+        const { items, changed } = mergePantryItems(stored, localItems);
+        set({ items, pantryUserId: userId, isLoading: false });
+        savePantryItems(userId, changed);
+      }
+    }),
+    {
+      name: 'pantry-storage',
+      partialize: (state) => ({ items: state.items, pantryUserId: state.pantryUserId })
+    }
+  )
+);
+
+// Initialize the service
+export const initializePantryService = () => {
+  const { user } = useAuthStore.getState();
+  if (user) {
+    usePantryStore.getState().loadPantry(user.uid);
+  }
+
+  // Load the signed-in user's pantry, start an empty local one on sign-out
+  return useAuthStore.subscribe((state) => {
+    const { user } = state;
+    const { pantryUserId, loadPantry } = usePantryStore.getState();
+
+    if (user && user.uid !== fetchedUserId) {
+      loadPantry(user.uid);
+    } else if (!user && pantryUserId) {
+      fetchedUserId = null;
+      usePantryStore.setState({ items: [], pantryUserId: null });
+    }
+  });
+};
+
+// Initialize on load
+initializePantryService();
@@ -0,0 +1,95 @@
+import { Recipe, RecipeSearchParams } from '@/types/recipe';
+import { searchSpoonacularRecipes } from './spoonacularService';
+import { searchRecipes } from './recipeService';
+import { generateRecipeWithOpenAI } from './openaiService';
+
+/**
+ * A source of recipe recommendations. Providers are registered once and the
+ * recommendation pipeline queries every enabled provider in parallel.
+ */
+export interface RecipeProvider {
+  /** Unique name, used in provider settings and logs */
+  name: string;
+  /** Relative cost of one search (API credits, tokens); 0 for free sources */
+  cost: number;
+  /** How long a search may take before the provider is skipped */
+  timeoutMs: number;
+  /**
+   * Find recipes for the ingredients in `params`. Every filter is checked
+   * again on the results, so providers that can't apply one may ignore it.
+   */
+  search: (params: RecipeSearchParams) => Promise<Recipe[]>;
+}
+
+/**
+ * Per-provider settings for a recommendation run. Providers are queried in
+ * the order listed, and `weight` scales each provider's recipe scores so
+ * preferred sources rank higher when coverage is equal.
+ */
+export interface ProviderSettings {
+  name: string;
+  weight: number;
+  enabled?: boolean;
+}
+
+const providers = new Map<string, RecipeProvider>();
+
+/**
+ * Register a recipe provider, replacing any provider with the same name
+ */
+export function registerRecipeProvider(provider: RecipeProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Remove a recipe provider from the registry
+ */
+export function unregisterRecipeProvider(name: string): void {
+  providers.delete(name);
+}
+
+/**
+ * Get a registered provider by name
+ */
+export function getRecipeProvider(name: string): RecipeProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Get all registered providers, in registration order
+ */
+export function getRecipeProviders(): RecipeProvider[] {
+  return [...providers.values()];
+}
+
+// Spoonacular recipes have images and reliable ingredient lists, so they rank
+// highest; AI recipes are built from the user's ingredients but unverified
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings[] = [
+  { name: 'spoonacular', weight: 1 },
+  { name: 'openai', weight: 0.9 },
+  { name: 'local', weight: 0.8 }
+];
+
+registerRecipeProvider({
+  name: 'spoonacular',
+  cost: 1,
+  timeoutMs: 8000,
+  search: params => searchSpoonacularRecipes(params)
+});
+
+registerRecipeProvider({
+  name: 'openai',
+  cost: 5,
+  timeoutMs: 20000,
+  search: async params => {
+    const recipe = await generateRecipeWithOpenAI(params);
+    return recipe ? [recipe] : [];
+  }
+});
+
+registerRecipeProvider({
+  name: 'local',
+  cost: 0,
+  timeoutMs: 5000,
+  search: params => searchRecipes(params)
+});
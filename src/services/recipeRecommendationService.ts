@@ -1,132 +1,215 @@
-import { Recipe } from '@/types/recipe';
-import { searchSpoonacularRecipes } from './spoonacularService';
-import { searchRecipes } from './recipeService';
-import { generateRecipeWithOpenAI } from './openaiService';
-import { calculateIngredientCoverage } from '../utils/recipeUtils';
+import { Recipe, RecipePlan, RecipeSearchParams } from '@/types/recipe';
+import { calculateIngredientCoverage, UserIngredientInput } from '../utils/recipeUtils';
+import { usePreferencesStore } from './userPreferencesService';
+import { attachMatchReports, meetsRequirements, WASTE_WEIGHT } from '../utils/matchReport';
+import { planRecipes, PlanOptions } from '../utils/recipePlanner';
+import { calculateWasteScore, sortByExpiry } from '../utils/expiry';
+import { excludeAllergenRecipes, getAllergenNames } from '../utils/allergens';
+import type { AllergenProfile } from '@/types/diet';
+import type { Equipment } from '@/types/equipment';
+import type { Cuisine } from '@/types/cuisine';
+import { getRecipeProvider, DEFAULT_PROVIDER_SETTINGS, ProviderSettings, RecipeProvider } from './recipeProviders';
 
 export interface RecommendationOptions {
-  threshold?: number;
   maxResults?: number;
+  /** Ingredients treated as always owned, defaults to the user's saved staples */
+  pantryStaples?: string[];
+  /** Which providers to query, in order of preference, and how to weight them */
+  providers?: ProviderSettings[];
+  /** Overall time limit; providers that haven't answered by then are skipped */
+  deadlineMs?: number;
+  /** Skip providers once their combined cost would exceed this */
+  costBudget?: number;
+  /** Used for the calorie check in each recipe's match report */
+  calorieLimit?: number;
+  /** Longest total time in minutes; passed to providers and checked in each match report */
+  maxTotalTime?: number;
+  /** Recipes containing these are dropped, defaults to the user's saved allergens */
+  allergens?: AllergenProfile;
+  /** What the user's kitchen has, defaults to their saved equipment */
+  equipment?: Equipment[];
+  /** Cuisines the user wants; passed to providers and checked in each match report */
+  cuisines?: Cuisine[];
+}
+
+const DEFAULT_MAX_RESULTS = 10;
+const DEFAULT_DEADLINE_MS = 25000;
+// The planner needs a wider pool than the usual top 10 to find recipes that
+// complement each other
+const PLAN_CANDIDATES = 30;
+
+interface ScoredRecipe {
+  recipe: Recipe;
+  score: number;
+  // Position of the provider in the settings, used to break ties
+  providerRank: number;
 }
 
 /**
- * Count how many ingredients from the recipe match the user's ingredients
+ * Resolve with the promise's result, or reject once `ms` has passed
  */
-function countMatchingIngredients(recipe: Recipe, userIngredients: string[]): number {
-  const normalizedUserIngredients = userIngredients.map(ing => ing.toLowerCase().trim());
-  
-  return recipe.ingredients.filter(recipeIng => {
-    const normalizedRecipeIng = recipeIng.toLowerCase().trim();
-    return normalizedUserIngredients.some(userIng => 
-      normalizedRecipeIng.includes(userIng) || userIng.includes(normalizedRecipeIng)
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
     );
-  }).length;
+  });
+}
+
+/**
+ * Key used to spot the same recipe coming from more than one provider
+ */
+function getDedupeKey(recipe: Recipe): string {
+  if (recipe.sourceUrl) {
+    return recipe.sourceUrl.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+  }
+  return recipe.title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Pick the providers to query: enabled, registered, and within the cost budget
+ */
+function selectProviders(settings: ProviderSettings[], costBudget: number): { provider: RecipeProvider; settings: ProviderSettings }[] {
+  const selected: { provider: RecipeProvider; settings: ProviderSettings }[] = [];
+  let totalCost = 0;
+
+  for (const providerSettings of settings) {
+    if (providerSettings.enabled === false) continue;
+
+    const provider = getRecipeProvider(providerSettings.name);
+    if (!provider) {
+      console.warn(`⚠️ [RECIPE-SERVICE] Unknown recipe provider: ${providerSettings.name}`);
+      continue;
+    }
+    if (totalCost + provider.cost > costBudget) {
+      console.log(`💰 [RECIPE-SERVICE] Skipping ${provider.name}, over cost budget`);
+      continue;
+    }
+
+    totalCost += provider.cost;
+    selected.push({ provider, settings: providerSettings });
+  }
+  return selected;
 }
 
 /**
- * Recommends recipes based on available ingredients using a three-layer approach:
- * 1. First tries Spoonacular API (high-quality recipes with images)
- * 2. If insufficient results, tries ChatGPT (AI-generated recipes)
- * 3. If still insufficient, falls back to local database (last resort)
- * 
- * Returns a maximum of 3 recipes total, combined from all sources.
+ * Recommends recipes based on available ingredients.
+ * Every configured provider (Spoonacular, ChatGPT and the local database by
+ * default) is queried in parallel under a global deadline. The results are
+ * merged, duplicates dropped, and everything is ranked by ingredient coverage
+ * (boosted for recipes that use up food about to expire) scaled by the
+ * provider's weight. Each recipe comes back with a match report.
  */
 export const recommendRecipesFromIngredients = async (
-  ingredients: string[],
-  dietaryFilter?: string,
+  userIngredients: UserIngredientInput[],
+  dietaryFilters: string[] = [],
   options: RecommendationOptions = {}
 ): Promise<Recipe[]> => {
   const {
-    maxResults = 3
+    maxResults = DEFAULT_MAX_RESULTS,
+    pantryStaples = usePreferencesStore.getState().pantryStaples,
+    providers = DEFAULT_PROVIDER_SETTINGS,
+    deadlineMs = DEFAULT_DEADLINE_MS,
+    costBudget = Infinity,
+    calorieLimit,
+    maxTotalTime,
+    allergens = usePreferencesStore.getState(),
+    equipment = usePreferencesStore.getState().equipment,
+    cuisines = []
   } = options;
 
-  // Track how many recipes we've collected so far
-  let collectedRecipes: Recipe[] = [];
-  let remainingCount = maxResults;
-
-  try {
-    // Layer 1: Try Spoonacular API first (high-quality recipes with images)
-    try {
-      console.log('🔍 [RECIPE-SERVICE] Attempting to fetch recipes from Spoonacular...');
-      const spoonacularRecipes = await searchSpoonacularRecipes(ingredients, dietaryFilter);
-      console.log('📊 [RECIPE-SERVICE] Spoonacular recipes received:', spoonacularRecipes.length);
-      
-      // Sort Spoonacular recipes by coverage
-      const sortedSpoonacularRecipes = spoonacularRecipes
-        .sort((a, b) => {
-          const coverageA = calculateIngredientCoverage(a, ingredients);
-          const coverageB = calculateIngredientCoverage(b, ingredients);
-          return coverageB - coverageA;
-        });
-
-      // Add Spoonacular recipes to our collection
-      collectedRecipes = [...collectedRecipes, ...sortedSpoonacularRecipes.slice(0, remainingCount)];
-      const spoonacularRecipesAdded = Math.min(sortedSpoonacularRecipes.length, remainingCount);
-      remainingCount = maxResults - collectedRecipes.length;
-
-      console.log(`📊 [RECIPE-SERVICE] Spoonacular recipes added: ${spoonacularRecipesAdded}, remaining slots: ${remainingCount}`);
-
-      // If we've reached our max, return early
-      if (remainingCount <= 0) {
-        return collectedRecipes;
-      }
-    } catch (error) {
-      console.warn('Spoonacular API error:', error);
-      console.log('Spoonacular API failed, trying ChatGPT...');
-    }
+  // Sources search by name, most urgent first; amounts are only used for scoring
+  const ingredients = sortByExpiry(userIngredients).map(ingredient => ingredient.name);
+  const selectedProviders = selectProviders(providers, costBudget);
+  const searchParams: RecipeSearchParams = {
+    ingredients,
+    dietaryPreferences: dietaryFilters,
+    excludedIngredients: getAllergenNames(allergens),
+    maxTotalTime,
+    equipment,
+    cuisines
+  };
+  const startedAt = Date.now();
 
-    // Layer 2: Try ChatGPT (AI-generated recipes)
-    if (remainingCount > 0) {
-      try {
-        console.log('🤖 [RECIPE-SERVICE] Attempting to generate recipe with ChatGPT...');
-        const aiRecipe = await generateRecipeWithOpenAI(ingredients, dietaryFilter);
-        if (aiRecipe) {
-          console.log('✅ [RECIPE-SERVICE] Successfully generated recipe with ChatGPT');
-          collectedRecipes = [...collectedRecipes, aiRecipe];
-          remainingCount = maxResults - collectedRecipes.length;
-        } else {
-          console.log('⚠️ [RECIPE-SERVICE] ChatGPT failed to generate a recipe');
-        }
-      } catch (error) {
-        console.error('❌ [RECIPE-SERVICE] Error generating recipe with ChatGPT:', error);
-      }
+  console.log('🔍 [RECIPE-SERVICE] Querying providers:', selectedProviders.map(({ provider }) => provider.name));
+
+  const results = await Promise.allSettled(
+    selectedProviders.map(({ provider }) =>
+      withTimeout(provider.search(searchParams), Math.min(provider.timeoutMs, deadlineMs), provider.name)
+    )
+  );
+
+  // Merge, keeping the best-scoring copy of each recipe
+  const merged = new Map<string, ScoredRecipe>();
+  results.forEach((result, providerRank) => {
+    const { provider, settings } = selectedProviders[providerRank];
+
+    if (result.status === 'rejected') {
+      console.warn(`❌ [RECIPE-SERVICE] ${provider.name} failed:`, result.reason);
+      return;
     }
+    console.log(`📊 [RECIPE-SERVICE] ${provider.name} returned ${result.value.length} recipes`);
 
-    // Layer 3: Fall back to local database (last resort)
-    if (remainingCount > 0) {
-      try {
-        console.log('📚 [RECIPE-SERVICE] Falling back to local database...');
-        const localRecipes = await searchRecipes({
-          ingredients,
-          dietaryPreference: dietaryFilter,
-          maxResults: remainingCount
-        });
-
-        // Sort local recipes by coverage
-        const sortedLocalRecipes = localRecipes
-          .sort((a, b) => {
-            const coverageA = calculateIngredientCoverage(a, ingredients);
-            const coverageB = calculateIngredientCoverage(b, ingredients);
-            return coverageB - coverageA;
-          });
-
-        // Add local recipes to our collection
-        collectedRecipes = [...collectedRecipes, ...sortedLocalRecipes.slice(0, remainingCount)];
-        const localRecipesAdded = Math.min(sortedLocalRecipes.length, remainingCount);
-        remainingCount = maxResults - collectedRecipes.length;
-
-        console.log(`�� [RECIPE-SERVICE] Local recipes added: ${localRecipesAdded}, remaining slots: ${remainingCount}`);
-      } catch (error) {
-        console.error('❌ [RECIPE-SERVICE] Error searching local recipes:', error);
+    // Allergens are a hard exclusion, whatever the provider was told
+    for (const recipe of excludeAllergenRecipes(result.value, allergens)) {
+      const coverage = calculateIngredientCoverage(recipe, userIngredients, pantryStaples, dietaryFilters);
+      const score = (coverage + WASTE_WEIGHT * calculateWasteScore(recipe, userIngredients)) * settings.weight;
+      const key = getDedupeKey(recipe);
+      const existing = merged.get(key);
+      if (!existing || score > existing.score) {
+        merged.set(key, { recipe, score, providerRank });
       }
     }
+  });
 
-    // Return all collected recipes (max of maxResults)
-    console.log(`📊 [RECIPE-SERVICE] Total recipes collected: ${collectedRecipes.length}`);
-    return collectedRecipes;
+  const ranked = attachMatchReports(
+    [...merged.values()]
+      .sort((a, b) => (b.score - a.score) || (a.providerRank - b.providerRank))
+      .slice(0, maxResults)
+      .map(({ recipe }) => recipe),
+    userIngredients,
+    { pantryStaples, dietaryFilters, calorieLimit, maxTotalTime, equipment, cuisines }
+  );
 
-  } catch (error) {
-    console.error('❌ [RECIPE-SERVICE] Error recommending recipes:', error);
-    return collectedRecipes.length > 0 ? collectedRecipes : []; // Return what we have, even if there was an error
-  }
+  console.log(`📊 [RECIPE-SERVICE] Total recipes collected: ${ranked.length} in ${Date.now() - startedAt}ms`);
+  return ranked;
 };
+
+/**
+ * Plan a few recipes that together use up as much of the user's food as
+ * possible, weighting larger amounts and food that's about to expire.
+ * Candidates come from the same providers as the recommendations; recipes
+ * that fail the user's diet, calorie or time limit, need equipment they
+ * don't have or aren't a cuisine they picked are left out.
+ */
+export const planRecipesFromIngredients = async (
+  userIngredients: UserIngredientInput[],
+  dietaryFilters: string[] = [],
+  options: RecommendationOptions & PlanOptions = {}
+): Promise<RecipePlan> => {
+  const { pantryStaples = usePreferencesStore.getState().pantryStaples } = options;
+
+  const candidates = await recommendRecipesFromIngredients(userIngredients, dietaryFilters, {
+    ...options,
+    pantryStaples,
+    maxResults: options.maxResults ?? PLAN_CANDIDATES
+  });
+
+  const plan = planRecipes(
+    candidates.filter(recipe => !recipe.matchReport || meetsRequirements(recipe.matchReport)),
+    userIngredients,
+    { ...options, pantryStaples, dietaryFilters }
+  );
+
+  console.log(`🗓️ [RECIPE-SERVICE] Planned ${plan.recipes.length} recipes using ${Math.round(plan.coverage * 100)}% of ingredients, unused:`, plan.unusedIngredients);
+  return plan;
+};
+
@@ -3,6 +3,12 @@ import { searchRecipes as searchFirebaseRecipes } from './firebaseService';
 import { Recipe, RecipeSource, LocalRecipe, RecipeSearchParams, BaseRecipe } from '@/types/recipe';
 import { doc, setDoc, getDoc, updateDoc, collection, query, where, getDocs, arrayUnion, arrayRemove } from 'firebase/firestore';
 import { db } from './firebaseService';
+import { parseIngredients } from '@/utils/ingredientParser';
+import { withNutrition } from '@/utils/nutrition';
+import { classifyCuisine } from '@/utils/cuisine';
+import { getStructuredIngredients } from '@/utils/recipeUtils';
+import { ingredientsMatch } from '@/utils/ingredientMatcher';
+import { checkCuisine, checkDiet, checkEquipment, checkTime } from '@/utils/matchReport';
 
 /**
  * Find recipes in our database that match the given ingredients and preferences
@@ -25,50 +31,48 @@ export async function findMatchingRecipes(params: RecipeSearchParams): Promise<R
  * Search local recipes without using Firebase
  */
 function searchLocalRecipes(params: RecipeSearchParams): Recipe[] {
-  const { ingredients = [], dietaryPreference } = params;
+  const { ingredients = [], dietaryPreferences, maxTotalTime, equipment, cuisines } = params;
   
   if (!ingredients.length) {
     return [];
   }
 
+  const countMatches = (recipe: Recipe) => {
+    const recipeIngredients = getStructuredIngredients(recipe);
+    return ingredients.filter(ingredient =>
+      recipeIngredients.some(recipeIngredient => ingredientsMatch(recipeIngredient.name, ingredient))
+    ).length;
+  };
+
   return recipesData
     .map(convertToLocalRecipe)
     .filter(recipe => {
-      // Filter by ingredients
-      const matchedIngredients = ingredients.filter(ingredient =>
-        recipe.ingredients.some(recipeIngredient =>
-          recipeIngredient.toLowerCase().includes(ingredient.toLowerCase())
-        )
-      );
-      
       // Must match at least one ingredient
-      if (matchedIngredients.length === 0) {
+      if (countMatches(recipe) === 0) {
         return false;
       }
       
       // Filter by dietary preference if specified
-      if (dietaryPreference && !recipe.dietaryTags.includes(dietaryPreference)) {
+      if (!checkDiet(recipe, dietaryPreferences).passed) {
+        return false;
+      }
+
+      if (!checkTime(recipe, maxTotalTime).passed) {
+        return false;
+      }
+
+      if (!checkEquipment(recipe, equipment).passed) {
+        return false;
+      }
+
+      if (!checkCuisine(recipe, cuisines).passed) {
         return false;
       }
       
       return true;
     })
-    .sort((a, b) => {
-      // Sort by number of matching ingredients (descending)
-      const aMatches = ingredients.filter(ingredient =>
-        a.ingredients.some(recipeIngredient =>
-          recipeIngredient.toLowerCase().includes(ingredient.toLowerCase())
-        )
-    ).length;
-    
-      const bMatches = ingredients.filter(ingredient =>
-        b.ingredients.some(recipeIngredient =>
-          recipeIngredient.toLowerCase().includes(ingredient.toLowerCase())
-        )
-    ).length;
-    
-      return bMatches - aMatches;
-  });
+    // Sort by number of matching ingredients (descending)
+    .sort((a, b) => countMatches(b) - countMatches(a));
 }
 
 /**
@@ -133,11 +137,14 @@ interface RawRecipe {
 
 // Convert raw recipe data to LocalRecipe type
 function convertToLocalRecipe(rawRecipe: RawRecipe): LocalRecipe {
-  return {
+  const structuredIngredients = parseIngredients(rawRecipe.ingredients || []);
+  return withNutrition({
     ...rawRecipe,
+    structuredIngredients,
+    cuisines: classifyCuisine({ ...rawRecipe, structuredIngredients }),
     source: RecipeSource.LOCAL,
     dietaryTags: rawRecipe.dietaryTags || []
-  };
+  });
 }
 
 export async function getAllRecipes(): Promise<LocalRecipe[]> {
@@ -165,16 +172,29 @@ export async function searchRecipes(params: RecipeSearchParams): Promise<LocalRe
     
     return recipes.filter(recipe => {
       // Apply dietary filter if specified
-      if (params.dietaryPreference && !recipe.dietaryTags.includes(params.dietaryPreference)) {
+      if (!checkDiet(recipe, params.dietaryPreferences).passed) {
+        return false;
+      }
+
+      // Apply time limit if specified
+      if (!checkTime(recipe, params.maxTotalTime).passed) {
+        return false;
+      }
+
+      // Leave out recipes needing equipment the user doesn't have
+      if (!checkEquipment(recipe, params.equipment).passed) {
+        return false;
+      }
+
+      // Keep to the cuisines the user picked
+      if (!checkCuisine(recipe, params.cuisines).passed) {
         return false;
       }
       
       // Apply ingredient filter if specified
       if (params.ingredients && params.ingredients.length > 0) {
-        const hasMatchingIngredients = recipe.ingredients.some(recipeIng =>
-          params.ingredients.some(userIng =>
-            recipeIng.toLowerCase().includes(userIng.toLowerCase())
-          )
+        const hasMatchingIngredients = getStructuredIngredients(recipe).some(recipeIng =>
+          params.ingredients.some(userIng => ingredientsMatch(recipeIng.name, userIng))
         );
         if (!hasMatchingIngredients) return false;
       }
@@ -208,8 +228,11 @@ export const saveRecipe = async (userId: string, recipe: Recipe): Promise<boolea
       dietaryTags: Array.isArray(recipe.dietaryTags) ? recipe.dietaryTags : [],
       prepTime: recipe.prepTime || '',
       cookTime: recipe.cookTime || '',
+      totalTime: recipe.totalTime || '',
       servings: recipe.servings || 0,
       calories: recipe.calories || 0,
+      nutrition: recipe.nutrition ?? null,
+      cuisines: recipe.cuisines || [],
       source: recipe.source || 'LOCAL',
       savedAt: new Date().toISOString()
     };
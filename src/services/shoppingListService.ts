@@ -0,0 +1,148 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db, useAuthStore } from './firebaseService';
+import { usePreferencesStore } from './userPreferencesService';
+import type { Recipe } from '@/types/recipe';
+import type { ShoppingListItem } from '@/types/shoppingList';
+import { getRecipeShoppingItems, mergeShoppingItems } from '@/utils/shoppingList';
+import type { UserIngredientInput } from '@/utils/recipeUtils';
+
+interface ShoppingListStore {
+  items: ShoppingListItem[];
+  // User the current list was loaded for, null when signed out
+  listUserId: string | null;
+  /** Add what's missing for a recipe; returns how many items were added or topped up */
+  addRecipe: (recipe: Recipe, userIngredients: UserIngredientInput[], scale?: number) => number;
+  addItems: (items: ShoppingListItem[]) => void;
+  toggleItem: (id: string) => void;
+  removeItem: (id: string) => void;
+  clearChecked: () => void;
+  clearList: () => void;
+  loadShoppingList: (userId: string) => Promise<void>;
+}
+
+/**
+ * Save the user's shopping list to their Firestore document
+ */
+export async function saveShoppingList(userId: string, items: ShoppingListItem[]): Promise<void> {
+  try {
+    const userDocRef = doc(db, 'users', userId);
+    await setDoc(userDocRef, { shoppingList: items }, { merge: true });
+  } catch (error) {
+    console.error('Error saving shopping list:', error);
+  }
+}
+
+/**
+ * Get the user's shopping list from Firestore (empty if none is stored yet),
+ * or null if it couldn't be loaded
+ */
+export async function getShoppingList(userId: string): Promise<ShoppingListItem[] | null> {
+  try {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    if (!userDoc.exists()) return [];
+    return userDoc.data().shoppingList || [];
+  } catch (error) {
+    console.error('Error loading shopping list:', error);
+    return null;
+  }
+}
+
+// Push a change to Firestore when someone is signed in; signed-out users keep
+// their list in localStorage only
+const syncShoppingList = (items: ShoppingListItem[]) => {
+  const { user } = useAuthStore.getState();
+  if (user) {
+    saveShoppingList(user.uid, items);
+  }
+};
+
+// User whose list was fetched this session. The persisted list may be stale
+// (edited on another device), so it's always refetched once per session.
+let fetchedUserId: string | null = null;
+
+export const useShoppingListStore = create<ShoppingListStore>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      listUserId: null,
+      addRecipe: (recipe, userIngredients, scale = 1) => {
+        const { pantryStaples } = usePreferencesStore.getState();
+        const additions = getRecipeShoppingItems(recipe, userIngredients, pantryStaples, scale);
+        if (additions.length > 0) {
+          get().addItems(additions);
+        }
+        return additions.length;
+      },
+      addItems: (additions) => {
+        const updated = mergeShoppingItems(get().items, additions);
+        set({ items: updated });
+        syncShoppingList(updated);
+      },
+      toggleItem: (id) => {
+        const updated = get().items.map(item =>
+          item.id === id ? { ...item, checked: !item.checked } : item
+        );
+        set({ items: updated });
+        syncShoppingList(updated);
+      },
+      removeItem: (id) => {
+        const updated = get().items.filter(item => item.id !== id);
+        set({ items: updated });
+        syncShoppingList(updated);
+      },
+      clearChecked: () => {
+        const updated = get().items.filter(item => !item.checked);
+        set({ items: updated });
+        syncShoppingList(updated);
+      },
+      clearList: () => {
+        set({ items: [] });
+        syncShoppingList([]);
+      },
+      loadShoppingList: async (userId) => {
+        fetchedUserId = userId;
+        const stored = await getShoppingList(userId);
+        if (!stored) {
+          // Offline or failed; keep working from the cached list
+          return;
+        }
+        console.log('Loaded shopping list:', stored.length, 'items');
+
+        // Firestore has the user's latest list; bring along anything added
+        // while signed out
+        const items = mergeShoppingItems(stored, get().listUserId ? [] : get().items);
+        set({ items, listUserId: userId });
+        if (items.length !== stored.length) saveShoppingList(userId, items);
+      }
+    }),
+    {
+      name: 'shopping-list-storage'
+    }
+  )
+);
+
+// Initialize the service
+export const initializeShoppingListService = () => {
+  const { user } = useAuthStore.getState();
+  if (user) {
+    useShoppingListStore.getState().loadShoppingList(user.uid);
+  }
+
+  // Load the signed-in user's list, start a fresh one on sign-out
+  return useAuthStore.subscribe((state) => {
+    const { user } = state;
+    const { listUserId, loadShoppingList } = useShoppingListStore.getState();
+
+    if (user && user.uid !== fetchedUserId) {
+      loadShoppingList(user.uid);
+    } else if (!user && listUserId) {
+      fetchedUserId = null;
+      useShoppingListStore.setState({ items: [], listUserId: null });
+    }
+  });
+};
+
+// Initialize on load
+initializeShoppingListService();
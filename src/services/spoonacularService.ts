@@ -1,4 +1,10 @@
-import { Recipe, RecipeSource, SpoonacularRecipe } from '@/types/recipe';
+import { Recipe, RecipeSearchParams, RecipeSource, SpoonacularRecipe } from '@/types/recipe';
+import { parseIngredients } from '@/utils/ingredientParser';
+import { withNutrition } from '@/utils/nutrition';
+import { formatDuration } from '@/utils/duration';
+import { findMissingEquipment } from '@/utils/equipment';
+import { classifyRecipeCuisines } from '@/utils/cuisine';
+import { CUISINES } from '@/data/cuisines';
 
 const API_KEY = import.meta.env.VITE_SPOONACULAR_API_KEY;
 const BASE_URL = 'https://api.spoonacular.com/recipes';
@@ -7,9 +13,13 @@ interface SpoonacularSearchResult {
   id: number;
   title: string;
   image: string;
-  missedIngredientCount: number;
-  usedIngredientCount: number;
-  likes: number;
+  missedIngredientCount?: number;
+  usedIngredientCount?: number;
+}
+
+interface SpoonacularSearchResponse {
+  results: SpoonacularSearchResult[];
+  totalResults: number;
 }
 
 interface SpoonacularRecipeDetail {
@@ -20,8 +30,13 @@ interface SpoonacularRecipeDetail {
   sourceUrl: string;
   sourceName: string;
   readyInMinutes: number;
+  /** -1 or null when Spoonacular doesn't know */
+  preparationMinutes: number | null;
+  cookingMinutes: number | null;
   servings: number;
   diets: string[];
+  /** Often empty, in which case we classify the recipe ourselves */
+  cuisines: string[];
   extendedIngredients: Array<{
     original: string;
   }>;
@@ -90,10 +105,54 @@ class RateLimiter {
 
 const rateLimiter = new RateLimiter(Number(import.meta.env.VITE_API_RATE_LIMIT) || 50);
 
-export async function searchSpoonacularRecipes(
-  ingredients: string[],
-  dietaryPreference?: string
-): Promise<Recipe[]> {
+// Spoonacular's names for our dietary filters. Diets it doesn't know (kosher,
+// halal, ...) are left to our own checks on the results.
+const SPOONACULAR_DIETS: Record<string, { diet?: string; intolerances?: string[] }> = {
+  vegetarian: { diet: 'vegetarian' },
+  vegan: { diet: 'vegan' },
+  'gluten-free': { diet: 'gluten free', intolerances: ['gluten'] },
+  'lactose-free': { intolerances: ['dairy'] },
+  keto: { diet: 'ketogenic' }
+};
+
+// Most ingredients sent to complexSearch, which treats each one as required
+const MAX_INCLUDED_INGREDIENTS = 3;
+
+/**
+ * Run a complexSearch for recipes using all of `includeIngredients`
+ */
+async function searchComplex(params: URLSearchParams, includeIngredients: string[]): Promise<SpoonacularSearchResult[]> {
+  const searchParams = new URLSearchParams(params);
+  searchParams.set('includeIngredients', includeIngredients.join(','));
+  const searchResponse = await rateLimiter.add(() =>
+    fetch(`${BASE_URL}/complexSearch?${searchParams}`)
+  );
+
+  if (!searchResponse.ok) {
+    const errorText = await searchResponse.text();
+    console.error('Spoonacular API error response:', {
+      status: searchResponse.status,
+      statusText: searchResponse.statusText,
+      errorText
+    });
+    
+    if (searchResponse.status === 402) {
+      throw new SpoonacularError(402, 'API quota exceeded');
+    }
+    throw new SpoonacularError(searchResponse.status, `API error: ${searchResponse.statusText} - ${errorText}`);
+  }
+
+  const { results }: SpoonacularSearchResponse = await searchResponse.json();
+  return results;
+}
+
+export async function searchSpoonacularRecipes({
+  ingredients = [],
+  dietaryPreferences = [],
+  maxTotalTime,
+  equipment,
+  cuisines = []
+}: RecipeSearchParams): Promise<Recipe[]> {
   if (!API_KEY) {
     console.error('Spoonacular API key not found:', import.meta.env);
     throw new SpoonacularError(400, 'Spoonacular API key not configured');
@@ -104,38 +163,45 @@ export async function searchSpoonacularRecipes(
   }
 
   try {
+    // complexSearch rather than findByIngredients, which ignores diet,
+    // intolerances, maxReadyTime and cuisine
     const params = new URLSearchParams({
       apiKey: API_KEY,
-      ingredients: ingredients.join(','),
-      number: '3', 
-      ranking: '2', // Maximize used ingredients
+      number: '3',
+      sort: 'max-used-ingredients',
       ignorePantry: 'true'
     });
 
-    if (dietaryPreference) {
-      params.append('diet', dietaryPreference.toLowerCase());
+    // A comma-separated diet list means recipes must suit all of them
+    const mapped = dietaryPreferences.map(preference => SPOONACULAR_DIETS[preference.toLowerCase()]).filter(Boolean);
+    const diets = mapped.map(({ diet }) => diet).filter(Boolean);
+    const intolerances = [...new Set(mapped.flatMap(({ intolerances = [] }) => intolerances))];
+    if (diets.length > 0) {
+      params.append('diet', diets.join(','));
     }
-
-    console.log('Searching Spoonacular with ingredients:', ingredients);
-    const searchResponse = await rateLimiter.add(() =>
-      fetch(`${BASE_URL}/findByIngredients?${params}`)
-    );
-
-    if (!searchResponse.ok) {
-      const errorText = await searchResponse.text();
-      console.error('Spoonacular API error response:', {
-        status: searchResponse.status,
-        statusText: searchResponse.statusText,
-        errorText
-      });
-      
-      if (searchResponse.status === 402) {
-        throw new SpoonacularError(402, 'API quota exceeded');
-      }
-      throw new SpoonacularError(searchResponse.status, `API error: ${searchResponse.statusText} - ${errorText}`);
+    if (intolerances.length > 0) {
+      params.append('intolerances', intolerances.join(','));
+    }
+    if (maxTotalTime) {
+      params.append('maxReadyTime', String(maxTotalTime));
+    }
+    // A comma-separated cuisine list means any one of them. Broad cuisines
+    // bring the narrower ones they cover, as in matchesCuisines.
+    if (cuisines.length > 0) {
+      const accepted = cuisines.flatMap(cuisine => [cuisine, ...(CUISINES[cuisine].includes || [])]);
+      params.append('cuisine', [...new Set(accepted.map(cuisine => CUISINES[cuisine].spoonacularName))].join(','));
     }
 
-    const searchResults: SpoonacularSearchResult[] = await searchResponse.json();
+    // Ingredients come soonest-to-expire first. complexSearch only returns
+    // recipes using every included ingredient, so just the first few are
+    // sent, and only the first if those find nothing.
+    const included = ingredients.slice(0, MAX_INCLUDED_INGREDIENTS);
+    console.log('Searching Spoonacular with ingredients:', included);
+    let searchResults = await searchComplex(params, included);
+    if (searchResults.length === 0 && included.length > 1) {
+      console.log('No Spoonacular results, retrying with:', included[0]);
+      searchResults = await searchComplex(params, included.slice(0, 1));
+    }
     console.log('Spoonacular search results:', searchResults);
     
     // Get detailed information for each recipe
@@ -143,7 +209,11 @@ export async function searchSpoonacularRecipes(
       searchResults.map(result => getSpoonacularRecipeById(result.id))
     );
 
-    const validRecipes = detailedRecipes.filter((recipe): recipe is SpoonacularRecipe => recipe !== null);
+    // complexSearch already applied maxReadyTime and cuisine; it can't leave
+    // out recipes needing equipment the kitchen lacks, so check the details
+    const validRecipes = detailedRecipes
+      .filter((recipe): recipe is SpoonacularRecipe => recipe !== null)
+      .filter(recipe => !equipment || findMissingEquipment(recipe, equipment).length === 0);
     console.log('Valid recipes found:', validRecipes.length);
     
     return validRecipes;
@@ -190,7 +260,10 @@ export async function getSpoonacularRecipeById(id: string | number): Promise<Spo
     const data: SpoonacularRecipeDetail = await response.json();
     console.log('Recipe details received for ID:', id);
 
-    return {
+    const ingredients = data.extendedIngredients.map(ing => ing.original);
+    const structuredIngredients = parseIngredients(ingredients);
+
+    return withNutrition<SpoonacularRecipe>({
       id: String(data.id),
       spoonacularId: data.id,
       title: data.title,
@@ -198,14 +271,17 @@ export async function getSpoonacularRecipeById(id: string | number): Promise<Spo
       image: data.image,
       sourceUrl: data.sourceUrl,
       sourceName: data.sourceName,
-      prepTime: `${Math.floor(data.readyInMinutes / 2)}min`,
-      cookTime: `${Math.ceil(data.readyInMinutes / 2)}min`,
+      prepTime: data.preparationMinutes > 0 ? formatDuration(data.preparationMinutes) : '',
+      cookTime: data.cookingMinutes > 0 ? formatDuration(data.cookingMinutes) : '',
+      totalTime: formatDuration(data.readyInMinutes),
       servings: data.servings,
-      ingredients: data.extendedIngredients.map(ing => ing.original),
+      ingredients,
+      structuredIngredients,
       instructions: data.analyzedInstructions[0]?.steps.map(step => step.step) || [],
       dietaryTags: data.diets,
+      cuisines: classifyRecipeCuisines({ title: data.title, ingredients, structuredIngredients }, data.cuisines || []),
       source: RecipeSource.SPOONACULAR
-    };
+    });
   } catch (error) {
     console.error('Recipe detail error:', error);
     if (error instanceof SpoonacularError) {
@@ -1,4 +1,8 @@
 import type { Recipe } from './recipeService';
+import { parseIngredients } from '@/utils/ingredientParser';
+import { withNutrition } from '@/utils/nutrition';
+import { formatDuration, parseDuration } from '@/utils/duration';
+import { classifyRecipeCuisines } from '@/utils/cuisine';
 
 interface StructuredRecipeData {
   '@type': string;
@@ -22,6 +26,8 @@ interface StructuredRecipeData {
     name: string;
   } | string;
   keywords?: string;
+  /** e.g. "Italian", "Thai, Fusion" or ["Mexican", "Tex-Mex"] */
+  recipeCuisine?: string | string[];
   attribution?: string;
 }
 
@@ -131,9 +137,10 @@ function convertStructuredDataToRecipe(data: StructuredRecipeData): Omit<Recipe,
     }
   }
   
-  // Parse cook and prep times from ISO8601 duration format (PT1H30M) to minutes
-  const cookTimeMinutes = parseISODuration(data.cookTime || '');
-  const prepTimeMinutes = parseISODuration(data.prepTime || '');
+  // Times come as ISO 8601 durations (PT1H30M)
+  const cookTimeMinutes = parseDuration(data.cookTime);
+  const prepTimeMinutes = parseDuration(data.prepTime);
+  const totalTimeMinutes = parseDuration(data.totalTime);
   
   // Convert yield to servings
   let servings = 4; // Default value
@@ -176,38 +183,29 @@ function convertStructuredDataToRecipe(data: StructuredRecipeData): Omit<Recipe,
     });
   }
   
+  // Use the cuisine the page declares, otherwise work it out
+  const structuredIngredients = parseIngredients(ingredients);
+  const declaredCuisines = ([] as string[]).concat(data.recipeCuisine ?? []);
+  const cuisines = classifyRecipeCuisines({ title: data.name, ingredients, structuredIngredients }, declaredCuisines);
+
   // Create the recipe object
-  return {
+  return withNutrition({
     title: data.name,
     description: data.description || '',
     ingredients,
+    structuredIngredients,
     image,
-    prepTime: `${prepTimeMinutes} minutes`,
-    cookTime: `${cookTimeMinutes} minutes`,
+    prepTime: prepTimeMinutes !== null ? formatDuration(prepTimeMinutes) : '',
+    cookTime: cookTimeMinutes !== null ? formatDuration(cookTimeMinutes) : '',
+    totalTime: totalTimeMinutes !== null ? formatDuration(totalTimeMinutes) : '',
     servings,
     calories,
     dietaryTags,
+    cuisines,
     instructions,
     author: author || undefined,
     attribution: data.attribution || undefined
-  };
-}
-
-/**
- * Parse ISO8601 duration format (e.g., PT1H30M) to minutes
- */
-function parseISODuration(isoDuration: string): number {
-  if (!isoDuration) return 0;
-  
-  const matches = isoDuration.match(/P(?:(\d+)D)?T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (!matches) return 0;
-  
-  const days = parseInt(matches[1] || '0', 10);
-  const hours = parseInt(matches[2] || '0', 10);
-  const minutes = parseInt(matches[3] || '0', 10);
-  const seconds = parseInt(matches[4] || '0', 10);
-  
-  return days * 24 * 60 + hours * 60 + minutes + Math.ceil(seconds / 60);
+  });
 }
 
 /**
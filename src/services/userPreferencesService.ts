@@ -0,0 +1,218 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db, useAuthStore } from './firebaseService';
+import { normalizeIngredientName } from '@/utils/ingredientCatalog';
+import type { MeasurementSystem } from '@/utils/unitConversion';
+import type { Allergen, AllergenProfile } from '@/types/diet';
+import type { Equipment } from '@/types/equipment';
+import { ALL_EQUIPMENT } from '@/data/equipment';
+
+/**
+ * Ingredients most kitchens always have. Like Spoonacular's `ignorePantry`,
+ * these count as owned when scoring recipes and listing what's missing.
+ */
+export const DEFAULT_PANTRY_STAPLES = [
+  'salt',
+  'black pepper',
+  'vegetable oil',
+  'olive oil',
+  'water',
+  'sugar',
+  'all-purpose flour',
+  'butter'
+];
+
+// The US is the only large market still cooking in cups and ounces
+const DEFAULT_MEASUREMENT_SYSTEM: MeasurementSystem =
+  typeof navigator !== 'undefined' && navigator.language === 'en-US' ? 'imperial' : 'metric';
+
+export interface UserPreferences extends AllergenProfile {
+  pantryStaples: string[];
+  measurementSystem: MeasurementSystem;
+  /** What the user's kitchen has; everything until they say otherwise */
+  equipment: Equipment[];
+}
+
+interface PreferencesStore extends UserPreferences {
+  // User the current preferences were loaded for, null when signed out
+  preferencesUserId: string | null;
+  addPantryStaple: (staple: string) => void;
+  removePantryStaple: (staple: string) => void;
+  resetPantryStaples: () => void;
+  setMeasurementSystem: (system: MeasurementSystem) => void;
+  toggleAllergen: (allergen: Allergen) => void;
+  addCustomAllergen: (item: string) => void;
+  removeCustomAllergen: (item: string) => void;
+  toggleEquipment: (item: Equipment) => void;
+  setEquipment: (equipment: Equipment[]) => void;
+  loadPreferences: (userId: string) => Promise<void>;
+}
+
+/**
+ * Save the user's preferences to their Firestore document
+ */
+export async function saveUserPreferences(userId: string, preferences: Partial<UserPreferences>): Promise<void> {
+  try {
+    const userDocRef = doc(db, 'users', userId);
+    await setDoc(userDocRef, { preferences }, { merge: true });
+  } catch (error) {
+    console.error('Error saving user preferences:', error);
+  }
+}
+
+/**
+ * Get the user's preferences from Firestore (empty if none are stored yet),
+ * or null if they couldn't be loaded
+ */
+export async function getUserPreferences(userId: string): Promise<Partial<UserPreferences> | null> {
+  try {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    if (!userDoc.exists()) return {};
+    return userDoc.data().preferences || {};
+  } catch (error) {
+    console.error('Error loading user preferences:', error);
+    return null;
+  }
+}
+
+// Push a change to Firestore when someone is signed in; signed-out users keep
+// their preferences in localStorage only
+const syncPreferences = (preferences: Partial<UserPreferences>) => {
+  const { user } = useAuthStore.getState();
+  if (user) {
+    saveUserPreferences(user.uid, preferences);
+  }
+};
+
+// User whose preferences were fetched this session. The persisted copy may be
+// stale (changed on another device), so they're always refetched once per
+// session.
+let fetchedUserId: string | null = null;
+
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set, get) => ({
+      pantryStaples: DEFAULT_PANTRY_STAPLES,
+      measurementSystem: DEFAULT_MEASUREMENT_SYSTEM,
+      allergens: [],
+      customAllergens: [],
+      equipment: ALL_EQUIPMENT,
+      preferencesUserId: null,
+      addPantryStaple: (staple) => {
+        const trimmed = staple.trim().toLowerCase();
+        if (!trimmed) return;
+
+        const normalized = normalizeIngredientName(trimmed);
+        const { pantryStaples } = get();
+        if (pantryStaples.some(existing => normalizeIngredientName(existing) === normalized)) return;
+
+        const updated = [...pantryStaples, trimmed];
+        set({ pantryStaples: updated });
+        syncPreferences({ pantryStaples: updated });
+      },
+      removePantryStaple: (staple) => {
+        const updated = get().pantryStaples.filter(existing => existing !== staple);
+        set({ pantryStaples: updated });
+        syncPreferences({ pantryStaples: updated });
+      },
+      resetPantryStaples: () => {
+        set({ pantryStaples: DEFAULT_PANTRY_STAPLES });
+        syncPreferences({ pantryStaples: DEFAULT_PANTRY_STAPLES });
+      },
+      setMeasurementSystem: (system) => {
+        set({ measurementSystem: system });
+        syncPreferences({ measurementSystem: system });
+      },
+      toggleAllergen: (allergen) => {
+        const { allergens } = get();
+        const updated = allergens.includes(allergen)
+          ? allergens.filter(existing => existing !== allergen)
+          : [...allergens, allergen];
+        set({ allergens: updated });
+        syncPreferences({ allergens: updated });
+      },
+      addCustomAllergen: (item) => {
+        const trimmed = item.trim().toLowerCase();
+        if (!trimmed) return;
+
+        const normalized = normalizeIngredientName(trimmed);
+        const { customAllergens } = get();
+        if (customAllergens.some(existing => normalizeIngredientName(existing) === normalized)) return;
+
+        const updated = [...customAllergens, trimmed];
+        set({ customAllergens: updated });
+        syncPreferences({ customAllergens: updated });
+      },
+      removeCustomAllergen: (item) => {
+        const updated = get().customAllergens.filter(existing => existing !== item);
+        set({ customAllergens: updated });
+        syncPreferences({ customAllergens: updated });
+      },
+      toggleEquipment: (item) => {
+        const { equipment } = get();
+        const updated = equipment.includes(item)
+          ? equipment.filter(existing => existing !== item)
+          : [...equipment, item];
+        set({ equipment: updated });
+        syncPreferences({ equipment: updated });
+      },
+      setEquipment: (equipment) => {
+        set({ equipment });
+        syncPreferences({ equipment });
+      },
+      loadPreferences: async (userId) => {
+        fetchedUserId = userId;
+        const stored = await getUserPreferences(userId);
+        if (!stored) {
+          // Offline or failed; keep the cached preferences
+          return;
+        }
+        console.log('Loaded user preferences:', stored);
+
+        if (Object.keys(stored).length > 0) {
+          set({ ...stored, preferencesUserId: userId });
+        } else {
+          // First sign-in: keep whatever was set while signed out
+          const { pantryStaples, measurementSystem, allergens, customAllergens, equipment } = get();
+          set({ preferencesUserId: userId });
+          saveUserPreferences(userId, { pantryStaples, measurementSystem, allergens, customAllergens, equipment });
+        }
+      }
+    }),
+    {
+      name: 'preferences-storage'
+    }
+  )
+);
+
+// Initialize the service
+export const initializePreferencesService = () => {
+  const { user } = useAuthStore.getState();
+  if (user) {
+    usePreferencesStore.getState().loadPreferences(user.uid);
+  }
+
+  // Load the signed-in user's preferences, fall back to defaults on sign-out
+  return useAuthStore.subscribe((state) => {
+    const { user } = state;
+    const { preferencesUserId, loadPreferences } = usePreferencesStore.getState();
+
+    if (user && user.uid !== fetchedUserId) {
+      loadPreferences(user.uid);
+    } else if (!user && preferencesUserId) {
+      fetchedUserId = null;
+      usePreferencesStore.setState({
+        pantryStaples: DEFAULT_PANTRY_STAPLES,
+        measurementSystem: DEFAULT_MEASUREMENT_SYSTEM,
+        allergens: [],
+        customAllergens: [],
+        equipment: ALL_EQUIPMENT,
+        preferencesUserId: null
+      });
+    }
+  });
+};
+
+// Initialize on load
+initializePreferencesService();
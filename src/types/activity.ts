@@ -0,0 +1,61 @@
+/**
+ * An ingredient recorded in the activity log, with the amount involved when
+ * it's known
+ */
+export interface ActivityIngredient {
+  name: string;
+  quantity: number | null;
+  unit: string;
+}
+
+export type ActivityEventType = 'scan' | 'recipe';
+
+/**
+ * Something the user did that counts towards their food-waste impact: a photo
+ * scan of their ingredients, or cooking a recipe ("I cooked this"). Stored under
+ * users/{uid}/activity for signed-in users.
+ */
+export interface ActivityEvent {
+  id: string;
+  type: ActivityEventType;
+  /** ISO timestamp */
+  at: string;
+  /** Ingredients scanned, or the pantry amounts a cooked recipe used */
+  ingredients: ActivityIngredient[];
+  recipeId: string | null;
+  recipeTitle: string | null;
+}
+
+export interface RescuedIngredient {
+  name: string;
+  /** Number of recipes it was used in */
+  count: number;
+  kilograms: number;
+}
+
+export interface WeeklyImpact {
+  /** Start of the week (YYYY-MM-DD) */
+  weekStart: string;
+  meals: number;
+  kilograms: number;
+}
+
+/**
+ * Food-waste impact derived from the activity log. Weights, savings and
+ * emissions are estimates from typical per-category figures.
+ */
+export interface ImpactSummary {
+  mealsCooked: number;
+  /** Meals that used ingredients from a recent scan */
+  mealsFromScans: number;
+  scans: number;
+  kilogramsUsed: number;
+  moneySaved: number;
+  /** Kilograms of CO₂-equivalent avoided */
+  co2Avoided: number;
+  /** Consecutive days up to today (or yesterday) with a meal cooked */
+  currentStreak: number;
+  longestStreak: number;
+  topIngredients: RescuedIngredient[];
+  weekly: WeeklyImpact[];
+}
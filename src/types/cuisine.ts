@@ -0,0 +1,33 @@
+/**
+ * Cuisines a recipe can be classified as and the user can filter by
+ */
+export type Cuisine =
+  | 'american'
+  | 'british'
+  | 'caribbean'
+  | 'chinese'
+  | 'french'
+  | 'german'
+  | 'greek'
+  | 'indian'
+  | 'italian'
+  | 'japanese'
+  | 'korean'
+  | 'mediterranean'
+  | 'mexican'
+  | 'middle-eastern'
+  | 'spanish'
+  | 'thai'
+  | 'vietnamese';
+
+export interface CuisineDefinition {
+  label: string;
+  /** Spoonacular's name for it, used for its `cuisine` search parameter */
+  spoonacularName: string;
+  /** Other names sources use for it, e.g. "Tex-Mex" or "Sichuan" */
+  aliases: string[];
+  /** Dishes and ingredients typical of it, used to classify untagged recipes */
+  keywords: string[];
+  /** Narrower cuisines that count as this one, e.g. Greek for Mediterranean */
+  includes?: Cuisine[];
+}
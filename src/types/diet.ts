@@ -0,0 +1,100 @@
+/**
+ * Diets whose compliance is worked out from a recipe's ingredients rather than
+ * its tags
+ */
+export type Diet =
+  | 'vegan'
+  | 'vegetarian'
+  | 'gluten-free'
+  | 'lactose-free'
+  | 'kosher'
+  | 'halal'
+  | 'keto';
+
+/**
+ * Properties of an ingredient that a diet can rule out. `meat` covers the
+ * flesh of any land animal, poultry and pork included.
+ */
+export type IngredientTrait =
+  | 'meat'
+  | 'pork'
+  | 'poultry'
+  | 'fish'
+  | 'shellfish'
+  | 'dairy'
+  | 'lactose'
+  | 'egg'
+  | 'honey'
+  | 'gluten'
+  | 'alcohol'
+  | 'high-carb';
+
+export interface DietRule {
+  label: string;
+  /** Ingredients with any of these traits break the diet */
+  forbidden: IngredientTrait[];
+  /** Traits that mustn't appear together in one recipe (meat and dairy for kosher) */
+  forbiddenTogether?: [IngredientTrait, IngredientTrait];
+}
+
+/**
+ * A recipe ingredient that breaks a diet, and why
+ */
+export interface DietViolation {
+  ingredient: string;
+  trait: IngredientTrait;
+  /** For combination rules, the other ingredient it clashes with */
+  conflictsWith?: string;
+}
+
+export interface DietCompliance {
+  diet: Diet;
+  /** No ingredient is known to break the diet */
+  compliant: boolean;
+  violations: DietViolation[];
+  /** Ingredients we know nothing about, so can't rule out */
+  unknownIngredients: string[];
+}
+
+/**
+ * The nine major food allergens
+ */
+export type Allergen =
+  | 'milk'
+  | 'egg'
+  | 'fish'
+  | 'shellfish'
+  | 'tree-nut'
+  | 'peanut'
+  | 'wheat'
+  | 'soy'
+  | 'sesame';
+
+export interface AllergenDefinition {
+  label: string;
+  /** Ingredients with any of these diet traits contain the allergen */
+  traits: IngredientTrait[];
+  /** Catalog IDs of ingredients that contain it */
+  catalogIds: string[];
+  /** Words in an ingredient name that give it away, including derivatives like whey or tahini */
+  keywords: string[];
+  /** Names that look like they contain it but don't, e.g. rice noodles */
+  exceptions?: RegExp;
+}
+
+/**
+ * Allergens a user must avoid: any of the major nine plus free-text items
+ */
+export interface AllergenProfile {
+  allergens: Allergen[];
+  customAllergens: string[];
+}
+
+/**
+ * A recipe ingredient that contains one of the user's allergens
+ */
+export interface AllergenMatch {
+  ingredient: string;
+  /** Allergen label, or the custom item as the user typed it */
+  allergen: string;
+}
@@ -0,0 +1,39 @@
+/**
+ * Kitchen appliances and set-ups a recipe can call for
+ */
+export type Equipment =
+  | 'stovetop'
+  | 'oven'
+  | 'microwave'
+  | 'air-fryer'
+  | 'slow-cooker'
+  | 'pressure-cooker'
+  | 'grill'
+  | 'blender'
+  | 'food-processor'
+  | 'mixer';
+
+export interface EquipmentDefinition {
+  label: string;
+  /** Words and phrases in a recipe's title or instructions that call for it */
+  keywords: string[];
+  /** Phrases containing a keyword that don't, e.g. "baking soda" for the oven */
+  exceptions?: string[];
+}
+
+/**
+ * A piece of equipment a recipe needs, and what in the recipe says so
+ */
+export interface EquipmentRequirement {
+  equipment: Equipment;
+  /** The keyword found, e.g. "bake" */
+  evidence: string;
+}
+
+/**
+ * A typical kitchen the user can pick instead of ticking each item
+ */
+export interface KitchenPreset {
+  label: string;
+  equipment: Equipment[];
+}
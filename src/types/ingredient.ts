@@ -0,0 +1,154 @@
+/**
+ * Package or portion size given in parentheses, e.g. the "(14 oz)" in
+ * "1 (14 oz) can diced tomatoes"
+ */
+export interface IngredientSize {
+  quantity: number;
+  unit: string;
+}
+
+/**
+ * A recipe ingredient line split into its parts.
+ * Absent values are null or empty strings (never undefined) so the object
+ * can be written to Firestore as-is.
+ */
+export interface StructuredIngredient {
+  /** The original line as written in the recipe */
+  raw: string;
+  quantity: number | null;
+  /** Upper bound when the quantity is a range such as "2-3" */
+  quantityMax: number | null;
+  /** Normalized unit (e.g. "cup", "tbsp", "g"), or '' for countable items */
+  unit: string;
+  name: string;
+  size: IngredientSize | null;
+  /** Preparation notes such as "chopped" or "finely diced" */
+  preparation: string;
+  toTaste: boolean;
+  optional: boolean;
+}
+
+export type IngredientCategory =
+  | 'fruit'
+  | 'vegetable'
+  | 'meat'
+  | 'seafood'
+  | 'dairy'
+  | 'grain'
+  | 'spice'
+  | 'beverage'
+  | 'other';
+
+/**
+ * An entry in the canonical ingredient catalog. Every spelling listed in
+ * `synonyms` (regional names, plurals we can't derive, common variants)
+ * resolves to `id`.
+ */
+export interface CanonicalIngredient {
+  id: string;
+  name: string;
+  category: IngredientCategory;
+  synonyms: string[];
+}
+
+/**
+ * An ingredient the user has on hand, with the amount entered on the
+ * ingredients page. `quantity` is null when no amount was given.
+ */
+export interface UserIngredient {
+  name: string;
+  quantity: number | null;
+  unit: string;
+  /** Date (YYYY-MM-DD) the ingredient goes off, when known */
+  expiresOn?: string | null;
+}
+
+/**
+ * When an ingredient was bought, opened or goes off, as YYYY-MM-DD dates.
+ * Any of them may be null; the expiry date is estimated from the others
+ * using the shelf life of the ingredient's category.
+ */
+export interface IngredientDates {
+  purchasedOn: string | null;
+  openedOn: string | null;
+  expiresOn: string | null;
+}
+
+/**
+ * An ingredient in the user's pantry. Signed-in users' pantries are stored
+ * under users/{uid}/pantry, one document per item; anonymous users' stay in
+ * localStorage.
+ */
+export interface PantryItem extends IngredientDates {
+  id: string;
+  name: string;
+  quantity: number | null;
+  unit: string;
+  /**
+   * True for portions of a cooked dish kept after cooking. Leftovers stay a
+   * separate item: they never merge with, or stand in for, raw ingredients.
+   */
+  leftover: boolean;
+  /** When the item was first added, as an ISO timestamp */
+  addedAt: string;
+}
+
+/**
+ * How much of a pantry item a cooked recipe used. Amounts are in the pantry
+ * item's unit; `remaining` of 0 means the item is used up.
+ */
+export interface PantryUsage {
+  itemId: string;
+  name: string;
+  used: number;
+  remaining: number;
+  unit: string;
+}
+
+/** Days an ingredient keeps, sealed and after opening */
+export interface ShelfLife {
+  unopened: number;
+  opened: number;
+}
+
+/** How soon an ingredient needs using up */
+export type ExpiryUrgency = 'expired' | 'today' | 'soon' | 'fresh' | 'unknown';
+
+/**
+ * A recipe ingredient the user has, but not enough of. Amounts are in `unit`.
+ */
+export interface IngredientShortfall {
+  /** Name of the ingredient as written in the recipe */
+  name: string;
+  needed: number;
+  available: number;
+  unit: string;
+}
+
+/** Where a substitution works; 'any' means it's safe everywhere */
+export type SubstitutionContext = 'any' | 'baking' | 'cooking' | 'raw';
+
+/**
+ * A way to replace an ingredient with others, e.g. buttermilk with milk and
+ * lemon juice
+ */
+export interface SubstitutionRule {
+  /** Catalog ID of the ingredient being replaced */
+  ingredient: string;
+  /** Catalog IDs or names of everything the substitute needs */
+  substitutes: string[];
+  /** Amount of the (main) substitute per unit of the original */
+  ratio: number;
+  /** How to make the swap, e.g. "1 cup milk + 1 tbsp lemon juice per cup" */
+  instructions: string;
+  context: SubstitutionContext;
+  /**
+   * Diets the swap makes the dish suitable for, and ones it breaks, for
+   * display. Whether a swap suits the user's diets is checked from the
+   * substitute's ingredients.
+   */
+  dietaryEffect: {
+    adds: string[];
+    removes: string[];
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Model backends the app can talk to. `local` is any OpenAI-compatible server
+ * (Ollama, LM Studio, llama.cpp); `mock` answers from fixtures.
+ */
+export type LlmBackend = 'openai' | 'gemini' | 'local' | 'mock';
+
+export interface LlmRequest {
+  prompt: string;
+  /** Sets the model's role, e.g. "You are a professional chef" */
+  system?: string;
+  /** Images as data URLs ("data:image/jpeg;base64,..."); needs a vision backend */
+  images?: string[];
+  /** Ask for JSON mode, where the backend supports it */
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Settings for one backend; anything left out comes from the environment
+ */
+export interface LlmClientOptions {
+  apiKey?: string;
+  model?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. "http://localhost:11434/v1" */
+  baseUrl?: string;
+}
+
+/**
+ * One way of calling a model, whatever the provider
+ */
+export interface LlmClient {
+  backend: LlmBackend;
+  /** Model name, for logs */
+  model: string;
+  /** Whether requests may include images */
+  vision: boolean;
+  /** Get a plain text answer */
+  complete: (request: LlmRequest) => Promise<string>;
+  /**
+   * Get an answer in JSON mode and parse it. The prompt should describe the
+   * shape wanted; the result isn't checked against it.
+   */
+  completeJson: <T = unknown>(request: LlmRequest) => Promise<T>;
+}
+
+/**
+ * A canned answer for the mock backend: the first fixture whose pattern
+ * matches the prompt is returned
+ */
+export interface LlmFixture {
+  name: string;
+  match: RegExp;
+  response: string;
+}
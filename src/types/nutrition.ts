@@ -0,0 +1,17 @@
+/**
+ * Energy in kcal and macronutrients in grams
+ */
+export interface Nutrients {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/**
+ * A recipe's nutrition per serving, estimated from its ingredients
+ */
+export interface RecipeNutrition extends Nutrients {
+  /** Share of the recipe's measured ingredients the estimate accounts for, 0-1 */
+  coverage: number;
+}
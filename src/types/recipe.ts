@@ -1,3 +1,9 @@
+import type { StructuredIngredient, IngredientShortfall } from './ingredient';
+import type { DietViolation } from './diet';
+import type { RecipeNutrition } from './nutrition';
+import type { Equipment } from './equipment';
+import type { Cuisine } from './cuisine';
+
 export enum RecipeSource {
   LOCAL = 'LOCAL',
   SPOONACULAR = 'SPOONACULAR'
@@ -9,20 +15,34 @@ export interface BaseRecipe {
   description: string;
   image?: string;
   ingredients: string[];
+  /** Parsed form of `ingredients`, in the same order */
+  structuredIngredients?: StructuredIngredient[];
   instructions: string[];
+  /** Free text as given by the source ("10min", "PT25M"); read with getRecipeTimes */
   prepTime?: string;
   cookTime?: string;
+  /** Total time as given by the source, when it gave one */
+  totalTime?: string;
   servings?: number;
   dietaryTags: string[];
   source: RecipeSource;
   sourceUrl?: string;
+  /** Calories per serving as given by the recipe's source, 0 when it gave none */
   calories?: number;
+  /** Per-serving estimate from the ingredients, null when too few could be measured */
+  nutrition?: RecipeNutrition | null;
+  /** Cuisines it was classified as at import, empty when none stood out */
+  cuisines?: Cuisine[];
   author?: string;
   attribution?: string;
+  /** Why the recipe was recommended, attached by the recommendation pipeline */
+  matchReport?: MatchReport;
 }
 
 export interface LocalRecipe extends BaseRecipe {
   source: RecipeSource.LOCAL;
+  /** Canonical ingredient IDs, stored so Firestore can search by ingredient */
+  ingredientKeys?: string[];
 }
 
 export interface SpoonacularRecipe extends BaseRecipe {
@@ -35,8 +55,119 @@ export interface SpoonacularRecipe extends BaseRecipe {
 export type Recipe = LocalRecipe | SpoonacularRecipe;
 
 export interface RecipeSearchParams {
+  /** Ingredient names, soonest to expire first */
   ingredients?: string[];
-  dietaryPreference?: string;
+  /** Every diet a recipe must satisfy */
+  dietaryPreferences?: string[];
+  /** Longest total time in minutes */
+  maxTotalTime?: number;
+  /** Allergens to keep out of the results */
+  excludedIngredients?: string[];
+  /** What the user's kitchen has; recipes needing anything else are left out */
+  equipment?: Equipment[];
+  /** Cuisines the user wants; any one of them will do */
+  cuisines?: Cuisine[];
   source?: RecipeSource[];
   maxResults?: number;
-} 
\ No newline at end of file
+} 
+/**
+ * A recipe's times in minutes, null where unknown
+ */
+export interface RecipeTimes {
+  prep: number | null;
+  cook: number | null;
+  total: number | null;
+}
+
+/**
+ * Result of checking a recipe against one of the user's requirements.
+ * `passed` is true when the requirement wasn't set.
+ */
+export interface RequirementCheck {
+  required: boolean;
+  passed: boolean;
+  /** Short explanation shown to the user, e.g. "Not vegan: butter (dairy)" */
+  reason: string;
+  /** Ingredients that broke a diet rule */
+  violations?: DietViolation[];
+}
+
+export interface IngredientMatch {
+  /** Recipe ingredient name */
+  recipeIngredient: string;
+  /** The user's ingredient it was matched to */
+  userIngredient: string;
+}
+
+export interface IngredientSubstitution {
+  recipeIngredient: string;
+  /** What to use instead, e.g. "milk + lemon" */
+  substitute: string;
+  instructions: string;
+}
+
+/**
+ * How a recipe matched the user's ingredients and preferences
+ */
+export interface MatchReport {
+  /** Ingredient coverage, 0-1 */
+  score: number;
+  totalIngredients: number;
+  matchedIngredients: IngredientMatch[];
+  /** Recipe ingredient names the user doesn't have */
+  missingIngredients: string[];
+  /** Recipe ingredients assumed to be in the user's pantry */
+  staplesAssumed: string[];
+  substitutions: IngredientSubstitution[];
+  shortfalls: IngredientShortfall[];
+  dietCheck: RequirementCheck;
+  calorieCheck: RequirementCheck;
+  timeCheck: RequirementCheck;
+  equipmentCheck: RequirementCheck;
+  cuisineCheck: RequirementCheck;
+  /** True when every missing ingredient has a substitute the user already has */
+  makeable: boolean;
+  /** The user's ingredients this recipe uses that expire within a few days */
+  expiringIngredients: string[];
+  /** 0-1, how much of the user's soon-to-expire food the recipe uses up */
+  wasteScore: number;
+}
+
+/**
+ * A recipe picked by the use-it-all planner, with the user's ingredients it
+ * uses that no earlier recipe in the plan already used
+ */
+export interface PlannedRecipe {
+  recipe: Recipe;
+  newlyUsedIngredients: string[];
+}
+
+/**
+ * A small set of recipes that together use up as much of the user's food as
+ * possible
+ */
+export interface RecipePlan {
+  recipes: PlannedRecipe[];
+  usedIngredients: string[];
+  unusedIngredients: string[];
+  /** 0-1, share of the user's ingredients used, weighted by amount and expiry */
+  coverage: number;
+}
+
+/**
+ * A record of the user cooking a recipe, stored under
+ * users/{uid}/cookingHistory
+ */
+export interface CookingHistoryEntry {
+  id?: string;
+  recipeId: string;
+  recipeTitle: string;
+  servings: number;
+  /** ISO timestamp */
+  cookedAt: string;
+  /** What was taken out of the pantry */
+  used: { name: string; quantity: number; unit: string }[];
+  /** Portions of the dish saved as leftovers, 0 if none */
+  leftoverPortions: number;
+}
+
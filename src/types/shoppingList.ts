@@ -0,0 +1,27 @@
+import type { IngredientCategory } from './ingredient';
+
+/**
+ * One line on the shopping list. Lines for the same ingredient from
+ * different recipes are merged, so `recipes` can list several titles.
+ */
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  /** Null when no amount is known, e.g. "salt to taste" */
+  quantity: number | null;
+  unit: string;
+  /** Also the aisle the item is grouped under */
+  category: IngredientCategory;
+  checked: boolean;
+  /** Titles of the recipes that need this item */
+  recipes: string[];
+}
+
+/**
+ * Shopping list items in one aisle, in display order
+ */
+export interface ShoppingListAisle {
+  category: IngredientCategory;
+  label: string;
+  items: ShoppingListItem[];
+}
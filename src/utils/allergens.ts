@@ -0,0 +1,102 @@
+import type { Recipe } from '@/types/recipe';
+import type { Allergen, AllergenMatch, AllergenProfile } from '@/types/diet';
+import { ALLERGENS } from '@/data/allergens';
+import { normalizeIngredientName, resolveIngredient } from './ingredientCatalog';
+import { ingredientsMatch } from './ingredientMatcher';
+import { getIngredientTraits, isUnknownIngredient } from './dietCompliance';
+import { getStructuredIngredients } from './recipeUtils';
+
+// Shown in place of an allergen for ingredients we know nothing about
+export const UNCHECKED_ALLERGEN = "couldn't be checked";
+
+// Check for a whole word or phrase inside a normalized name
+const containsPhrase = (normalizedName: string, phrase: string): boolean =>
+  ` ${normalizedName} `.includes(` ${normalizeIngredientName(phrase)} `);
+
+/**
+ * Check whether an ingredient is, or is made from, one of the major allergens
+ */
+export function containsAllergen(ingredientName: string, allergen: Allergen): boolean {
+  const definition = ALLERGENS[allergen];
+  const normalized = normalizeIngredientName(ingredientName);
+  if (definition.exceptions?.test(normalized)) return false;
+
+  const catalogId = resolveIngredient(ingredientName)?.id;
+  if (catalogId && definition.catalogIds.includes(catalogId)) return true;
+
+  const traits = getIngredientTraits(ingredientName);
+  if (definition.traits.some(trait => traits.includes(trait))) return true;
+
+  return definition.keywords.some(keyword => containsPhrase(normalized, keyword));
+}
+
+/**
+ * Check whether an ingredient matches an allergen the user typed in
+ */
+function matchesCustomAllergen(ingredientName: string, customAllergen: string): boolean {
+  return ingredientsMatch(ingredientName, customAllergen) ||
+    containsPhrase(normalizeIngredientName(ingredientName), customAllergen);
+}
+
+/**
+ * List the user's allergens an ingredient contains, by label. An ingredient
+ * we know nothing about can't be ruled out, so it's listed as unchecked
+ * rather than taken as safe.
+ */
+export function findIngredientAllergens(ingredientName: string, profile: AllergenProfile): string[] {
+  if (!ingredientName) return [];
+  const found = [
+    ...profile.allergens
+      .filter(allergen => containsAllergen(ingredientName, allergen))
+      .map(allergen => ALLERGENS[allergen].label),
+    ...profile.customAllergens.filter(custom => matchesCustomAllergen(ingredientName, custom))
+  ];
+  if (found.length === 0 && profile.allergens.length > 0 && isUnknownIngredient(ingredientName)) {
+    return [UNCHECKED_ALLERGEN];
+  }
+  return found;
+}
+
+/**
+ * Find every ingredient in a recipe that contains one of the user's allergens
+ */
+export function findRecipeAllergens(recipe: Recipe, profile: AllergenProfile): AllergenMatch[] {
+  if (profile.allergens.length === 0 && profile.customAllergens.length === 0) return [];
+
+  return getStructuredIngredients(recipe).flatMap(ingredient =>
+    findIngredientAllergens(ingredient.name, profile).map(allergen => ({ ingredient: ingredient.name, allergen }))
+  );
+}
+
+/**
+ * Drop recipes that contain any of the user's allergens
+ */
+export function excludeAllergenRecipes<T extends Recipe>(recipes: T[], profile: AllergenProfile): T[] {
+  return recipes.filter(recipe => {
+    const matches = findRecipeAllergens(recipe, profile);
+    if (matches.length > 0) {
+      console.log(`🚫 [ALLERGENS] Excluding ${recipe.title}:`, formatAllergenMatches(matches));
+    }
+    return matches.length === 0;
+  });
+}
+
+/**
+ * Names of the user's allergens for prompts and messages, e.g. "Peanuts, Sesame, kiwi"
+ */
+export function getAllergenNames(profile: AllergenProfile): string[] {
+  return [...profile.allergens.map(allergen => ALLERGENS[allergen].label), ...profile.customAllergens];
+}
+
+/**
+ * Describe allergen matches, e.g. "peanut butter (Peanuts), soy sauce (Soy, Wheat)"
+ */
+export function formatAllergenMatches(matches: AllergenMatch[]): string {
+  const byIngredient = new Map<string, string[]>();
+  for (const { ingredient, allergen } of matches) {
+    byIngredient.set(ingredient, [...(byIngredient.get(ingredient) ?? []), allergen]);
+  }
+  return [...byIngredient.entries()]
+    .map(([ingredient, allergens]) => `${ingredient} (${allergens.join(', ')})`)
+    .join(', ');
+}
@@ -0,0 +1,85 @@
+import type { Recipe } from '@/types/recipe';
+import type { Cuisine } from '@/types/cuisine';
+import { ALL_CUISINES, CUISINES } from '@/data/cuisines';
+import { normalizeIngredientName } from './ingredientCatalog';
+import { getStructuredIngredients } from './recipeUtils';
+
+// A dish name in the title says more than any one ingredient
+const TITLE_WEIGHT = 3;
+// Below this a recipe is left unclassified rather than guessed at
+const MIN_SCORE = 3;
+
+type ClassifiableRecipe = Pick<Recipe, 'title' | 'ingredients' | 'structuredIngredients'>;
+
+// Check for a whole word or phrase inside a normalized name
+const containsPhrase = (normalizedText: string, phrase: string): boolean =>
+  ` ${normalizedText} `.includes(` ${normalizeIngredientName(phrase)} `);
+
+/**
+ * Map a cuisine name from a recipe source ("Tex-Mex", "Italian") to ours
+ */
+export function normalizeCuisine(name: string): Cuisine | null {
+  const normalized = normalizeIngredientName(name);
+  if (!normalized) return null;
+  return ALL_CUISINES.find(cuisine => {
+    const { label, aliases } = CUISINES[cuisine];
+    return [cuisine, label, ...aliases].some(alias => normalizeIngredientName(alias) === normalized);
+  }) ?? null;
+}
+
+/**
+ * Guess a recipe's cuisine from dish names in its title and typical
+ * ingredients. Returns the best-scoring cuisines, or none when nothing
+ * stands out.
+ */
+export function classifyCuisine(recipe: ClassifiableRecipe): Cuisine[] {
+  const title = normalizeIngredientName(recipe.title || '');
+  const ingredientNames = getStructuredIngredients(recipe).map(ingredient => normalizeIngredientName(ingredient.name));
+
+  const scores = ALL_CUISINES.map(cuisine => {
+    const { label, aliases, keywords } = CUISINES[cuisine];
+    const titleMatches = [label, ...aliases, ...keywords].filter(phrase => containsPhrase(title, phrase)).length;
+    const ingredientMatches = ingredientNames.filter(name => keywords.some(keyword => containsPhrase(name, keyword))).length;
+    return { cuisine, score: titleMatches * TITLE_WEIGHT + ingredientMatches };
+  });
+
+  const best = Math.max(...scores.map(({ score }) => score));
+  if (best < MIN_SCORE) return [];
+  return scores.filter(({ score }) => score === best).map(({ cuisine }) => cuisine);
+}
+
+/**
+ * Classify a recipe at import time: the cuisines its source names when we
+ * recognise any, otherwise the keyword classifier's guess
+ */
+export function classifyRecipeCuisines(recipe: ClassifiableRecipe, sourceCuisines: (string | null | undefined)[] = []): Cuisine[] {
+  const named = sourceCuisines
+    .flatMap(name => (name || '').split(','))
+    .map(normalizeCuisine)
+    .filter((cuisine): cuisine is Cuisine => cuisine !== null);
+  return named.length > 0 ? [...new Set(named)] : classifyCuisine(recipe);
+}
+
+/**
+ * Get a recipe's cuisines, classifying ones stored without any on the fly
+ */
+export function getRecipeCuisines(recipe: ClassifiableRecipe & Pick<Recipe, 'cuisines'>): Cuisine[] {
+  return recipe.cuisines?.length ? recipe.cuisines : classifyCuisine(recipe);
+}
+
+/**
+ * Check whether a recipe is one of the wanted cuisines; a broad cuisine such
+ * as Mediterranean also accepts the narrower ones it covers
+ */
+export function matchesCuisines(recipe: ClassifiableRecipe & Pick<Recipe, 'cuisines'>, wanted: Cuisine[] = []): boolean {
+  if (wanted.length === 0) return true;
+  const accepted = wanted.flatMap(cuisine => [cuisine, ...(CUISINES[cuisine].includes || [])]);
+  return getRecipeCuisines(recipe).some(cuisine => accepted.includes(cuisine));
+}
+
+/**
+ * Names of cuisines for prompts and messages, e.g. ["Thai", "Indian"]
+ */
+export function getCuisineLabels(cuisines: Cuisine[]): string[] {
+  return cuisines.map(cuisine => CUISINES[cuisine].label);
+}
@@ -0,0 +1,125 @@
+import type { Recipe } from '@/types/recipe';
+import type { Diet, DietCompliance, DietViolation, IngredientTrait } from '@/types/diet';
+import {
+  DIET_RULES,
+  TRAIT_LABELS,
+  CATEGORY_TRAITS,
+  INGREDIENT_TRAITS,
+  TRAIT_KEYWORDS,
+  TRAIT_EXEMPTIONS
+} from '@/data/dietRules';
+import { getIngredientCategory, normalizeIngredientName, resolveIngredient } from './ingredientCatalog';
+import { getStructuredIngredients } from './recipeUtils';
+
+/**
+ * Check whether a dietary filter value is one the rules engine can decide
+ */
+export function isSupportedDiet(filter: string | undefined): filter is Diet {
+  return !!filter && filter in DIET_RULES;
+}
+
+/**
+ * Traits from the keywords in a normalized ingredient name
+ */
+function getKeywordTraits(normalized: string): IngredientTrait[] {
+  // Padded so multi-word keywords ("hot dog") only match whole words too
+  const padded = ` ${normalized} `;
+  return TRAIT_KEYWORDS
+    .filter(({ words }) => words.some(keyword => padded.includes(` ${keyword} `)))
+    .flatMap(({ traits }) => traits);
+}
+
+/**
+ * Work out an ingredient's diet-relevant traits: from the catalog (or its
+ * category when it isn't in the catalog), plus any keywords in its name,
+ * minus anything a qualifier like "vegan" or "gluten-free" rules out
+ */
+export function getIngredientTraits(ingredientName: string): IngredientTrait[] {
+  const entry = resolveIngredient(ingredientName);
+  const traits = new Set<IngredientTrait>(
+    (entry && INGREDIENT_TRAITS[entry.id]) ?? CATEGORY_TRAITS[getIngredientCategory(ingredientName)]
+  );
+
+  const normalized = normalizeIngredientName(ingredientName);
+  getKeywordTraits(normalized).forEach(trait => traits.add(trait));
+
+  for (const { pattern, removes } of TRAIT_EXEMPTIONS) {
+    if (pattern.test(normalized)) {
+      removes.forEach(trait => traits.delete(trait));
+    }
+  }
+  return [...traits];
+}
+
+/**
+ * Check whether we know too little about an ingredient to vouch for it: it
+ * isn't in the catalog, its category can't be guessed and no keyword in its
+ * name says what's in it. Such an ingredient has no traits, which would
+ * otherwise read as suiting every diet.
+ */
+export function isUnknownIngredient(ingredientName: string): boolean {
+  return !resolveIngredient(ingredientName) &&
+    getIngredientCategory(ingredientName) === 'other' &&
+    getKeywordTraits(normalizeIngredientName(ingredientName)).length === 0;
+}
+
+/**
+ * Decide whether a recipe fits a diet from its parsed ingredients, listing
+ * every ingredient that breaks it and any we can't vouch for. Tags and the
+ * recipe's source play no part.
+ */
+export function checkDietCompliance(recipe: Recipe, diet: Diet): DietCompliance {
+  const rule = DIET_RULES[diet];
+  const violations: DietViolation[] = [];
+  const ingredients = getStructuredIngredients(recipe)
+    .filter(ingredient => ingredient.name)
+    .map(ingredient => ({ name: ingredient.name, traits: getIngredientTraits(ingredient.name) }));
+
+  for (const { name, traits } of ingredients) {
+    const trait = rule.forbidden.find(forbidden => traits.includes(forbidden));
+    if (trait) {
+      violations.push({ ingredient: name, trait });
+    }
+  }
+
+  if (rule.forbiddenTogether) {
+    const [first, second] = rule.forbiddenTogether;
+    const withFirst = ingredients.find(ingredient => ingredient.traits.includes(first));
+    if (withFirst) {
+      for (const { name, traits } of ingredients) {
+        if (traits.includes(second) && !violations.some(violation => violation.ingredient === name)) {
+          violations.push({ ingredient: name, trait: second, conflictsWith: withFirst.name });
+        }
+      }
+    }
+  }
+
+  const unknownIngredients = ingredients
+    .filter(({ name, traits }) => traits.length === 0 && isUnknownIngredient(name))
+    .map(({ name }) => name);
+
+  return { diet, compliant: violations.length === 0, violations, unknownIngredients };
+}
+
+/**
+ * Describe a diet violation, e.g. "bacon (pork)" or "butter (dairy with chicken)"
+ */
+export function formatDietViolation(violation: DietViolation): string {
+  const label = TRAIT_LABELS[violation.trait];
+  return violation.conflictsWith
+    ? `${violation.ingredient} (${label} with ${violation.conflictsWith})`
+    : `${violation.ingredient} (${label})`;
+}
+
+/**
+ * Summarize a compliance result for the user, e.g.
+ * "Not vegan: butter (dairy), bacon (meat)"
+ */
+export function formatDietCompliance(compliance: DietCompliance): string {
+  const { label } = DIET_RULES[compliance.diet];
+  if (compliance.compliant && compliance.unknownIngredients.length > 0) {
+    return `Couldn't check ${compliance.unknownIngredients.join(', ')} for ${label}`;
+  }
+  if (compliance.compliant) return `No ${label} conflicts in the ingredients`;
+  return `Not ${label}: ${compliance.violations.map(formatDietViolation).join(', ')}`;
+}
@@ -0,0 +1,84 @@
+import type { Recipe, RecipeTimes } from '@/types/recipe';
+
+// ISO 8601 durations as used by schema.org JSON-LD, e.g. "PT1H30M" or "P0DT25M"
+const ISO_DURATION = /^p(?:(\d+(?:\.\d+)?)d)?(?:t(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?)?$/;
+// "10-15 minutes" or "10 to 15 minutes"; the upper bound is kept
+const RANGE = /(\d+(?:[.,]\d+)?)\s*(?:-|–|to)\s*(\d+(?:[.,]\d+)?)/g;
+const AMOUNT = /(\d+(?:[.,]\d+)?)\s*([a-z]*)/g;
+
+const UNIT_MINUTES: Record<string, number> = {
+  d: 1440, day: 1440, days: 1440,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+  s: 1 / 60, sec: 1 / 60, secs: 1 / 60, second: 1 / 60, seconds: 1 / 60
+};
+
+/**
+ * Parse a duration into whole minutes. Handles ISO 8601 ("PT25M"), free text
+ * ("10min", "1 hr 30 mins", "1h30", "10-15 minutes") and plain numbers, which
+ * are taken as minutes. Returns null when there's no duration to read.
+ */
+export function parseDuration(value: string | number | null | undefined): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+  if (!value) return null;
+  const text = value.trim().toLowerCase();
+
+  const iso = text.match(ISO_DURATION);
+  if (iso) {
+    const parts = iso.slice(1);
+    if (parts.every(part => part === undefined)) return null;
+    const [days, hours, minutes, seconds] = parts.map(part => Number(part || 0));
+    return Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+  }
+
+  let total = 0;
+  let found = false;
+  for (const [, amount, unit] of text.replace(RANGE, '$2').matchAll(AMOUNT)) {
+    // A bare number is minutes, including the "30" in "1h30"
+    const factor = unit ? UNIT_MINUTES[unit] : 1;
+    if (factor === undefined) continue;
+    total += Number(amount.replace(',', '.')) * factor;
+    found = true;
+  }
+  return found ? Math.round(total) : null;
+}
+
+/**
+ * Format minutes for display, e.g. "25 min" or "1 hr 30 min"
+ */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} hr ${rest} min` : `${hours} hr`;
+}
+
+/**
+ * Get a recipe's prep, cook and total time in minutes. The total is the
+ * source's own figure when it gave one, otherwise prep plus cook; a total of
+ * zero means the times were placeholders and counts as unknown.
+ */
+export function getRecipeTimes(recipe: Pick<Recipe, 'prepTime' | 'cookTime' | 'totalTime'>): RecipeTimes {
+  const prep = parseDuration(recipe.prepTime);
+  const cook = parseDuration(recipe.cookTime);
+  const total = parseDuration(recipe.totalTime) || (prep ?? 0) + (cook ?? 0) || null;
+  return { prep, cook, total };
+}
+
+/**
+ * Describe a recipe's times, e.g. "35 min (10 min prep + 25 min cook)", or ''
+ * when none are known
+ */
+export function formatRecipeTimes(recipe: Pick<Recipe, 'prepTime' | 'cookTime' | 'totalTime'>): string {
+  const { prep, cook, total } = getRecipeTimes(recipe);
+  if (total === null) return '';
+
+  const parts = [
+    prep ? `${formatDuration(prep)} prep` : '',
+    cook ? `${formatDuration(cook)} cook` : ''
+  ].filter(Boolean);
+  // A breakdown that just repeats the total adds nothing
+  return parts.length === 2 ? `${formatDuration(total)} (${parts.join(' + ')})` : formatDuration(total);
+}
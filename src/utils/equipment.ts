@@ -0,0 +1,62 @@
+import type { Recipe } from '@/types/recipe';
+import type { Equipment, EquipmentRequirement } from '@/types/equipment';
+import { ALL_EQUIPMENT, EQUIPMENT } from '@/data/equipment';
+
+// Lowercase with hyphens as spaces, so "stir-fry" and "stir fry" read the same
+const normalizeText = (text: string): string => text.toLowerCase().replace(/[-–]/g, ' ').replace(/\s+/g, ' ');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also works next to accented letters such as "sauté"
+const phrasePattern = (phrase: string): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, 'u');
+
+/**
+ * Work out what equipment a recipe needs from its title and instructions,
+ * e.g. an oven for "bake for 20 minutes"
+ */
+export function findRequiredEquipment(recipe: Pick<Recipe, 'title' | 'instructions'>): EquipmentRequirement[] {
+  const text = normalizeText([recipe.title || '', ...(recipe.instructions || [])].join('\n'));
+  const requirements: EquipmentRequirement[] = [];
+
+  for (const equipment of ALL_EQUIPMENT) {
+    const { keywords, exceptions = [] } = EQUIPMENT[equipment];
+    // Blank out phrases that only look like they need it
+    const checked = exceptions.reduce(
+      (remaining, exception) => remaining.replace(new RegExp(phrasePattern(exception).source, 'gu'), ' '),
+      text
+    );
+    const evidence = keywords.find(keyword => phrasePattern(keyword).test(checked));
+    if (evidence) {
+      requirements.push({ equipment, evidence });
+    }
+  }
+  return requirements;
+}
+
+/**
+ * List the equipment a recipe needs that isn't in the user's kitchen
+ */
+export function findMissingEquipment(recipe: Pick<Recipe, 'title' | 'instructions'>, available: Equipment[]): EquipmentRequirement[] {
+  if (ALL_EQUIPMENT.every(equipment => available.includes(equipment))) return [];
+  return findRequiredEquipment(recipe).filter(requirement => !available.includes(requirement.equipment));
+}
+
+/**
+ * Names of equipment for prompts and messages, e.g. ["Stovetop", "Microwave"]
+ */
+export function getEquipmentNames(equipment: Equipment[]): string[] {
+  return equipment.map(item => EQUIPMENT[item].label);
+}
+
+/**
+ * Describe equipment requirements, e.g. 'oven ("bake"), blender'
+ */
+export function formatEquipmentRequirements(requirements: EquipmentRequirement[]): string {
+  return requirements
+    .map(({ equipment, evidence }) => {
+      const label = EQUIPMENT[equipment].label.toLowerCase();
+      return evidence === label ? label : `${label} ("${evidence}")`;
+    })
+    .join(', ');
+}
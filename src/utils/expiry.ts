@@ -0,0 +1,165 @@
+import type { Recipe } from '@/types/recipe';
+import type { ExpiryUrgency, IngredientDates, ShelfLife, UserIngredient } from '@/types/ingredient';
+import { CATEGORY_SHELF_LIFE, INGREDIENT_SHELF_LIFE, DEFAULT_SHELF_LIFE } from '@/data/shelfLife';
+import { resolveIngredient } from './ingredientCatalog';
+import { ingredientsMatch } from './ingredientMatcher';
+import { getStructuredIngredients, toUserIngredient, UserIngredientInput } from './recipeUtils';
+
+// Ingredients expiring within this many days are flagged as "use soon"
+export const SOON_DAYS = 3;
+
+// Ingredients further off than this don't affect the waste score
+const WASTE_HORIZON_DAYS = 7;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight
+ */
+function parseDate(date: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string | null {
+  const parsed = parseDate(date);
+  if (!parsed) return null;
+  parsed.setDate(parsed.getDate() + days);
+  return toDateString(parsed);
+}
+
+/**
+ * How long an ingredient keeps, from the catalog or its category
+ */
+export function getShelfLife(ingredientName: string): ShelfLife {
+  const entry = resolveIngredient(ingredientName);
+  if (!entry) return DEFAULT_SHELF_LIFE;
+  return INGREDIENT_SHELF_LIFE[entry.id] ?? CATEGORY_SHELF_LIFE[entry.category];
+}
+
+/**
+ * Work out when an ingredient goes off. An explicit expiry date wins;
+ * otherwise it's estimated from the opened and purchase dates, taking
+ * whichever runs out first.
+ */
+export function estimateExpiryDate(ingredientName: string, dates: Partial<IngredientDates>): string | null {
+  if (dates.expiresOn) return dates.expiresOn;
+
+  const shelfLife = getShelfLife(ingredientName);
+  const estimates = [
+    dates.openedOn ? addDays(dates.openedOn, shelfLife.opened) : null,
+    dates.purchasedOn ? addDays(dates.purchasedOn, shelfLife.unopened) : null
+  ].filter((date): date is string => date !== null);
+
+  // YYYY-MM-DD strings sort chronologically
+  return estimates.length > 0 ? estimates.sort()[0] : null;
+}
+
+/**
+ * Whole days from today until the expiry date; negative once it has passed
+ */
+export function getDaysUntilExpiry(expiresOn: string, today: Date = new Date()): number | null {
+  const expiry = parseDate(expiresOn);
+  if (!expiry) return null;
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Classify how soon an ingredient needs using
+ */
+export function getExpiryUrgency(expiresOn: string | null | undefined, today: Date = new Date()): ExpiryUrgency {
+  if (!expiresOn) return 'unknown';
+  const days = getDaysUntilExpiry(expiresOn, today);
+  if (days === null) return 'unknown';
+  if (days < 0) return 'expired';
+  if (days === 0) return 'today';
+  if (days <= SOON_DAYS) return 'soon';
+  return 'fresh';
+}
+
+/**
+ * Describe an expiry date for a badge, e.g. "Use within 2 days"
+ */
+export function formatExpiry(expiresOn: string | null | undefined, today: Date = new Date()): string {
+  if (!expiresOn) return '';
+  const days = getDaysUntilExpiry(expiresOn, today);
+  if (days === null) return '';
+  if (days < -1) return `Expired ${-days} days ago`;
+  if (days === -1) return 'Expired yesterday';
+  if (days === 0) return 'Use today';
+  if (days === 1) return 'Use by tomorrow';
+  if (days <= SOON_DAYS) return `Use within ${days} days`;
+  return `Keeps ${days} days`;
+}
+
+/**
+ * Weight an ingredient by how soon it expires: 1 for today or overdue,
+ * falling to 0 a week out
+ */
+export function getExpiryWeight(expiresOn: string | null | undefined, today: Date = new Date()): number {
+  if (!expiresOn) return 0;
+  const days = getDaysUntilExpiry(expiresOn, today);
+  if (days === null) return 0;
+  return Math.max(0, Math.min(1, 1 - days / WASTE_HORIZON_DAYS));
+}
+
+/**
+ * Order the user's ingredients soonest to expire first. Ingredients without
+ * an expiry date keep their order at the end.
+ */
+export function sortByExpiry(userIngredients: UserIngredientInput[]): UserIngredient[] {
+  return (userIngredients || [])
+    .map(toUserIngredient)
+    .sort((a, b) => {
+      if (!a.expiresOn || !b.expiresOn) return Number(!a.expiresOn) - Number(!b.expiresOn);
+      // YYYY-MM-DD strings sort chronologically
+      return a.expiresOn.localeCompare(b.expiresOn);
+    });
+}
+
+/**
+ * Score how much a recipe helps avoid waste (0-1): the share of the user's
+ * expiry urgency that the recipe uses up. A recipe using every item that's
+ * about to go off scores 1; one using only long-lasting items scores 0.
+ */
+export function calculateWasteScore(recipe: Recipe, userIngredients: UserIngredientInput[], today: Date = new Date()): number {
+  const normalizedUserIngredients = (userIngredients || []).map(toUserIngredient);
+  const totalUrgency = normalizedUserIngredients.reduce(
+    (total, ingredient) => total + getExpiryWeight(ingredient.expiresOn, today),
+    0
+  );
+  if (totalUrgency === 0) return 0;
+
+  const recipeIngredients = getStructuredIngredients(recipe);
+  const usedUrgency = normalizedUserIngredients
+    .filter(userIng => recipeIngredients.some(recipeIng => ingredientsMatch(recipeIng.name, userIng.name)))
+    .reduce((total, ingredient) => total + getExpiryWeight(ingredient.expiresOn, today), 0);
+
+  return usedUrgency / totalUrgency;
+}
+
+/**
+ * List the user's ingredients used by the recipe that expire within a few days
+ */
+export function findExpiringIngredients(recipe: Recipe, userIngredients: UserIngredientInput[], today: Date = new Date()): string[] {
+  const recipeIngredients = getStructuredIngredients(recipe);
+  return (userIngredients || [])
+    .map(toUserIngredient)
+    .filter(userIng => ['expired', 'today', 'soon'].includes(getExpiryUrgency(userIng.expiresOn, today)))
+    .filter(userIng => recipeIngredients.some(recipeIng => ingredientsMatch(recipeIng.name, userIng.name)))
+    .map(userIng => userIng.name);
+}
@@ -0,0 +1,158 @@
+import type { ActivityEvent, ActivityIngredient, ImpactSummary, RescuedIngredient, WeeklyImpact } from '@/types/activity';
+import { CATEGORY_IMPACT, INGREDIENT_PIECE_GRAMS, SCAN_WINDOW_DAYS } from '@/data/impactFactors';
+import { getIngredientCategory, resolveIngredient, getCanonicalId } from './ingredientCatalog';
+import { ingredientsMatch } from './ingredientMatcher';
+import { normalizeUnit } from './ingredientParser';
+import { convertUnit, getUnitDimension } from './unitConversion';
+import { toDateString } from './expiry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_INGREDIENTS = 5;
+const CHART_WEEKS = 8;
+
+/**
+ * Estimate the weight of an ingredient amount in grams. Counted items use a
+ * typical piece weight; amounts in units that don't convert (cans, bunches)
+ * or without a quantity are left out.
+ */
+export function estimateGrams(ingredient: ActivityIngredient): number | null {
+  if (ingredient.quantity === null || ingredient.quantity <= 0) return null;
+
+  const unit = normalizeUnit(ingredient.unit || '');
+  const grams = convertUnit(ingredient.quantity, unit, 'g', ingredient.name);
+  if (grams !== null) return grams;
+
+  // Liquids without a known density weigh about as much as water
+  if (getUnitDimension(unit) === 'volume') {
+    return convertUnit(ingredient.quantity, unit, 'ml');
+  }
+
+  if (getUnitDimension(unit) === 'count') {
+    const id = resolveIngredient(ingredient.name)?.id;
+    const pieceGrams = (id && INGREDIENT_PIECE_GRAMS[id])
+      ?? CATEGORY_IMPACT[getIngredientCategory(ingredient.name)].gramsPerPiece;
+    return ingredient.quantity * pieceGrams;
+  }
+  return null;
+}
+
+// Monday of the date's week
+const getWeekStart = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+/**
+ * Longest run of consecutive days in a sorted list of YYYY-MM-DD dates, and
+ * the run ending today or yesterday
+ */
+function calculateStreaks(days: string[], today: Date): { current: number; longest: number } {
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+
+  for (const day of days) {
+    const [year, month, date] = day.split('-').map(Number);
+    const current = new Date(year, month - 1, date);
+    run = previous && Math.round((current.getTime() - previous.getTime()) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = current;
+  }
+
+  // A streak stays alive until a whole day passes without cooking
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const lastDay = days[days.length - 1];
+  const current = lastDay === toDateString(today) || lastDay === toDateString(yesterday) ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Check whether a recipe used anything from a scan in the days before it
+ */
+function usedScannedIngredients(recipe: ActivityEvent, scans: ActivityEvent[]): boolean {
+  const cookedAt = new Date(recipe.at).getTime();
+  return scans.some(scan => {
+    const age = cookedAt - new Date(scan.at).getTime();
+    return age >= 0 && age <= SCAN_WINDOW_DAYS * DAY_MS && recipe.ingredients.some(used =>
+      scan.ingredients.some(scanned => ingredientsMatch(used.name, scanned.name))
+    );
+  });
+}
+
+/**
+ * Work out the user's food-waste impact from their activity log: meals
+ * cooked, the weight of their own ingredients those meals used up, and what
+ * that saved in money and emissions
+ */
+export function calculateImpact(events: ActivityEvent[], today: Date = new Date()): ImpactSummary {
+  const sorted = [...events].sort((a, b) => a.at.localeCompare(b.at));
+  const scans = sorted.filter(event => event.type === 'scan');
+  const recipes = sorted.filter(event => event.type === 'recipe');
+
+  let kilogramsUsed = 0;
+  let moneySaved = 0;
+  let co2Avoided = 0;
+  const rescued = new Map<string, RescuedIngredient>();
+
+  const currentWeek = getWeekStart(today);
+  const weekly: WeeklyImpact[] = Array.from({ length: CHART_WEEKS }, (_, index) => {
+    const weekStart = new Date(currentWeek);
+    weekStart.setDate(weekStart.getDate() - (CHART_WEEKS - 1 - index) * 7);
+    return { weekStart: toDateString(weekStart), meals: 0, kilograms: 0 };
+  });
+
+  for (const recipe of recipes) {
+    let recipeKilograms = 0;
+
+    // Count each ingredient once per recipe
+    const seen = new Set<string>();
+    for (const ingredient of recipe.ingredients) {
+      const id = getCanonicalId(ingredient.name);
+      const kilograms = (estimateGrams(ingredient) ?? 0) / 1000;
+      const factors = CATEGORY_IMPACT[getIngredientCategory(ingredient.name)];
+      recipeKilograms += kilograms;
+      moneySaved += kilograms * factors.pricePerKg;
+      co2Avoided += kilograms * factors.co2PerKg;
+
+      const entry = rescued.get(id) ?? {
+        name: resolveIngredient(ingredient.name)?.name ?? ingredient.name,
+        count: 0,
+        kilograms: 0
+      };
+      rescued.set(id, {
+        ...entry,
+        count: seen.has(id) ? entry.count : entry.count + 1,
+        kilograms: entry.kilograms + kilograms
+      });
+      seen.add(id);
+    }
+    kilogramsUsed += recipeKilograms;
+
+    const week = weekly.find(bucket => bucket.weekStart === toDateString(getWeekStart(new Date(recipe.at))));
+    if (week) {
+      week.meals += 1;
+      week.kilograms += recipeKilograms;
+    }
+  }
+
+  const cookingDays = [...new Set(recipes.map(recipe => toDateString(new Date(recipe.at))))];
+  const streaks = calculateStreaks(cookingDays, today);
+
+  return {
+    mealsCooked: recipes.length,
+    mealsFromScans: recipes.filter(recipe => usedScannedIngredients(recipe, scans)).length,
+    scans: scans.length,
+    kilogramsUsed,
+    moneySaved,
+    co2Avoided,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    topIngredients: [...rescued.values()]
+      .sort((a, b) => b.count - a.count || b.kilograms - a.kilograms)
+      .slice(0, TOP_INGREDIENTS),
+    weekly
+  };
+}
@@ -0,0 +1,216 @@
+import { DISTINCT_PRODUCT_MODIFIERS, INGREDIENT_CATALOG } from '@/data/ingredientCatalog';
+import type { CanonicalIngredient, IngredientCategory } from '@/types/ingredient';
+
+// Words ending in "s" that are not plurals
+const NON_PLURAL_ENDINGS = /(ss|us|is|ous)$/;
+
+/**
+ * Reduce a single word to its singular form ("tomatoes" -> "tomato",
+ * "berries" -> "berry", "cloves" -> "clove")
+ */
+export function singularize(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !NON_PLURAL_ENDINGS.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Normalize an ingredient name for lookups: lowercase, strip accents and
+ * punctuation, singularize every word
+ */
+export function normalizeIngredientName(name: string): string {
+  if (!name) return '';
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+}
+
+// Every normalized spelling -> catalog entry, built once on first use
+let aliasIndex: Map<string, CanonicalIngredient> | null = null;
+// Matching resolves the same handful of names many times per recommendation run
+const resolveCache = new Map<string, CanonicalIngredient | null>();
+
+function getAliasIndex(): Map<string, CanonicalIngredient> {
+  if (aliasIndex) return aliasIndex;
+
+  aliasIndex = new Map();
+  for (const entry of INGREDIENT_CATALOG) {
+    for (const alias of [entry.id.replace(/-/g, ' '), entry.name, ...entry.synonyms]) {
+      const key = normalizeIngredientName(alias);
+      // First entry wins so more specific entries listed earlier aren't overwritten
+      if (key && !aliasIndex.has(key)) {
+        aliasIndex.set(key, entry);
+      }
+    }
+  }
+  return aliasIndex;
+}
+
+/**
+ * Look up a catalog entry by ID
+ */
+export function getCatalogEntry(id: string): CanonicalIngredient | undefined {
+  return INGREDIENT_CATALOG.find(entry => entry.id === id);
+}
+
+/**
+ * Find the longest run of words naming a catalog entry, preferring runs
+ * nearer the end, and whether the word before it makes it a different
+ * product ("almond milk" is its own thing, not milk with something added)
+ */
+function findHeadRun(normalized: string): { entry: CanonicalIngredient; distinct: boolean } | null {
+  const index = getAliasIndex();
+  const words = normalized.split(' ');
+  for (let length = words.length - 1; length > 0; length--) {
+    for (let start = words.length - length; start >= 0; start--) {
+      const entry = index.get(words.slice(start, start + length).join(' '));
+      if (entry) {
+        const distinct = start > 0 && (DISTINCT_PRODUCT_MODIFIERS[entry.id]?.includes(words[start - 1]) ?? false);
+        return { entry, distinct };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve an ingredient name ("2 scallions" parsed to "scallions", "courgette",
+ * "extra virgin olive oil") to its catalog entry.
+ *
+ * Tries the full name first, then progressively shorter word runs, preferring
+ * runs at the end of the name since that's where the head noun usually is
+ * ("leftover cooked rice" -> "rice"). Names of distinct products that end
+ * in an ingredient ("cocoa butter", "oat milk") resolve to their own entry or
+ * to nothing.
+ */
+export function resolveIngredient(name: string): CanonicalIngredient | null {
+  const normalized = normalizeIngredientName(name);
+  if (!normalized) return null;
+  if (resolveCache.has(normalized)) return resolveCache.get(normalized);
+
+  let resolved = getAliasIndex().get(normalized) ?? null;
+  if (!resolved) {
+    const run = findHeadRun(normalized);
+    resolved = run && !run.distinct ? run.entry : null;
+  }
+
+  resolveCache.set(normalized, resolved);
+  return resolved;
+}
+
+/**
+ * Check whether a name is a different product from the catalog ingredient it
+ * ends with, e.g. "oat milk" or "shea butter"
+ */
+export function isDistinctProduct(name: string): boolean {
+  const normalized = normalizeIngredientName(name);
+  if (!normalized || getAliasIndex().has(normalized)) return false;
+  return findHeadRun(normalized)?.distinct ?? false;
+}
+
+/**
+ * Get the canonical ID for an ingredient name. Names that aren't in the
+ * catalog fall back to their normalized form so identical spellings still
+ * compare equal.
+ */
+export function getCanonicalId(name: string): string {
+  return resolveIngredient(name)?.id ?? normalizeIngredientName(name);
+}
+
+/**
+ * Check whether an ingredient name resolves to a catalog entry
+ */
+export function isCatalogIngredient(name: string): boolean {
+  return resolveIngredient(name) !== null;
+}
+
+// Keyword fallback for names the catalog doesn't know
+const categoryMapping: Record<string, IngredientCategory> = {
+  // Fruits
+  apple: 'fruit',
+  banana: 'fruit',
+  orange: 'fruit',
+  strawberry: 'fruit',
+  blueberry: 'fruit',
+  
+  // Vegetables
+  tomato: 'vegetable',
+  cucumber: 'vegetable',
+  carrot: 'vegetable',
+  lettuce: 'vegetable',
+  onion: 'vegetable',
+  garlic: 'vegetable',
+  potato: 'vegetable',
+  corn: 'vegetable',
+  asparagus: 'vegetable',
+  
+  // Meats
+  chicken: 'meat',
+  beef: 'meat',
+  pork: 'meat',
+  lamb: 'meat',
+  turkey: 'meat',
+  
+  // Seafood
+  fish: 'seafood',
+  shrimp: 'seafood',
+  salmon: 'seafood',
+  tuna: 'seafood',
+  
+  // Dairy
+  milk: 'dairy',
+  cheese: 'dairy',
+  yogurt: 'dairy',
+  butter: 'dairy',
+  egg: 'dairy',
+  
+  // Grains
+  rice: 'grain',
+  bread: 'grain',
+  pasta: 'grain',
+  flour: 'grain',
+  oats: 'grain',
+  
+  // Spices
+  salt: 'spice',
+  pepper: 'spice',
+  oregano: 'spice',
+  basil: 'spice',
+  thyme: 'spice',
+  herb: 'spice',
+  seasoning: 'spice',
+  
+  // Beverages
+  water: 'beverage',
+  juice: 'beverage',
+  soda: 'beverage',
+  coffee: 'beverage',
+  tea: 'beverage',
+};
+
+/**
+ * Work out an ingredient's category (which also serves as its shopping aisle),
+ * from the catalog first, then by keyword
+ */
+export function getIngredientCategory(ingredientName: string): IngredientCategory {
+  const catalogCategory = resolveIngredient(ingredientName)?.category;
+  if (catalogCategory) return catalogCategory;
+
+  const lowerCaseName = ingredientName.toLowerCase();
+  if (categoryMapping[lowerCaseName]) return categoryMapping[lowerCaseName];
+
+  // If no exact match, try to find a partial match
+  for (const [key, value] of Object.entries(categoryMapping)) {
+    if (lowerCaseName.includes(key)) return value;
+  }
+  return 'other';
+}
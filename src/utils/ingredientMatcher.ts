@@ -0,0 +1,108 @@
+import { isDistinctProduct, normalizeIngredientName, resolveIngredient } from './ingredientCatalog';
+
+// Head nouns that name a part or form of the ingredient before them rather
+// than a different ingredient ("chicken breast" is still chicken, "tomato
+// paste" is not tomato)
+const FORM_WORDS = new Set([
+  'breast', 'thigh', 'drumstick', 'wing', 'leg', 'fillet', 'filet', 'steak',
+  'chop', 'loin', 'clove', 'leaf', 'sprig', 'stalk', 'floret', 'head', 'bulb',
+  'wedge', 'slice', 'chunk', 'piece', 'cube', 'strip', 'half', 'juice', 'zest'
+]);
+
+// Separators for lines that list alternatives or pairs, e.g. "salt and pepper"
+const ALTERNATIVE_SEPARATOR = /\s+(?:and|or|and\/or)\s+|\s*[/&]\s*/;
+
+/**
+ * Split an ingredient name into its alternatives ("salt and pepper" ->
+ * ["salt", "pepper"], "butter or margarine" -> ["butter", "margarine"])
+ */
+export function splitAlternatives(name: string): string[] {
+  if (!name) return [];
+  return name
+    .split(ALTERNATIVE_SEPARATOR)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get the head noun of an ingredient name, which in English is the last word
+ * ("extra virgin olive oil" -> "oil")
+ */
+export function getHeadNoun(name: string): string {
+  const words = normalizeIngredientName(name).split(' ');
+  return words[words.length - 1] || '';
+}
+
+/**
+ * Check whether `needle` appears in `haystack` as a run of whole words
+ */
+function containsWords(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0 || needle.length > haystack.length) return false;
+  for (let start = 0; start <= haystack.length - needle.length; start++) {
+    if (needle.every((word, i) => haystack[start + i] === word)) return true;
+  }
+  return false;
+}
+
+/**
+ * Word-level match for names that aren't both in the catalog. The shorter name
+ * must appear as whole words in the longer one, and it must either contain the
+ * longer name's head noun or that head noun must just be a form of it. This
+ * keeps "egg" out of "eggplant", "oil" out of "boiled" and "ham" out of
+ * "graham cracker" while "cheese" still matches "cheddar cheese".
+ */
+function tokensMatch(a: string, b: string): boolean {
+  const aWords = normalizeIngredientName(a).split(' ').filter(Boolean);
+  const bWords = normalizeIngredientName(b).split(' ').filter(Boolean);
+  if (aWords.length === 0 || bWords.length === 0) return false;
+
+  const [shorter, longer] = aWords.length <= bWords.length ? [aWords, bWords] : [bWords, aWords];
+  if (!containsWords(longer, shorter)) return false;
+
+  const head = longer[longer.length - 1];
+  return shorter.includes(head) || FORM_WORDS.has(head);
+}
+
+function singleIngredientsMatch(recipeIngredientName: string, userIngredientName: string): boolean {
+  const recipeEntry = resolveIngredient(recipeIngredientName);
+  const userEntry = resolveIngredient(userIngredientName);
+
+  if (recipeEntry && userEntry) {
+    return recipeEntry.id === userEntry.id;
+  }
+  // "oat milk" is named after milk but isn't it
+  if (recipeEntry || userEntry) {
+    const unresolved = recipeEntry ? userIngredientName : recipeIngredientName;
+    if (isDistinctProduct(unresolved)) return false;
+  }
+
+  return tokensMatch(recipeIngredientName, userIngredientName);
+}
+
+/**
+ * Check whether a recipe ingredient and one of the user's ingredients refer to
+ * the same thing. Both names are resolved to canonical catalog IDs first, so
+ * "scallions" matches "green onion" and "courgette" matches "zucchini".
+ * Names outside the catalog fall back to a word-boundary match on the head noun.
+ * Lines listing alternatives match if any of the alternatives do.
+ */
+export function ingredientsMatch(recipeIngredientName: string, userIngredientName: string): boolean {
+  if (!recipeIngredientName || !userIngredientName) return false;
+
+  if (singleIngredientsMatch(recipeIngredientName, userIngredientName)) return true;
+
+  const recipeAlternatives = splitAlternatives(recipeIngredientName);
+  const userAlternatives = splitAlternatives(userIngredientName);
+  if (recipeAlternatives.length <= 1 && userAlternatives.length <= 1) return false;
+
+  return recipeAlternatives.some(recipeAlt =>
+    userAlternatives.some(userAlt => singleIngredientsMatch(recipeAlt, userAlt))
+  );
+}
+
+/**
+ * Find the first of the user's ingredients that matches a recipe ingredient
+ */
+export function findMatchingUserIngredient(recipeIngredientName: string, userIngredients: string[]): string | undefined {
+  return userIngredients.find(userIngredient => ingredientsMatch(recipeIngredientName, userIngredient));
+}
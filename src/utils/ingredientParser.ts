@@ -0,0 +1,304 @@
+import type { IngredientSize, StructuredIngredient } from '@/types/ingredient';
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅕': '1/5',
+  '⅖': '2/5',
+  '⅗': '3/5',
+  '⅘': '4/5',
+  '⅙': '1/6',
+  '⅚': '5/6',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8'
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  dozen: 12,
+  half: 0.5
+};
+
+// Maps every spelling we have seen in imported recipes to a single short unit name
+const UNIT_ALIASES: Record<string, string> = {
+  cup: 'cup', cups: 'cup', c: 'cup',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbsp: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsp: 'tsp', tsps: 'tsp',
+  ounce: 'oz', ounces: 'oz', oz: 'oz',
+  'fl oz': 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  pound: 'lb', pounds: 'lb', lb: 'lb', lbs: 'lb',
+  gram: 'g', grams: 'g', gr: 'g', g: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', kg: 'kg',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', ml: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', l: 'l',
+  pint: 'pint', pints: 'pint', pt: 'pint',
+  quart: 'quart', quarts: 'quart', qt: 'quart',
+  gallon: 'gallon', gallons: 'gallon', gal: 'gallon',
+  pinch: 'pinch', pinches: 'pinch',
+  dash: 'dash', dashes: 'dash',
+  clove: 'clove', cloves: 'clove',
+  can: 'can', cans: 'can', tin: 'can', tins: 'can',
+  jar: 'jar', jars: 'jar',
+  bottle: 'bottle', bottles: 'bottle',
+  package: 'package', packages: 'package', pkg: 'package', packet: 'package', packets: 'package',
+  slice: 'slice', slices: 'slice',
+  stick: 'stick', sticks: 'stick',
+  piece: 'piece', pieces: 'piece', pcs: 'piece',
+  bunch: 'bunch', bunches: 'bunch',
+  handful: 'handful', handfuls: 'handful',
+  sprig: 'sprig', sprigs: 'sprig',
+  head: 'head', heads: 'head',
+  stalk: 'stalk', stalks: 'stalk'
+};
+
+// Words that describe how an ingredient is prepared rather than what it is
+const PREPARATION_WORDS = new Set([
+  'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'crushed',
+  'peeled', 'softened', 'melted', 'beaten', 'cubed', 'julienned', 'halved',
+  'quartered', 'drained', 'rinsed', 'trimmed', 'toasted', 'mashed', 'zested',
+  'finely', 'roughly', 'coarsely', 'thinly', 'freshly', 'lightly'
+]);
+
+const NUMBER_PATTERN = '\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?';
+const QUANTITY_REGEX = new RegExp(
+  `^(${NUMBER_PATTERN})(?:\\s*(?:-|–|—|to|or)\\s*(${NUMBER_PATTERN}))?`,
+  'i'
+);
+const SIZE_REGEX = new RegExp(`^\\(\\s*(${NUMBER_PATTERN})\\s*-?\\s*([a-zA-Z. ]+?)\\s*\\)\\s*`);
+
+/**
+ * Normalize a unit spelling ("Tablespoons", "tbsp.", "T") to its short form.
+ * Returns the trimmed lowercase input when the unit is unknown.
+ */
+export function normalizeUnit(unit: string): string {
+  if (!unit) return '';
+  const trimmed = unit.trim().replace(/\.$/, '');
+  // Capital T is the conventional shorthand for tablespoon, lowercase t for teaspoon
+  if (trimmed === 'T') return 'tbsp';
+  if (trimmed === 't') return 'tsp';
+  const lower = trimmed.toLowerCase();
+  return UNIT_ALIASES[lower] || lower;
+}
+
+/**
+ * Check whether a word is a unit we recognise
+ */
+export function isKnownUnit(unit: string): boolean {
+  if (!unit) return false;
+  const trimmed = unit.trim().replace(/\.$/, '');
+  return trimmed === 'T' || trimmed === 't' || trimmed.toLowerCase() in UNIT_ALIASES;
+}
+
+/**
+ * Parse a numeric quantity such as "2", "1.5", "1/2" or "1 1/2"
+ */
+export function parseQuantity(value: string): number | null {
+  if (!value) return null;
+  const text = replaceUnicodeFractions(value).trim().replace(',', '.');
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator ? Number(mixed[1]) + Number(mixed[2]) / denominator : null;
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator ? Number(fraction[1]) / denominator : null;
+  }
+
+  const wordValue = NUMBER_WORDS[text.toLowerCase()];
+  if (wordValue !== undefined) return wordValue;
+
+  const parsed = parseFloat(text);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function replaceUnicodeFractions(text: string): string {
+  return text
+    .replace(/⁄/g, '/')
+    // "1½" -> "1 1/2", "½" -> "1/2"
+    .replace(/(\d)?([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole, fraction) =>
+      `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`
+    );
+}
+
+function emptyIngredient(raw: string): StructuredIngredient {
+  return {
+    raw,
+    quantity: null,
+    quantityMax: null,
+    unit: '',
+    name: raw.trim(),
+    size: null,
+    preparation: '',
+    toTaste: false,
+    optional: false
+  };
+}
+
+function takeSize(text: string): { size: IngredientSize | null; rest: string } {
+  const match = text.match(SIZE_REGEX);
+  if (!match) return { size: null, rest: text };
+
+  const quantity = parseQuantity(match[1]);
+  const unit = match[2].trim();
+  if (quantity === null || !isKnownUnit(unit)) return { size: null, rest: text };
+
+  return {
+    size: { quantity, unit: normalizeUnit(unit) },
+    rest: text.slice(match[0].length)
+  };
+}
+
+function takeUnit(text: string): { unit: string; rest: string } {
+  const words = text.split(/\s+/);
+
+  // Two-word units first ("fl oz", "fluid ounces")
+  if (words.length > 2) {
+    const twoWords = `${words[0]} ${words[1]}`.replace(/\.$/, '');
+    if (twoWords.toLowerCase() in UNIT_ALIASES) {
+      return { unit: normalizeUnit(twoWords), rest: words.slice(2).join(' ') };
+    }
+  }
+
+  // Only treat the first word as a unit when something follows it,
+  // otherwise "2 cloves" would lose its name entirely
+  if (words.length > 1 && isKnownUnit(words[0])) {
+    return { unit: normalizeUnit(words[0]), rest: words.slice(1).join(' ') };
+  }
+
+  return { unit: '', rest: text };
+}
+
+function splitPreparation(text: string): { name: string; preparation: string } {
+  const preparationParts: string[] = [];
+  let name = text;
+
+  // Anything after the first comma is a preparation note ("onion, finely chopped")
+  const commaIndex = name.indexOf(',');
+  if (commaIndex !== -1) {
+    preparationParts.push(name.slice(commaIndex + 1).trim());
+    name = name.slice(0, commaIndex);
+  }
+
+  // Leading preparation words ("finely chopped onion")
+  const words = name.trim().split(/\s+/);
+  const leading: string[] = [];
+  while (words.length > 1 && PREPARATION_WORDS.has(words[0].toLowerCase())) {
+    leading.push(words.shift());
+  }
+  if (leading.length) {
+    preparationParts.unshift(leading.join(' '));
+  }
+
+  return {
+    name: words.join(' '),
+    preparation: preparationParts.filter(Boolean).join(', ')
+  };
+}
+
+/**
+ * Parse a free-form ingredient line such as "1 1/2 cups flour, sifted",
+ * "2-3 cloves garlic", "1 (14 oz) can tomatoes" or "Salt to taste"
+ * into a StructuredIngredient.
+ */
+export function parseIngredient(raw: string): StructuredIngredient {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return emptyIngredient(typeof raw === 'string' ? raw : String(raw ?? ''));
+  }
+
+  const result = emptyIngredient(raw);
+  let text = replaceUnicodeFractions(raw)
+    .replace(/^[\s\-•*▢]+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Flags that can appear anywhere in the line
+  if (/\(?\boptional\b\)?/i.test(text)) {
+    result.optional = true;
+    text = text.replace(/,?\s*\(?\boptional\b\)?/i, '').trim();
+  }
+  if (/\b(to taste|as needed|for serving|for garnish)\b/i.test(text)) {
+    result.toTaste = true;
+    text = text.replace(/,?\s*\b(to taste|as needed|for serving|for garnish)\b/i, '').trim();
+  }
+
+  // Quantity attached to a unit ("300g", "1.5kg")
+  text = text.replace(/^(\d+(?:[.,]\d+)?)([a-zA-Z]+)\b/, (match, amount, unit) =>
+    isKnownUnit(unit) ? `${amount} ${unit}` : match
+  );
+
+  const quantityMatch = text.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    result.quantity = parseQuantity(quantityMatch[1]);
+    result.quantityMax = quantityMatch[2] ? parseQuantity(quantityMatch[2]) : null;
+    text = text.slice(quantityMatch[0].length).trim();
+  } else {
+    // Spelled-out quantities ("a pinch of salt", "two eggs")
+    const firstWord = text.split(' ')[0]?.toLowerCase();
+    if (firstWord in NUMBER_WORDS && text.includes(' ')) {
+      result.quantity = NUMBER_WORDS[firstWord];
+      text = text.slice(firstWord.length).trim();
+    }
+  }
+
+  // Size may come before or after the unit: "1 (14 oz) can" / "1 can (14 oz)"
+  let sized = takeSize(text);
+  result.size = sized.size;
+  text = sized.rest;
+
+  const { unit, rest } = takeUnit(text);
+  result.unit = unit;
+  text = rest;
+
+  if (!result.size) {
+    sized = takeSize(text);
+    result.size = sized.size;
+    text = sized.rest;
+  }
+
+  text = text.replace(/^of\s+/i, '');
+
+  // Remaining parentheticals are notes, e.g. "(about 2 cups)"
+  const notes: string[] = [];
+  text = text.replace(/\(([^)]*)\)/g, (_, note) => {
+    if (note.trim()) notes.push(note.trim());
+    return '';
+  }).replace(/\s+/g, ' ').trim();
+
+  const { name, preparation } = splitPreparation(text);
+  result.name = name.replace(/[\s,;.]+$/, '').trim() || raw.trim();
+  result.preparation = [preparation, ...notes].filter(Boolean).join(', ');
+
+  return result;
+}
+
+/**
+ * Parse a list of ingredient lines, skipping empty entries
+ */
+export function parseIngredients(lines: string[]): StructuredIngredient[] {
+  if (!Array.isArray(lines)) return [];
+  return lines
+    .filter(line => typeof line === 'string' && line.trim().length > 0)
+    .map(parseIngredient);
+}
@@ -0,0 +1,268 @@
+import type { Recipe, MatchReport, RequirementCheck, IngredientMatch, IngredientSubstitution } from '@/types/recipe';
+import {
+  calculateIngredientCoverage,
+  findIngredientShortfalls,
+  getStructuredIngredients,
+  isPantryStaple,
+  toUserIngredient,
+  UserIngredientInput
+} from './recipeUtils';
+import { findMatchingUserIngredient } from './ingredientMatcher';
+import { findAvailableSubstitute, getSubstitutionContext } from './substitutions';
+import { calculateWasteScore, findExpiringIngredients } from './expiry';
+import { checkDietCompliance, formatDietCompliance, isSupportedDiet } from './dietCompliance';
+import { getRecipeCalories } from './nutrition';
+import { formatDuration, getRecipeTimes } from './duration';
+import { findMissingEquipment, formatEquipmentRequirements } from './equipment';
+import { getCuisineLabels, getRecipeCuisines, matchesCuisines } from './cuisine';
+import type { Equipment } from '@/types/equipment';
+import type { Cuisine } from '@/types/cuisine';
+
+export interface MatchReportOptions {
+  pantryStaples?: string[];
+  dietaryFilters?: string[];
+  calorieLimit?: number;
+  /** Longest total time in minutes */
+  maxTotalTime?: number;
+  /** What the user's kitchen has */
+  equipment?: Equipment[];
+  /** Cuisines the user picked */
+  cuisines?: Cuisine[];
+}
+
+const NOT_REQUIRED: RequirementCheck = { required: false, passed: true, reason: '' };
+
+// How much using up expiring food counts next to ingredient coverage when ranking
+export const WASTE_WEIGHT = 0.3;
+
+// Tags that count for dietary filters the rules engine can't decide
+const DIET_TAG_ALIASES: Record<string, string[]> = {
+  'high-protein': ['high-protein', 'protein-rich'],
+  'low-carb': ['low-carb']
+};
+
+/**
+ * Check whether a recipe's dietary tags include a filter
+ */
+function isTaggedFor(recipe: Recipe, dietaryFilter: string): boolean {
+  const filter = dietaryFilter.toLowerCase();
+  const aliases = DIET_TAG_ALIASES[filter] || [filter];
+  return (recipe.dietaryTags || []).some(tag =>
+    aliases.some(alias => tag.toLowerCase().includes(alias) || alias.includes(tag.toLowerCase()))
+  );
+}
+
+/**
+ * Check a recipe against one dietary filter. Diets the rules engine knows are
+ * decided from the ingredients whatever the recipe's source or tags, except
+ * that ingredients we know nothing about have to be vouched for by a tag.
+ * Anything else (or a recipe with no ingredient list) falls back to the
+ * dietary tags.
+ */
+function checkSingleDiet(recipe: Recipe, dietaryFilter: string): RequirementCheck {
+  if (isSupportedDiet(dietaryFilter) && getStructuredIngredients(recipe).length > 0) {
+    const compliance = checkDietCompliance(recipe, dietaryFilter);
+    const unchecked = compliance.compliant && compliance.unknownIngredients.length > 0;
+    const tagged = unchecked && isTaggedFor(recipe, dietaryFilter);
+    return {
+      required: true,
+      passed: compliance.compliant && (!unchecked || tagged),
+      reason: tagged ? `${formatDietCompliance(compliance)}, but tagged ${dietaryFilter}` : formatDietCompliance(compliance),
+      violations: compliance.violations
+    };
+  }
+
+  const passed = isTaggedFor(recipe, dietaryFilter);
+  return {
+    required: true,
+    passed,
+    reason: passed ? `Tagged ${dietaryFilter}` : `Not tagged ${dietaryFilter}`
+  };
+}
+
+/**
+ * Check a recipe against every one of the user's dietary filters; it passes
+ * only if it satisfies all of them
+ */
+export function checkDiet(recipe: Recipe, dietaryFilters: string[] = []): RequirementCheck {
+  const checks = dietaryFilters
+    .filter(filter => filter && filter !== 'none')
+    .map(filter => checkSingleDiet(recipe, filter));
+  if (checks.length === 0) return NOT_REQUIRED;
+
+  const failed = checks.filter(check => !check.passed);
+  return {
+    required: true,
+    passed: failed.length === 0,
+    reason: (failed.length > 0 ? failed : checks).map(check => check.reason).join('; '),
+    violations: checks.flatMap(check => check.violations || [])
+  };
+}
+
+/**
+ * Check a recipe's calories per serving against the user's calorie limit,
+ * estimating them from the ingredients when the source gave none
+ */
+export function checkCalories(recipe: Recipe, calorieLimit?: number): RequirementCheck {
+  if (!calorieLimit) return NOT_REQUIRED;
+  const recipeCalories = getRecipeCalories(recipe);
+  if (!recipeCalories) {
+    return { required: true, passed: true, reason: 'Calories unknown' };
+  }
+
+  const { calories, estimated } = recipeCalories;
+  const amount = estimated ? `About ${calories} kcal` : `${calories} kcal`;
+  const passed = calories <= calorieLimit;
+  return {
+    required: true,
+    passed,
+    reason: passed
+      ? `${amount}, within ${calorieLimit}`
+      : `${amount}, over ${calorieLimit}`
+  };
+}
+
+/**
+ * Check a recipe's total time against the user's time limit
+ */
+export function checkTime(recipe: Recipe, maxTotalTime?: number): RequirementCheck {
+  if (!maxTotalTime) return NOT_REQUIRED;
+  const { total } = getRecipeTimes(recipe);
+  if (total === null) {
+    return { required: true, passed: true, reason: 'Time unknown' };
+  }
+
+  const passed = total <= maxTotalTime;
+  return {
+    required: true,
+    passed,
+    reason: passed
+      ? `${formatDuration(total)}, within ${formatDuration(maxTotalTime)}`
+      : `${formatDuration(total)}, over ${formatDuration(maxTotalTime)}`
+  };
+}
+
+/**
+ * Check that a recipe doesn't need equipment the user's kitchen lacks
+ */
+export function checkEquipment(recipe: Recipe, equipment?: Equipment[]): RequirementCheck {
+  if (!equipment) return NOT_REQUIRED;
+  const missing = findMissingEquipment(recipe, equipment);
+  return {
+    required: true,
+    passed: missing.length === 0,
+    reason: missing.length === 0 ? 'Works with your kitchen' : `Needs ${formatEquipmentRequirements(missing)}`
+  };
+}
+
+/**
+ * Check that a recipe is one of the cuisines the user picked
+ */
+export function checkCuisine(recipe: Recipe, cuisines: Cuisine[] = []): RequirementCheck {
+  if (cuisines.length === 0) return NOT_REQUIRED;
+  const recipeCuisines = getCuisineLabels(getRecipeCuisines(recipe));
+  const wanted = getCuisineLabels(cuisines).join(' or ');
+  if (matchesCuisines(recipe, cuisines)) {
+    return { required: true, passed: true, reason: recipeCuisines.join(', ') };
+  }
+  return {
+    required: true,
+    passed: false,
+    reason: recipeCuisines.length > 0 ? `${recipeCuisines.join(', ')}, not ${wanted}` : `Not known to be ${wanted}`
+  };
+}
+
+/**
+ * Explain how a recipe matches the user's ingredients and requirements
+ */
+export function buildMatchReport(recipe: Recipe, userIngredients: UserIngredientInput[], options: MatchReportOptions = {}): MatchReport {
+  const { pantryStaples = [], dietaryFilters, calorieLimit, maxTotalTime, equipment, cuisines } = options;
+  const userNames = (userIngredients || []).map(ingredient => toUserIngredient(ingredient).name);
+
+  const recipeIngredients = getStructuredIngredients(recipe);
+  const context = getSubstitutionContext(recipe);
+  const matchedIngredients: IngredientMatch[] = [];
+  const staplesAssumed: string[] = [];
+  const substitutions: IngredientSubstitution[] = [];
+  const missingIngredients: string[] = [];
+
+  for (const recipeIngredient of recipeIngredients) {
+    const userIngredient = findMatchingUserIngredient(recipeIngredient.name, userNames);
+    if (userIngredient) {
+      matchedIngredients.push({ recipeIngredient: recipeIngredient.name, userIngredient });
+    } else if (isPantryStaple(recipeIngredient.name, pantryStaples)) {
+      staplesAssumed.push(recipeIngredient.name);
+    } else {
+      const substitution = findAvailableSubstitute(recipeIngredient.name, userNames, pantryStaples, context, dietaryFilters);
+      if (substitution) {
+        substitutions.push(substitution);
+      } else {
+        missingIngredients.push(recipeIngredient.name);
+      }
+    }
+  }
+
+  return {
+    score: calculateIngredientCoverage(recipe, userIngredients, pantryStaples, dietaryFilters),
+    totalIngredients: recipeIngredients.length,
+    matchedIngredients,
+    missingIngredients,
+    staplesAssumed,
+    substitutions,
+    shortfalls: findIngredientShortfalls(recipe, userIngredients),
+    dietCheck: checkDiet(recipe, dietaryFilters),
+    calorieCheck: checkCalories(recipe, calorieLimit),
+    timeCheck: checkTime(recipe, maxTotalTime),
+    equipmentCheck: checkEquipment(recipe, equipment),
+    cuisineCheck: checkCuisine(recipe, cuisines),
+    // Something to swap in for everything the user is missing
+    makeable: missingIngredients.length === 0,
+    expiringIngredients: findExpiringIngredients(recipe, userIngredients),
+    wasteScore: calculateWasteScore(recipe, userIngredients)
+  };
+}
+
+/**
+ * Return copies of the recipes with a fresh match report attached
+ */
+export function attachMatchReports(recipes: Recipe[], userIngredients: UserIngredientInput[], options: MatchReportOptions = {}): Recipe[] {
+  return recipes.map(recipe => ({
+    ...recipe,
+    matchReport: buildMatchReport(recipe, userIngredients, options)
+  }));
+}
+
+/**
+ * Score used to rank recommendations: ingredient coverage, boosted for
+ * recipes that use up food about to expire
+ */
+export function getRankingScore(report: MatchReport): number {
+  return report.score + WASTE_WEIGHT * (report.wasteScore || 0);
+}
+
+/**
+ * Check whether a recipe passed every requirement the user set
+ */
+export function meetsRequirements(report: MatchReport): boolean {
+  return report.dietCheck.passed && report.calorieCheck.passed && report.timeCheck.passed &&
+    report.equipmentCheck.passed && report.cuisineCheck.passed;
+}
+
+/**
+ * Count the recipe ingredients the user has, including staples and substitutes
+ */
+export function countOwnedIngredients(report: MatchReport): number {
+  return report.matchedIngredients.length + report.staplesAssumed.length + report.substitutions.length;
+}
+
+/**
+ * Summarize a match report for a recipe card,
+ * e.g. "You have 5/7 ingredients, missing: cream, thyme"
+ */
+export function formatMatchSummary(report: MatchReport): string {
+  const owned = Math.min(countOwnedIngredients(report), report.totalIngredients);
+  const summary = `You have ${owned}/${report.totalIngredients} ingredients`;
+  return report.missingIngredients.length > 0
+    ? `${summary}, missing: ${report.missingIngredients.join(', ')}`
+    : summary;
+}
@@ -0,0 +1,105 @@
+import type { Recipe } from '@/types/recipe';
+import type { StructuredIngredient } from '@/types/ingredient';
+import type { Nutrients, RecipeNutrition } from '@/types/nutrition';
+import { INGREDIENT_NUTRIENTS, COOKED_NUTRIENTS, CATEGORY_NUTRIENTS, UNIT_GRAMS } from '@/data/nutrients';
+import { getIngredientCategory, normalizeIngredientName, resolveIngredient } from './ingredientCatalog';
+import { normalizeUnit } from './ingredientParser';
+import { getStructuredIngredients } from './recipeUtils';
+import { estimateGrams } from './impact';
+
+// Assumed when a recipe doesn't say how many it serves
+const DEFAULT_SERVINGS = 4;
+// Below this share of measured ingredients an estimate is too low to filter on
+const MIN_COVERAGE = 0.5;
+
+type NutritionSource = Pick<Recipe, 'ingredients' | 'structuredIngredients' | 'servings'>;
+
+// Grains already cooked weigh mostly water
+const COOKED_PATTERN = /\b(cooked|leftover|boiled|steamed)\b/;
+
+/**
+ * Get an ingredient's nutrients per 100 g, from the catalog or its category
+ */
+export function getNutrientProfile(ingredientName: string): Nutrients {
+  const id = resolveIngredient(ingredientName)?.id;
+  if (id && COOKED_NUTRIENTS[id] && COOKED_PATTERN.test(normalizeIngredientName(ingredientName))) {
+    return COOKED_NUTRIENTS[id];
+  }
+  return (id && INGREDIENT_NUTRIENTS[id]) ?? CATEGORY_NUTRIENTS[getIngredientCategory(ingredientName)];
+}
+
+/**
+ * Estimate the weight of a recipe ingredient in grams, using the package size
+ * when one is given ("1 (14 oz) can") and a typical weight for cloves, cans
+ * and the like. Returns null when the amount can't be worked out.
+ */
+export function estimateIngredientGrams(ingredient: StructuredIngredient): number | null {
+  if (ingredient.size) {
+    const perItem = estimateGrams({ name: ingredient.name, ...ingredient.size });
+    if (perItem !== null) return (ingredient.quantity ?? 1) * perItem;
+  }
+
+  const grams = estimateGrams(ingredient);
+  if (grams !== null || ingredient.quantity === null) return grams;
+
+  const unitGrams = UNIT_GRAMS[normalizeUnit(ingredient.unit)];
+  return unitGrams ? ingredient.quantity * unitGrams : null;
+}
+
+/**
+ * Estimate a recipe's calories and macros per serving from its ingredients.
+ * Seasoning "to taste" and optional extras are left out. Returns null when
+ * fewer than half the remaining ingredients could be measured.
+ */
+export function estimateRecipeNutrition(recipe: NutritionSource): RecipeNutrition | null {
+  const ingredients = getStructuredIngredients(recipe)
+    .filter(ingredient => ingredient.name && !ingredient.toTaste && !ingredient.optional);
+  if (ingredients.length === 0) return null;
+
+  const totals: Nutrients = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  let measured = 0;
+  for (const ingredient of ingredients) {
+    const grams = estimateIngredientGrams(ingredient);
+    if (grams === null) continue;
+
+    const profile = getNutrientProfile(ingredient.name);
+    totals.calories += profile.calories * grams / 100;
+    totals.protein += profile.protein * grams / 100;
+    totals.carbs += profile.carbs * grams / 100;
+    totals.fat += profile.fat * grams / 100;
+    measured++;
+  }
+
+  const coverage = measured / ingredients.length;
+  if (coverage < MIN_COVERAGE) return null;
+
+  const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : DEFAULT_SERVINGS;
+  const perServing = (value: number, decimals: number) => {
+    const factor = 10 ** decimals;
+    return Math.round(value / servings * factor) / factor;
+  };
+  return {
+    calories: perServing(totals.calories, 0),
+    protein: perServing(totals.protein, 1),
+    carbs: perServing(totals.carbs, 1),
+    fat: perServing(totals.fat, 1),
+    coverage: Math.round(coverage * 100) / 100
+  };
+}
+
+/**
+ * Attach a nutrition estimate to a recipe that doesn't have one yet
+ */
+export function withNutrition<T extends NutritionSource & Pick<Recipe, 'nutrition'>>(recipe: T): T {
+  return recipe.nutrition ? recipe : { ...recipe, nutrition: estimateRecipeNutrition(recipe) };
+}
+
+/**
+ * Get a recipe's calories per serving: the source's own figure when it gave
+ * one, otherwise the estimate from its ingredients
+ */
+export function getRecipeCalories(recipe: Recipe): { calories: number; estimated: boolean } | null {
+  if (recipe.calories) return { calories: recipe.calories, estimated: false };
+  const nutrition = recipe.nutrition ?? estimateRecipeNutrition(recipe);
+  return nutrition ? { calories: nutrition.calories, estimated: true } : null;
+}
@@ -0,0 +1,160 @@
+import type { Recipe } from '@/types/recipe';
+import type { PantryItem, PantryUsage, IngredientDates } from '@/types/ingredient';
+import type { IdentifiedIngredient } from '@/services/llmSchemas';
+import { getCanonicalId } from './ingredientCatalog';
+import { ingredientsMatch } from './ingredientMatcher';
+import { getStructuredIngredients } from './recipeUtils';
+import { normalizeUnit } from './ingredientParser';
+import { convertUnit } from './unitConversion';
+
+export type NewPantryItem = Pick<PantryItem, 'name' | 'quantity' | 'unit'> & Partial<IngredientDates> & Partial<Pick<PantryItem, 'leftover'>>;
+
+/**
+ * Create a pantry item with a fresh ID
+ */
+export function createPantryItem(item: NewPantryItem): PantryItem {
+  const prefix = item.leftover ? 'leftover' : getCanonicalId(item.name).replace(/\s+/g, '-');
+  return {
+    id: `${prefix}-${Math.random().toString(36).slice(2, 8)}`,
+    name: item.name.trim(),
+    quantity: item.quantity,
+    unit: item.unit,
+    purchasedOn: item.purchasedOn ?? null,
+    openedOn: item.openedOn ?? null,
+    expiresOn: item.expiresOn ?? null,
+    leftover: item.leftover ?? false,
+    addedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Turn the ingredients identified in a photo into pantry items. They're
+ * taken to have been bought on the day of the scan (a YYYY-MM-DD date), so
+ * their expiry can be estimated like hand-added items'.
+ */
+export function toScannedPantryItems(ingredients: IdentifiedIngredient[], scannedOn: string): NewPantryItem[] {
+  return ingredients.map(ingredient => {
+    const quantity = parseFloat(ingredient.quantity);
+    return {
+      name: ingredient.name,
+      quantity: isNaN(quantity) ? 1 : quantity, // Use identified quantity or default to 1
+      unit: ingredient.unit || 'pieces', // Use identified unit or default to pieces
+      purchasedOn: scannedOn
+    };
+  });
+}
+
+/**
+ * The pantry item for leftover portions of a cooked recipe
+ */
+export function createLeftoverItem(recipeTitle: string, portions: number, useBy: string | null): NewPantryItem {
+  return {
+    name: `Leftover ${recipeTitle}`,
+    quantity: portions,
+    unit: 'portions',
+    openedOn: null,
+    purchasedOn: null,
+    expiresOn: useBy,
+    leftover: true
+  };
+}
+
+/**
+ * Find the pantry item an addition tops up: the same ingredient, or for a
+ * leftover the dish with exactly the same name. "Leftover Fried Rice"
+ * resolves to rice, so leftovers are kept apart from ingredients.
+ */
+function findMergeTarget(items: PantryItem[], addition: NewPantryItem): number {
+  if (addition.leftover) {
+    const name = addition.name.trim().toLowerCase();
+    return items.findIndex(item => item.leftover && item.name.trim().toLowerCase() === name);
+  }
+  const canonicalId = getCanonicalId(addition.name);
+  return items.findIndex(item => !item.leftover && getCanonicalId(item.name) === canonicalId);
+}
+
+/**
+ * Add new items (e.g. from a photo scan) to the pantry. An item the pantry
+ * already has is topped up instead of duplicated: amounts are added when the
+ * units convert, otherwise the newer amount replaces the old one.
+ * Returns the full pantry and the items that were added or changed.
+ */
+export function mergePantryItems(existing: PantryItem[], additions: NewPantryItem[]): { items: PantryItem[]; changed: PantryItem[] } {
+  const items = [...existing];
+  const changed: PantryItem[] = [];
+
+  for (const addition of additions) {
+    const index = findMergeTarget(items, addition);
+
+    if (index === -1) {
+      const created = createPantryItem(addition);
+      items.push(created);
+      changed.push(created);
+      continue;
+    }
+
+    const item = items[index];
+    let { quantity, unit } = addition;
+    if (item.quantity !== null && addition.quantity !== null) {
+      // "pieces" and '' are the same count unit
+      const converted = convertUnit(addition.quantity, normalizeUnit(addition.unit), normalizeUnit(item.unit), item.name);
+      if (converted !== null) {
+        quantity = item.quantity + converted;
+        unit = item.unit;
+      }
+    } else if (addition.quantity === null) {
+      quantity = item.quantity;
+      unit = item.unit;
+    }
+
+    const updated: PantryItem = {
+      ...item,
+      quantity,
+      unit,
+      // Keep the existing dates: the older stock goes off first
+      purchasedOn: item.purchasedOn ?? addition.purchasedOn ?? null,
+      openedOn: item.openedOn ?? addition.openedOn ?? null,
+      expiresOn: item.expiresOn ?? addition.expiresOn ?? null
+    };
+    items[index] = updated;
+    changed.push(updated);
+  }
+
+  return { items, changed };
+}
+
+// Leftover amounts smaller than this count as used up
+const USED_UP_EPSILON = 0.01;
+
+/**
+ * Work out how much of each pantry item cooking a recipe uses. `scale`
+ * multiplies the recipe's amounts (servings cooked / servings in the recipe).
+ * Ingredients without a known amount, or whose units can't be converted to
+ * the pantry item's, are left alone, and leftovers are never drawn on.
+ */
+export function calculatePantryUsage(recipe: Recipe, items: PantryItem[], scale: number = 1): PantryUsage[] {
+  const usage = new Map<string, PantryUsage>();
+
+  for (const ingredient of getStructuredIngredients(recipe)) {
+    if (ingredient.quantity === null || ingredient.toTaste) continue;
+
+    const item = items.find(pantryItem => !pantryItem.leftover && ingredientsMatch(ingredient.name, pantryItem.name));
+    if (!item || item.quantity === null) continue;
+
+    const needed = convertUnit(ingredient.quantity * scale, ingredient.unit, normalizeUnit(item.unit), ingredient.name);
+    if (needed === null) continue;
+
+    // Several recipe lines can draw on the same item
+    const current = usage.get(item.id) ?? { itemId: item.id, name: item.name, used: 0, remaining: item.quantity, unit: item.unit };
+    const used = Math.min(needed, current.remaining);
+    const remaining = current.remaining - used;
+    usage.set(item.id, {
+      ...current,
+      used: current.used + used,
+      remaining: remaining < USED_UP_EPSILON ? 0 : remaining
+    });
+  }
+
+  return [...usage.values()].filter(entry => entry.used > 0);
+}
+
@@ -1,5 +1,9 @@
 import { addRecipe } from '../services/firebaseService';
 import type { Recipe } from '../services/recipeService';
+import { parseIngredients } from './ingredientParser';
+import { withNutrition } from './nutrition';
+import { classifyRecipeCuisines } from './cuisine';
+import { ExternalRecipeSchema, formatSchemaIssues } from '../services/llmSchemas';
 
 /**
  * Convert external recipe JSON format to our app's format
@@ -28,6 +32,7 @@ export function convertExternalRecipeFormat(externalRecipe: any): Omit<Recipe, '
   // Extract cooking times
   const prepTime = externalRecipe.prep_time || externalRecipe.prepTime || '';
   const cookTime = externalRecipe.cook_time || externalRecipe.cookTime || '';
+  const totalTime = externalRecipe.total_time || externalRecipe.totalTime || '';
   
   // Extract servings
   const servings = typeof externalRecipe.servings === 'number' 
@@ -37,19 +42,30 @@ export function convertExternalRecipeFormat(externalRecipe: any): Omit<Recipe, '
   // Extract image URL
   const image = externalRecipe.image_url || externalRecipe.imageUrl || externalRecipe.image || '';
 
+  // Extract cuisines, classifying the recipe when none are given
+  const title = externalRecipe.title || 'Untitled Recipe';
+  const structuredIngredients = parseIngredients(ingredients);
+  const cuisines = classifyRecipeCuisines(
+    { title, ingredients, structuredIngredients },
+    [].concat(externalRecipe.cuisines || externalRecipe.cuisine || [])
+  );
+
   // Convert to our app's format
-  return {
-    title: externalRecipe.title || 'Untitled Recipe',
+  return withNutrition({
+    title,
     description: externalRecipe.description || '',
     ingredients,
+    structuredIngredients,
     image,
     prepTime,
     cookTime,
+    totalTime,
     servings,
     calories: 0, // Default if not provided
     dietaryTags: [], // Default if not provided
+    cuisines,
     instructions,
-  };
+  });
 }
 
 /**
@@ -57,9 +73,15 @@ export function convertExternalRecipeFormat(externalRecipe: any): Omit<Recipe, '
  * @param recipeJson The external recipe JSON data
  * @returns Promise with the ID of the newly added recipe
  */
-export async function importExternalRecipeToFirebase(recipeJson: any): Promise<string> {
+export async function importExternalRecipeToFirebase(recipeJson: unknown): Promise<string> {
+  // Nothing malformed gets saved, whether a model or a person wrote it
+  const validation = ExternalRecipeSchema.safeParse(recipeJson);
+  if (!validation.success) {
+    throw new Error(`Invalid recipe data: ${formatSchemaIssues(validation.error).join('; ')}`);
+  }
+
   // Convert to our app's format
-  const convertedRecipe = convertExternalRecipeFormat(recipeJson);
+  const convertedRecipe = convertExternalRecipeFormat(validation.data);
   
   // Save to Firebase
   return await addRecipe(convertedRecipe);
@@ -0,0 +1,114 @@
+import type { Recipe, RecipePlan, PlannedRecipe } from '@/types/recipe';
+import type { UserIngredient } from '@/types/ingredient';
+import { calculateIngredientCoverage, getStructuredIngredients, toUserIngredient, UserIngredientInput } from './recipeUtils';
+import { ingredientsMatch } from './ingredientMatcher';
+import { convertUnit, getUnitDimension } from './unitConversion';
+import { getExpiryWeight } from './expiry';
+
+export interface PlanOptions {
+  /** Most recipes to put in the plan */
+  maxRecipes?: number;
+  /** Keep adding recipes up to this many even once gains get small */
+  minRecipes?: number;
+  pantryStaples?: string[];
+  /** Substitutions that break one of these diets don't count as covered */
+  dietaryFilters?: string[];
+}
+
+const DEFAULT_MAX_RECIPES = 4;
+const DEFAULT_MIN_RECIPES = 2;
+
+// Amounts at which an ingredient counts double; anything larger is capped there
+const LARGE_MASS_G = 500;
+const LARGE_COUNT = 6;
+
+/**
+ * How much using up an ingredient is worth. Larger amounts and food that's
+ * about to expire are worth more; an ingredient with neither is worth 1.
+ */
+export function getIngredientWeight(ingredient: UserIngredient, today: Date = new Date()): number {
+  let amountFactor = 1;
+  if (ingredient.quantity !== null && ingredient.quantity > 0) {
+    if (getUnitDimension(ingredient.unit) === 'count') {
+      amountFactor = 1 + Math.min(1, ingredient.quantity / LARGE_COUNT);
+    } else {
+      // Volumes are compared as weight using the ingredient's density
+      const grams = convertUnit(ingredient.quantity, ingredient.unit, 'g', ingredient.name);
+      if (grams !== null) amountFactor = 1 + Math.min(1, grams / LARGE_MASS_G);
+    }
+  }
+  return amountFactor * (1 + getExpiryWeight(ingredient.expiresOn, today));
+}
+
+/**
+ * Pick a few recipes that together use as much of the user's food as possible.
+ *
+ * Greedy set cover: each round takes the recipe that uses the most (weighted)
+ * ingredients not yet used by the plan, scaled by how well the user can make
+ * it, until the plan is full or nothing more would be used.
+ */
+export function planRecipes(recipes: Recipe[], userIngredients: UserIngredientInput[], options: PlanOptions = {}): RecipePlan {
+  const {
+    maxRecipes = DEFAULT_MAX_RECIPES,
+    minRecipes = DEFAULT_MIN_RECIPES,
+    pantryStaples = [],
+    dietaryFilters = []
+  } = options;
+
+  const ingredients = (userIngredients || []).map(toUserIngredient);
+  const weights = ingredients.map(ingredient => getIngredientWeight(ingredient));
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+
+  // Which of the user's ingredients each recipe uses, and how makeable it is
+  const candidates = recipes.map(recipe => {
+    const recipeIngredients = getStructuredIngredients(recipe);
+    return {
+      recipe,
+      uses: ingredients
+        .map((ingredient, index) => recipeIngredients.some(recipeIng => ingredientsMatch(recipeIng.name, ingredient.name)) ? index : -1)
+        .filter(index => index >= 0),
+      coverage: calculateIngredientCoverage(recipe, userIngredients, pantryStaples, dietaryFilters)
+    };
+  });
+
+  const used = new Set<number>();
+  const planned: PlannedRecipe[] = [];
+
+  while (planned.length < maxRecipes && candidates.length > 0) {
+    let bestIndex = -1;
+    let bestGain = 0;
+
+    candidates.forEach((candidate, index) => {
+      const newWeight = candidate.uses
+        .filter(ingredientIndex => !used.has(ingredientIndex))
+        .reduce((total, ingredientIndex) => total + weights[ingredientIndex], 0);
+      // Half credit for using food even if the recipe is hard to make
+      const gain = newWeight * (0.5 + 0.5 * candidate.coverage);
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1) break;
+    // Past the minimum, stop once a recipe would use up less than one small item
+    if (planned.length >= minRecipes && bestGain < 0.5) break;
+
+    const [best] = candidates.splice(bestIndex, 1);
+    const newlyUsed = best.uses.filter(index => !used.has(index));
+    newlyUsed.forEach(index => used.add(index));
+    planned.push({
+      recipe: best.recipe,
+      newlyUsedIngredients: newlyUsed.map(index => ingredients[index].name)
+    });
+  }
+
+  const usedWeight = [...used].reduce((total, index) => total + weights[index], 0);
+
+  return {
+    recipes: planned,
+    usedIngredients: ingredients.filter((_, index) => used.has(index)).map(ingredient => ingredient.name),
+    unusedIngredients: ingredients.filter((_, index) => !used.has(index)).map(ingredient => ingredient.name),
+    coverage: totalWeight > 0 ? usedWeight / totalWeight : 0
+  };
+}
@@ -1,49 +1,193 @@
 import { Recipe } from '@/types/recipe';
+import type { StructuredIngredient, UserIngredient, IngredientShortfall } from '@/types/ingredient';
+import { parseIngredients, normalizeUnit } from './ingredientParser';
+import { ingredientsMatch, splitAlternatives, getHeadNoun } from './ingredientMatcher';
+import { resolveIngredient, normalizeIngredientName } from './ingredientCatalog';
+import { convertUnit } from './unitConversion';
+import { findAvailableSubstitute, getSubstitutionContext } from './substitutions';
 
-export function calculateIngredientCoverage(recipe: Recipe, userIngredients: string[]): number {
+// Ingredients can be passed as plain names or with the amount the user has
+export type UserIngredientInput = string | UserIngredient;
+
+/**
+ * Get the parsed ingredients for a recipe, parsing the raw lines when the
+ * recipe was stored before structured ingredients existed
+ */
+export function getStructuredIngredients(recipe: Pick<Recipe, 'ingredients' | 'structuredIngredients'>): StructuredIngredient[] {
+  if (Array.isArray(recipe.structuredIngredients) && recipe.structuredIngredients.length > 0) {
+    return recipe.structuredIngredients;
+  }
+  return parseIngredients(recipe.ingredients || []);
+}
+
+/**
+ * Get the search keys for a list of ingredient names: the canonical catalog ID
+ * where there is one, otherwise the normalized name and its head noun.
+ * Recipe documents store these as `ingredientKeys` so Firestore can look
+ * recipes up by ingredient with `array-contains-any`.
+ */
+export function getIngredientKeys(names: string[]): string[] {
+  const keys = new Set<string>();
+  for (const name of names) {
+    for (const alternative of splitAlternatives(name)) {
+      const entry = resolveIngredient(alternative);
+      if (entry) {
+        keys.add(entry.id);
+        continue;
+      }
+      const normalized = normalizeIngredientName(alternative);
+      if (normalized) {
+        keys.add(normalized);
+        keys.add(getHeadNoun(normalized));
+      }
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * Get the search keys for a recipe's ingredients
+ */
+export function getRecipeIngredientKeys(recipe: Pick<Recipe, 'ingredients' | 'structuredIngredients'>): string[] {
+  return getIngredientKeys(getStructuredIngredients(recipe).map(ingredient => ingredient.name));
+}
+
+/**
+ * Normalize a user ingredient given as a name or with an amount
+ */
+export function toUserIngredient(ingredient: UserIngredientInput): UserIngredient {
+  if (typeof ingredient === 'string') {
+    return { name: ingredient.trim(), quantity: null, unit: '' };
+  }
+  const unit = normalizeUnit(ingredient.unit || '');
+  return {
+    name: ingredient.name.trim(),
+    quantity: ingredient.quantity,
+    // "pieces" on the ingredients page means a plain count
+    unit: unit === 'piece' ? '' : unit,
+    expiresOn: ingredient.expiresOn ?? null
+  };
+}
+
+/**
+ * Work out whether the user has enough of a recipe ingredient.
+ * Returns null when either amount is unknown or the units can't be compared,
+ * in which case the user is assumed to have enough.
+ */
+function getShortfall(recipeIngredient: StructuredIngredient, userIngredient: UserIngredient): IngredientShortfall | null {
+  if (recipeIngredient.quantity === null || userIngredient.quantity === null) return null;
+  if (!(userIngredient.quantity > 0)) return null;
+
+  // Report in the user's unit so "1 kg" needed vs "300 g" owned reads as "700 g more".
+  // The name lets cups of flour be compared with grams of flour.
+  const needed = convertUnit(recipeIngredient.quantity, recipeIngredient.unit, userIngredient.unit, recipeIngredient.name);
+  if (needed === null || needed <= userIngredient.quantity) return null;
+
+  return {
+    name: recipeIngredient.name,
+    needed,
+    available: userIngredient.quantity,
+    unit: userIngredient.unit
+  };
+}
+
+/**
+ * Check whether a recipe ingredient is one of the user's pantry staples
+ */
+export function isPantryStaple(ingredientName: string, pantryStaples: string[] = []): boolean {
+  return pantryStaples.some(staple => ingredientsMatch(ingredientName, staple));
+}
+
+/**
+ * Score how well the user's ingredients cover a recipe (0-1).
+ * Pantry staples count as owned but don't count towards the user's own
+ * ingredients being used, and so does anything the user can substitute from
+ * what they have (without breaking `dietaryFilters`). When amounts are known,
+ * an ingredient the user doesn't have enough of only counts for the share
+ * they have.
+ */
+export function calculateIngredientCoverage(
+  recipe: Recipe,
+  userIngredients: UserIngredientInput[],
+  pantryStaples: string[] = [],
+  dietaryFilters: string[] = []
+): number {
   if (!recipe.ingredients || recipe.ingredients.length === 0) return 0;
   if (!userIngredients || userIngredients.length === 0) return 0;
 
-  const normalizedUserIngredients = userIngredients.map(ing => 
-    ing.toLowerCase().trim()
-  );
+  // Names are resolved to canonical IDs inside ingredientsMatch
+  const normalizedUserIngredients = userIngredients.map(toUserIngredient);
+  const recipeIngredients = getStructuredIngredients(recipe);
+  if (recipeIngredients.length === 0) return 0;
 
-  // Count how many recipe ingredients match user ingredients
-  const matchingRecipeIngredients = recipe.ingredients.filter(recipeIng => 
-    normalizedUserIngredients.some(userIng => 
-      recipeIng.toLowerCase().includes(userIng) || 
-      userIng.includes(recipeIng.toLowerCase())
-    )
-  );
+  const userNames = normalizedUserIngredients.map(ing => ing.name);
+  const context = getSubstitutionContext(recipe);
+
+  // Sum how much of each recipe ingredient the user has (or has as a staple
+  // or substitute)
+  const matchedRecipeAmount = recipeIngredients.reduce((total, recipeIng) => {
+    const userIng = normalizedUserIngredients.find(ing => ingredientsMatch(recipeIng.name, ing.name));
+    if (!userIng) {
+      const covered = isPantryStaple(recipeIng.name, pantryStaples) ||
+        findAvailableSubstitute(recipeIng.name, userNames, pantryStaples, context, dietaryFilters) !== null;
+      return total + (covered ? 1 : 0);
+    }
+
+    const shortfall = getShortfall(recipeIng, userIng);
+    return total + (shortfall ? shortfall.available / shortfall.needed : 1);
+  }, 0);
 
   // Count how many user ingredients are used in the recipe
-  const usedUserIngredients = normalizedUserIngredients.filter(userIng => 
-    recipe.ingredients.some(recipeIng => 
-      recipeIng.toLowerCase().includes(userIng) || 
-      userIng.includes(recipeIng.toLowerCase())
-    )
+  const usedUserIngredients = normalizedUserIngredients.filter(userIng =>
+    recipeIngredients.some(recipeIng => ingredientsMatch(recipeIng.name, userIng.name))
   );
 
   // Calculate coverage based on both recipe and user ingredients
-  const recipeCoverage = matchingRecipeIngredients.length / recipe.ingredients.length;
+  const recipeCoverage = matchedRecipeAmount / recipeIngredients.length;
   const userCoverage = usedUserIngredients.length / userIngredients.length;
 
   // Return the average of both coverages, weighted slightly towards recipe coverage
   return (recipeCoverage * 0.6 + userCoverage * 0.4);
 }
 
-export function findMissingIngredients(recipe: Recipe, userIngredients: string[]): string[] {
+/**
+ * List the recipe's ingredient lines the user doesn't have, skipping pantry staples
+ */
+export function findMissingIngredients(recipe: Recipe, userIngredients: UserIngredientInput[], pantryStaples: string[] = []): string[] {
   if (!recipe.ingredients || recipe.ingredients.length === 0) return [];
-  if (!userIngredients || userIngredients.length === 0) return recipe.ingredients;
 
-  const normalizedUserIngredients = userIngredients.map(ing => 
-    ing.toLowerCase().trim()
-  );
+  const normalizedUserIngredients = (userIngredients || []).map(toUserIngredient);
 
-  return recipe.ingredients.filter(recipeIng => 
-    !normalizedUserIngredients.some(userIng => 
-      recipeIng.toLowerCase().includes(userIng) || 
-      userIng.includes(recipeIng.toLowerCase())
+  return getStructuredIngredients(recipe)
+    .filter(recipeIng =>
+      !normalizedUserIngredients.some(userIng => ingredientsMatch(recipeIng.name, userIng.name)) &&
+      !isPantryStaple(recipeIng.name, pantryStaples)
     )
-  );
-} 
\ No newline at end of file
+    .map(recipeIng => recipeIng.raw);
+}
+
+/**
+ * List the recipe ingredients the user has, but not enough of
+ */
+export function findIngredientShortfalls(recipe: Recipe, userIngredients: UserIngredientInput[]): IngredientShortfall[] {
+  if (!recipe.ingredients || recipe.ingredients.length === 0) return [];
+
+  const normalizedUserIngredients = (userIngredients || []).map(toUserIngredient);
+
+  return getStructuredIngredients(recipe)
+    .map(recipeIng => {
+      const userIng = normalizedUserIngredients.find(ing => ingredientsMatch(recipeIng.name, ing.name));
+      return userIng ? getShortfall(recipeIng, userIng) : null;
+    })
+    .filter((shortfall): shortfall is IngredientShortfall => shortfall !== null);
+}
+
+/**
+ * Describe a shortfall for display, e.g. "need 700 g more beef"
+ */
+export function formatShortfall(shortfall: IngredientShortfall): string {
+  const missing = shortfall.needed - shortfall.available;
+  const amount = Number.isInteger(missing) ? missing.toString() : missing.toFixed(1).replace(/\.0$/, '');
+  const unit = shortfall.unit ? ` ${shortfall.unit}` : '';
+  return `need ${amount}${unit} more ${shortfall.name}`;
+}
@@ -0,0 +1,192 @@
+import type { Recipe } from '@/types/recipe';
+import type { IngredientCategory } from '@/types/ingredient';
+import type { ShoppingListItem, ShoppingListAisle } from '@/types/shoppingList';
+import { getStructuredIngredients, findIngredientShortfalls, isPantryStaple, toUserIngredient, UserIngredientInput } from './recipeUtils';
+import { findMatchingUserIngredient } from './ingredientMatcher';
+import { getCanonicalId, getIngredientCategory } from './ingredientCatalog';
+import { convertUnit, roundAmount } from './unitConversion';
+
+// Roughly the order you walk a supermarket
+export const AISLE_ORDER: IngredientCategory[] = [
+  'vegetable',
+  'fruit',
+  'meat',
+  'seafood',
+  'dairy',
+  'grain',
+  'spice',
+  'other',
+  'beverage'
+];
+
+export const AISLE_LABELS: Record<IngredientCategory, string> = {
+  vegetable: 'Vegetables',
+  fruit: 'Fruit',
+  meat: 'Meat',
+  seafood: 'Fish & Seafood',
+  dairy: 'Dairy & Eggs',
+  grain: 'Grains & Bakery',
+  spice: 'Herbs & Spices',
+  other: 'Pantry & Other',
+  beverage: 'Drinks'
+};
+
+/**
+ * Create a shopping list item for an ingredient
+ */
+export function createShoppingItem(name: string, quantity: number | null, unit: string, recipeTitle?: string): ShoppingListItem {
+  return {
+    id: `${getCanonicalId(name).replace(/\s+/g, '-')}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    quantity,
+    unit,
+    category: getIngredientCategory(name),
+    checked: false,
+    recipes: recipeTitle ? [recipeTitle] : []
+  };
+}
+
+/**
+ * Work out what to buy for a recipe: ingredients the user doesn't have at
+ * all, plus the extra needed of ones they don't have enough of. Pantry
+ * staples are skipped. `scale` multiplies the recipe's amounts.
+ */
+export function getRecipeShoppingItems(
+  recipe: Recipe,
+  userIngredients: UserIngredientInput[],
+  pantryStaples: string[] = [],
+  scale: number = 1
+): ShoppingListItem[] {
+  const userNames = (userIngredients || []).map(ingredient => toUserIngredient(ingredient).name);
+  const items: ShoppingListItem[] = [];
+
+  for (const ingredient of getStructuredIngredients(recipe)) {
+    if (findMatchingUserIngredient(ingredient.name, userNames)) continue;
+    if (isPantryStaple(ingredient.name, pantryStaples)) continue;
+
+    const quantity = ingredient.quantity !== null && !ingredient.toTaste ? ingredient.quantity * scale : null;
+    items.push(createShoppingItem(ingredient.name, quantity, ingredient.unit, recipe.title));
+  }
+
+  // Shortfalls are already in the user's unit
+  for (const shortfall of findIngredientShortfalls(recipe, userIngredients)) {
+    const extra = shortfall.needed * scale - shortfall.available;
+    if (extra > 0) {
+      items.push(createShoppingItem(shortfall.name, extra, shortfall.unit, recipe.title));
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Add items to a shopping list, merging each with an existing item for the
+ * same ingredient when the amounts can be added up (converting the new amount
+ * to the existing item's unit). Anything that can't be merged gets its own line.
+ */
+export function mergeShoppingItems(existing: ShoppingListItem[], additions: ShoppingListItem[]): ShoppingListItem[] {
+  const merged = existing.map(item => ({ ...item, recipes: [...item.recipes] }));
+
+  for (const addition of additions) {
+    const canonicalId = getCanonicalId(addition.name);
+    let combined = false;
+
+    for (let i = 0; i < merged.length && !combined; i++) {
+      const item = merged[i];
+      if (getCanonicalId(item.name) !== canonicalId) continue;
+
+      let quantity: number | null;
+      if (item.quantity === null || addition.quantity === null) {
+        // "Salt to taste" adds nothing to "1 tsp salt"
+        quantity = item.quantity ?? addition.quantity;
+        if (item.quantity === null && addition.quantity !== null) {
+          item.unit = addition.unit;
+        }
+      } else {
+        const converted = convertUnit(addition.quantity, addition.unit, item.unit, item.name);
+        if (converted === null) continue;
+        quantity = item.quantity + converted;
+      }
+
+      merged[i] = {
+        ...item,
+        quantity,
+        // Needing more means it has to be bought again
+        checked: item.checked && addition.quantity === null,
+        recipes: [...new Set([...item.recipes, ...addition.recipes])]
+      };
+      combined = true;
+    }
+
+    if (!combined) merged.push({ ...addition });
+  }
+
+  return merged;
+}
+
+/**
+ * Group shopping list items by aisle, in walking order, sorted by name
+ */
+export function groupShoppingList(items: ShoppingListItem[]): ShoppingListAisle[] {
+  return AISLE_ORDER
+    .map(category => ({
+      category,
+      label: AISLE_LABELS[category],
+      items: items
+        .filter(item => (item.category || 'other') === category)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }))
+    .filter(aisle => aisle.items.length > 0);
+}
+
+/**
+ * Format an item's amount, e.g. "700 g" or "1.5 cup"; '' when unknown
+ */
+export function formatShoppingAmount(item: ShoppingListItem): string {
+  if (item.quantity === null) return '';
+  const { quantity, unit } = roundAmount({ quantity: item.quantity, unit: item.unit });
+  return unit ? `${quantity} ${unit}` : `${quantity}`;
+}
+
+/**
+ * Format the list as plain text, one aisle per section:
+ *
+ *   Vegetables
+ *   [ ] 2 onion
+ *   [x] 500 g spinach
+ */
+export function formatShoppingListText(items: ShoppingListItem[]): string {
+  return groupShoppingList(items)
+    .map(aisle => [
+      aisle.label,
+      ...aisle.items.map(item => {
+        const amount = formatShoppingAmount(item);
+        return `${item.checked ? '[x]' : '[ ]'} ${amount ? `${amount} ` : ''}${item.name}`;
+      })
+    ].join('\n'))
+    .join('\n\n');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format the list as CSV with a header row
+ */
+export function formatShoppingListCsv(items: ShoppingListItem[]): string {
+  const rows = groupShoppingList(items).flatMap(aisle =>
+    aisle.items.map(item => {
+      const amount = item.quantity === null ? null : roundAmount({ quantity: item.quantity, unit: item.unit });
+      return [
+        aisle.label,
+        item.name,
+        amount ? String(amount.quantity) : '',
+        amount ? amount.unit : '',
+        item.checked ? 'yes' : 'no',
+        item.recipes.join('; ')
+      ].map(escapeCsv).join(',');
+    })
+  );
+  return ['Aisle,Item,Quantity,Unit,Checked,Recipes', ...rows].join('\n');
+}
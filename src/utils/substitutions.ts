@@ -0,0 +1,116 @@
+import type { SubstitutionRule, SubstitutionContext } from '@/types/ingredient';
+import type { IngredientSubstitution, Recipe } from '@/types/recipe';
+import type { Equipment } from '@/types/equipment';
+import { SUBSTITUTION_RULES } from '@/data/substitutions';
+import { getCanonicalId, getCatalogEntry } from './ingredientCatalog';
+import { findMatchingUserIngredient } from './ingredientMatcher';
+import { findRequiredEquipment } from './equipment';
+import { checkDietCompliance, isSupportedDiet } from './dietCompliance';
+
+// Words that mark a recipe as baking, where swaps like flax eggs or milk for
+// buttermilk behave differently than in a pan
+const BAKING_PATTERN = /\b(bake|baked|baking|cakes?|cupcakes?|muffins?|cookies?|brownies?|breads?|loaf|loaves|scones?|pastry|pastries|pies?|tarts?|biscuits?|batter|dough)\b/;
+const BAKING_INGREDIENTS_PATTERN = /\bbaking (soda|powder)\b/g;
+
+// Equipment and words that mean the recipe is heated at all
+const HEAT_EQUIPMENT: Equipment[] = ['stovetop', 'oven', 'microwave', 'air-fryer', 'slow-cooker', 'pressure-cooker', 'grill'];
+const COOKING_PATTERN = /\b(cook|cooked|cooking|boil|boiled|boiling|heat|heated|steam|steamed|poach|poached|toast|toasted|melt|melted|warm)\b/;
+
+/**
+ * Work out what kind of cooking a recipe is, so only swaps that work there
+ * are suggested: baking, cooking, or raw when nothing is heated. Recipes
+ * without instructions give 'any'.
+ */
+export function getSubstitutionContext(recipe: Pick<Recipe, 'title' | 'instructions'>): SubstitutionContext {
+  if (!recipe.instructions || recipe.instructions.length === 0) return 'any';
+
+  const text = [recipe.title || '', ...recipe.instructions].join('\n').toLowerCase().replace(BAKING_INGREDIENTS_PATTERN, ' ');
+  if (BAKING_PATTERN.test(text)) return 'baking';
+
+  const heated = COOKING_PATTERN.test(text) ||
+    findRequiredEquipment(recipe).some(({ equipment }) => HEAT_EQUIPMENT.includes(equipment));
+  return heated ? 'cooking' : 'raw';
+}
+
+/**
+ * Get the substitution rules for an ingredient, best first. Pass a context to
+ * leave out rules that only work elsewhere (e.g. baking-only swaps).
+ */
+export function getSubstitutionRules(ingredientName: string, context?: SubstitutionContext): SubstitutionRule[] {
+  const id = getCanonicalId(ingredientName);
+  return SUBSTITUTION_RULES.filter(rule =>
+    rule.ingredient === id &&
+    (!context || context === 'any' || rule.context === 'any' || rule.context === context)
+  );
+}
+
+/**
+ * Display name for a substitute, e.g. 'sour-cream' -> "sour cream"
+ */
+function getSubstituteName(substitute: string): string {
+  return getCatalogEntry(substitute)?.name.toLowerCase() ?? substitute;
+}
+
+/**
+ * Check every part of a substitute against each of the user's diets, so a
+ * swap can't bring in something the recipe was free of (soy sauce's wheat
+ * when gluten-free, yogurt when lactose-free)
+ */
+function suitsDiets(substituteNames: string[], dietaryFilters: string[]): boolean {
+  const substitute = { ingredients: substituteNames } as Recipe;
+  return dietaryFilters
+    .filter(isSupportedDiet)
+    .every(diet => checkDietCompliance(substitute, diet).compliant);
+}
+
+/**
+ * Find the first substitution the user can make with what they have.
+ * Every part of the substitute has to be among the user's ingredients or
+ * their pantry staples, and at least one part has to be the user's own, so
+ * staples alone never stand in for something the user is missing. Swaps
+ * that break one of the user's diets (honey for maple syrup when vegan) are
+ * skipped.
+ */
+export function findAvailableSubstitute(
+  ingredientName: string,
+  userIngredients: string[],
+  pantryStaples: string[] = [],
+  context?: SubstitutionContext,
+  dietaryFilters: string[] = []
+): IngredientSubstitution | null {
+  const available = [...userIngredients, ...pantryStaples];
+
+  for (const rule of getSubstitutionRules(ingredientName, context)) {
+    const names = rule.substitutes.map(getSubstituteName);
+    if (
+      suitsDiets(names, dietaryFilters) &&
+      names.every(name => findMatchingUserIngredient(name, available)) &&
+      names.some(name => findMatchingUserIngredient(name, userIngredients))
+    ) {
+      return {
+        recipeIngredient: ingredientName,
+        substitute: names.join(' + '),
+        instructions: rule.instructions
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe a substitution for the UI, e.g.
+ * "Use milk + lemon for buttermilk (1 cup milk + 1 tbsp lemon juice per cup)"
+ */
+export function formatSubstitution(substitution: IngredientSubstitution): string {
+  return `Use ${substitution.substitute} for ${substitution.recipeIngredient} (${substitution.instructions})`;
+}
+
+/**
+ * Describe a rule's effect on diets, e.g. "makes it vegan, dairy-free"
+ */
+export function formatDietaryEffect(rule: SubstitutionRule): string {
+  const parts: string[] = [];
+  if (rule.dietaryEffect.adds.length > 0) parts.push(`makes it ${rule.dietaryEffect.adds.join(', ')}`);
+  if (rule.dietaryEffect.removes.length > 0) parts.push(`no longer ${rule.dietaryEffect.removes.join(', ')}`);
+  return parts.join('; ');
+}
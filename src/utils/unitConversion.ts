@@ -0,0 +1,237 @@
+import { normalizeUnit } from './ingredientParser';
+import { resolveIngredient } from './ingredientCatalog';
+
+export type MeasurementSystem = 'metric' | 'imperial';
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface Amount {
+  quantity: number;
+  unit: string;
+}
+
+// Grams per unit
+const MASS_UNITS: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592
+};
+
+// Millilitres per unit (US customary measures)
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.929,
+  tbsp: 14.787,
+  'fl oz': 29.574,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+  pinch: 0.308,
+  dash: 0.616
+};
+
+// Plain counts; '' is a unitless amount such as "2 eggs"
+const COUNT_UNITS: Record<string, number> = {
+  '': 1,
+  piece: 1
+};
+
+const METRIC_UNITS = new Set(['g', 'kg', 'ml', 'l']);
+const IMPERIAL_UNITS = new Set(['oz', 'lb', 'tsp', 'tbsp', 'fl oz', 'cup', 'pint', 'quart', 'gallon']);
+
+/**
+ * Grams per millilitre for ingredients commonly measured both ways, keyed by
+ * catalog ID. Dry goods are as usually measured in a cup (spooned, not packed).
+ */
+const INGREDIENT_DENSITIES: Record<string, number> = {
+  water: 1,
+  milk: 1.03,
+  buttermilk: 1.03,
+  cream: 1.01,
+  'sour-cream': 1.02,
+  yogurt: 1.03,
+  juice: 1.04,
+  stock: 1,
+  wine: 0.99,
+  'coconut-milk': 0.97,
+  'soy-sauce': 1.15,
+  vinegar: 1.01,
+  'olive-oil': 0.91,
+  'vegetable-oil': 0.92,
+  'sesame-oil': 0.92,
+  butter: 0.959,
+  honey: 1.42,
+  'maple-syrup': 1.32,
+  'peanut-butter': 1.08,
+  mayonnaise: 0.93,
+  ketchup: 1.15,
+  flour: 0.507,
+  cornstarch: 0.54,
+  sugar: 0.845,
+  'powdered-sugar': 0.507,
+  salt: 1.2,
+  'baking-powder': 0.9,
+  'baking-soda': 0.92,
+  yeast: 0.6,
+  rice: 0.786,
+  oat: 0.38,
+  quinoa: 0.72,
+  couscous: 0.73,
+  lentil: 0.81,
+  chickpea: 0.7,
+  cheese: 0.42,
+  parmesan: 0.42,
+  'cream-cheese': 0.97,
+  chocolate: 0.72,
+  raisin: 0.63,
+  nut: 0.55,
+  peanut: 0.6,
+  pea: 0.6,
+  corn: 0.6,
+  spinach: 0.13,
+  'tomato-paste': 1.1,
+  'canned-tomato': 1.02,
+  cinnamon: 0.56,
+  cumin: 0.42,
+  paprika: 0.46,
+  'chili-powder': 0.54,
+  'curry-powder': 0.42,
+  'black-pepper': 0.49
+};
+
+// Ingredients metric recipes weigh rather than measure in a jug or spoon, so
+// "1 cup flour" reads as grams for a metric cook
+const WEIGHED_INGREDIENTS = new Set([
+  'flour', 'cornstarch', 'sugar', 'powdered-sugar', 'salt', 'baking-powder', 'baking-soda', 'yeast',
+  'rice', 'oat', 'quinoa', 'couscous', 'lentil', 'chickpea', 'cheese', 'parmesan', 'cream-cheese',
+  'butter', 'chocolate', 'raisin', 'nut', 'peanut', 'pea', 'corn', 'spinach',
+  'cinnamon', 'cumin', 'paprika', 'chili-powder', 'curry-powder', 'black-pepper'
+]);
+
+/**
+ * Get whether a unit measures mass, volume or a count.
+ * Returns null for units we can't convert (cans, bunches, cloves).
+ */
+export function getUnitDimension(unit: string): UnitDimension | null {
+  const normalized = normalizeUnit(unit || '');
+  if (normalized in MASS_UNITS) return 'mass';
+  if (normalized in VOLUME_UNITS) return 'volume';
+  if (normalized in COUNT_UNITS) return 'count';
+  return null;
+}
+
+/**
+ * Get the measurement system a unit belongs to, or null for units used by
+ * both (counts, pinches, cans)
+ */
+export function getUnitSystem(unit: string): MeasurementSystem | null {
+  const normalized = normalizeUnit(unit || '');
+  if (METRIC_UNITS.has(normalized)) return 'metric';
+  if (IMPERIAL_UNITS.has(normalized)) return 'imperial';
+  return null;
+}
+
+/**
+ * Get an ingredient's density in grams per millilitre, if we know it
+ */
+export function getIngredientDensity(ingredientName: string): number | null {
+  const entry = resolveIngredient(ingredientName);
+  return entry ? INGREDIENT_DENSITIES[entry.id] ?? null : null;
+}
+
+/**
+ * Convert an amount from one unit to another.
+ * Converting between mass and volume needs the ingredient name so its density
+ * can be looked up (1 cup flour ≈ 120 g, 1 cup sugar ≈ 200 g).
+ * Returns null when the units can't be converted.
+ */
+export function convertUnit(quantity: number, fromUnit: string, toUnit: string, ingredientName?: string): number | null {
+  const from = normalizeUnit(fromUnit || '');
+  const to = normalizeUnit(toUnit || '');
+  if (from === to) return quantity;
+
+  for (const table of [MASS_UNITS, VOLUME_UNITS, COUNT_UNITS]) {
+    if (from in table && to in table) {
+      return (quantity * table[from]) / table[to];
+    }
+  }
+
+  if (!ingredientName) return null;
+  const density = getIngredientDensity(ingredientName);
+  if (!density) return null;
+
+  if (from in VOLUME_UNITS && to in MASS_UNITS) {
+    return (quantity * VOLUME_UNITS[from] * density) / MASS_UNITS[to];
+  }
+  if (from in MASS_UNITS && to in VOLUME_UNITS) {
+    return (quantity * MASS_UNITS[from]) / density / VOLUME_UNITS[to];
+  }
+  return null;
+}
+
+/**
+ * Pick a readable unit for a metric amount (g/kg, ml/l)
+ */
+function toMetric(quantity: number, unit: string): Amount {
+  if (unit in MASS_UNITS) {
+    const grams = quantity * MASS_UNITS[unit];
+    return grams >= 1000 ? { quantity: grams / 1000, unit: 'kg' } : { quantity: grams, unit: 'g' };
+  }
+  const millilitres = quantity * VOLUME_UNITS[unit];
+  return millilitres >= 1000 ? { quantity: millilitres / 1000, unit: 'l' } : { quantity: millilitres, unit: 'ml' };
+}
+
+/**
+ * Pick a readable unit for an imperial amount (oz/lb, tsp/tbsp/cup)
+ */
+function toImperial(quantity: number, unit: string): Amount {
+  if (unit in MASS_UNITS) {
+    const ounces = (quantity * MASS_UNITS[unit]) / MASS_UNITS.oz;
+    return ounces >= 16 ? { quantity: ounces / 16, unit: 'lb' } : { quantity: ounces, unit: 'oz' };
+  }
+  const millilitres = quantity * VOLUME_UNITS[unit];
+  if (millilitres < VOLUME_UNITS.tbsp) return { quantity: millilitres / VOLUME_UNITS.tsp, unit: 'tsp' };
+  if (millilitres < VOLUME_UNITS.cup / 4) return { quantity: millilitres / VOLUME_UNITS.tbsp, unit: 'tbsp' };
+  return { quantity: millilitres / VOLUME_UNITS.cup, unit: 'cup' };
+}
+
+/**
+ * Express an amount in the given measurement system. Mass stays mass and
+ * volume stays volume, except that dry ingredients given by volume are
+ * weighed for metric when we know their density (1 cup flour -> 120 g).
+ * Counts, pinches and package units are returned unchanged.
+ */
+export function toMeasurementSystem(quantity: number, unit: string, system: MeasurementSystem, ingredientName?: string): Amount {
+  const normalized = normalizeUnit(unit || '');
+  const currentSystem = getUnitSystem(normalized);
+  if (!currentSystem) return { quantity, unit: normalized };
+
+  if (system === 'metric' && ingredientName && normalized in VOLUME_UNITS) {
+    const entry = resolveIngredient(ingredientName);
+    const grams = entry && WEIGHED_INGREDIENTS.has(entry.id) ? convertUnit(quantity, normalized, 'g', ingredientName) : null;
+    if (grams !== null) return toMetric(grams, 'g');
+  }
+
+  // Rescale within the system too, so 1500 g reads as 1.5 kg
+  return system === 'metric' ? toMetric(quantity, normalized) : toImperial(quantity, normalized);
+}
+
+/**
+ * Round a converted amount to something sensible to measure in a kitchen
+ */
+export function roundAmount(amount: Amount): Amount {
+  const { quantity, unit } = amount;
+  if (!getUnitSystem(unit)) return amount;
+  if (unit === 'g' || unit === 'ml') {
+    const step = quantity >= 100 ? 5 : 1;
+    return { quantity: Math.max(step, Math.round(quantity / step) * step), unit };
+  }
+  if (unit === 'kg' || unit === 'l') {
+    return { quantity: Math.round(quantity * 100) / 100, unit };
+  }
+  // Imperial measures read best in quarters
+  return { quantity: Math.max(0.25, Math.round(quantity * 4) / 4), unit };
+}